@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so it shares src/lib with the web app;
+// tsx is a runtime dependency, so installs without dev dependencies work
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const result = spawnSync(
+  process.execPath,
+  [
+    require.resolve('tsx/cli'),
+    '--tsconfig', path.join(root, 'tsconfig.json'),
+    path.join(root, 'src', 'cli', 'lighthouse-checker.ts'),
+    ...process.argv.slice(2)
+  ],
+  { stdio: 'inherit' }
+);
+
+process.exit(result.status ?? 1);
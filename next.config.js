@@ -3,6 +3,8 @@ const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
   experimental: {
+    // Recovers interrupted sessions and starts the audit scheduler (src/instrumentation.ts)
+    instrumentationHook: true,
     serverComponentsExternalPackages: ['lighthouse', 'puppeteer', 'chrome-launcher']
   },
   // Allow serving static files from reports directory
@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+// Local webhook receiver for trying out notifications: prints each delivery,
+// checks its signature and can fail the first requests to exercise retries.
+//
+//   node scripts/webhook-stub.mjs --port 4000 --secret s3cret --fail 2
+import crypto from 'crypto';
+import http from 'http';
+import { parseArgs } from 'util';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '4000' },
+    secret: { type: 'string' },
+    fail: { type: 'string', default: '0' }
+  }
+});
+
+const port = parseInt(values.port, 10);
+let failuresLeft = parseInt(values.fail, 10) || 0;
+
+function checkSignature(req, body) {
+  const signature = req.headers['x-lighthouse-signature'];
+  if (!values.secret) return signature ? 'present (no --secret to check it)' : 'unsigned';
+  if (!signature) return 'MISSING';
+
+  const timestamp = req.headers['x-lighthouse-timestamp'];
+  const expected = `sha256=${crypto.createHmac('sha256', values.secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  const valid = signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? 'valid' : 'INVALID';
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`  event:     ${req.headers['x-lighthouse-event']}`);
+    console.log(`  delivery:  ${req.headers['x-lighthouse-delivery']}`);
+    console.log(`  signature: ${checkSignature(req, body)}`);
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`  -> 500 (simulated failure, ${failuresLeft} left)`);
+      res.writeHead(500).end('Simulated failure');
+      return;
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2).replace(/^/gm, '  '));
+    } catch {
+      console.log(`  ${body}`);
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook stub listening on http://localhost:${port}/`);
+});
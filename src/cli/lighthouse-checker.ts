@@ -0,0 +1,558 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import YAML from 'yaml';
+import { LighthouseService } from '@/lib/lighthouse';
+import { AuthConfigError, validateAuthConfig } from '@/lib/auth';
+import { BudgetParseError, describeBudgetFailure, parseBudgets } from '@/lib/budgets';
+import {
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_DISCOVERY_LIMIT,
+  discoverUrls,
+  DiscoveryError,
+  MAX_CRAWL_DEPTH,
+  validateDiscoveryRequest
+} from '@/lib/discovery';
+import { EXPORT_FORMATS, exportSession } from '@/lib/exports';
+import { buildImport, compactOverrides, detectMapping, ImportError } from '@/lib/imports';
+import {
+  DEFAULT_TEMPERATURE,
+  InsightsError,
+  InsightsProvider,
+  insightsProviderNames,
+  validateInsightsSettings
+} from '@/lib/insights';
+import { createInsightsProvider, serverApiKey } from '@/lib/llm';
+import { MAX_RUNS } from '@/lib/median';
+import { MAX_CONCURRENCY } from '@/lib/pool';
+import { getProfileStore, ProfileError, validateProfile } from '@/lib/profiles';
+import { RequestConfigError, validateRequestConfig } from '@/lib/requests';
+import { sanitizeConfig } from '@/lib/storage';
+import { IMPORT_EXTENSIONS, importFormatOf, readImportFile } from '@/lib/spreadsheets';
+import { isValidUrl, parseUrlsFromText } from '@/lib/utils';
+import { validateVariants, VariantError } from '@/lib/variants';
+import {
+  AuditResult,
+  AuditSession,
+  AuthConfig,
+  BatchInsights,
+  EmulationProfile,
+  ExportFormat,
+  InsightsSettings,
+  LighthouseConfig,
+  PerformanceBudget,
+  RequestCustomization,
+  ScoreCategory,
+  UrlOverride
+} from '@/types';
+
+const USAGE = `Usage: lighthouse-checker [options] [url...|file]
+
+URLs can be listed directly or read from .csv, .tsv, .xlsx, .txt or .json files.
+Columns named like url, form factor, label, group, performance or lcp set
+per-URL overrides and budgets.
+
+Options:
+  --form-factor <desktop|mobile>   Device to emulate (default: desktop)
+  --profile <id|file>              Emulation/throttling profile: a preset or saved profile ID, or a JSON/YAML file
+  --variant <id|file>              Also audit every URL with this profile and compare; repeatable
+  --out <dir>                      Directory for JSON/HTML reports (default: ./lighthouse-reports)
+  --bypass-token <token>           Vercel protection bypass token (default: $VERCEL_BYPASS_TOKEN)
+  --api-key <key>                  API key for the AI provider (default: its server variable, e.g. $OPENAI_API_KEY)
+  --ai-provider <name>             AI insights provider: ${insightsProviderNames().join(', ')}
+                                   (default: openai when an OpenAI key is set)
+  --ai-model <model>               Model (Azure: deployment) for AI insights (default: the provider's)
+  --ai-temperature <n>             Sampling temperature for AI insights (default: ${DEFAULT_TEMPERATURE})
+  --concurrency <n>                Parallel audits, each with its own Chrome (default: based on CPU count)
+  --runs <n>                       Audit each URL n times and report the median run (default: 1)
+  --budget <file>                  JSON/YAML budget file with per-URL score and metric limits
+  --min-score <category=score>     Fail when a category scores below the minimum; repeatable,
+                                   e.g. --min-score performance=90 --min-score seo=95
+  --login <file>                   JSON/YAML login recipe; credentials come from AUDIT_AUTH_* variables
+                                   (allowed origins in <name>_ORIGINS)
+  --storage-state <file>           Cookies/localStorage JSON (Playwright storage state) to audit as a logged-in user
+  --header <"Name: value">         Extra request header; repeatable
+  --cookie <name=value>            Cookie set on each audited host; repeatable
+  --basic-auth <user:password>     HTTP basic auth credentials (default: $AUDIT_BASIC_AUTH)
+  --sitemap <url>                  Also audit the URLs in a sitemap or sitemap index (.xml or .xml.gz)
+  --crawl <url>                    Also audit pages found by following same-origin links from this page
+  --depth <n>                      Link hops for --crawl (default: ${DEFAULT_CRAWL_DEPTH}, max ${MAX_CRAWL_DEPTH})
+  --limit <n>                      Most URLs to take from --sitemap, or pages to visit with --crawl (default: ${DEFAULT_DISCOVERY_LIMIT})
+  --include <glob>                 Only keep discovered URLs matching a glob, e.g. "/products/**"; repeatable
+  --exclude <glob>                 Drop discovered URLs matching a glob; repeatable
+  --export <format>                Also write all results to --out as ${EXPORT_FORMATS.join(', ')}; repeatable
+  -h, --help                       Show this help
+
+Exit codes: 0 all audits passed, 1 an audit failed or a score budget was missed, 2 usage error`;
+
+const CATEGORIES: ScoreCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+class UsageError extends Error {}
+
+const READ_ERRORS: Record<string, string> = {
+  ENOENT: 'no such file',
+  EISDIR: 'is a directory',
+  EACCES: 'permission denied'
+};
+
+/**
+ * Read a file named on the command line; one that can't be read is a usage error
+ */
+async function readArgumentFile(file: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(file);
+  } catch (error) {
+    const reason = READ_ERRORS[(error as NodeJS.ErrnoException).code || ''];
+    if (reason) throw new UsageError(`Cannot read ${file}: ${reason}`);
+    throw error;
+  }
+}
+
+/**
+ * Parse repeated `category=score` flags into a budget applied to every URL
+ */
+function parseMinScores(values: string[]): PerformanceBudget | null {
+  if (values.length === 0) return null;
+
+  const scores: PerformanceBudget['scores'] = {};
+  values.forEach(value => {
+    const [category, score] = value.split('=');
+    if (!CATEGORIES.includes(category as ScoreCategory)) {
+      throw new UsageError(`Unknown category "${category}" in --min-score (expected one of ${CATEGORIES.join(', ')})`);
+    }
+    const minimum = Number(score);
+    if (!Number.isFinite(minimum) || minimum < 0 || minimum > 100) {
+      throw new UsageError(`Invalid score "${score}" in --min-score ${value}`);
+    }
+    scores[category as ScoreCategory] = minimum;
+  });
+  return { path: '**', scores };
+}
+
+/**
+ * Insights settings from the --ai-* flags. Without them, OpenAI is used when
+ * a key is given or OPENAI_API_KEY is set.
+ */
+function parseInsightsFlags(
+  provider: string | undefined,
+  model: string | undefined,
+  temperature: string | undefined,
+  apiKey: string | undefined
+): InsightsSettings | undefined {
+  if (provider === undefined && model === undefined && temperature === undefined) {
+    return apiKey || process.env.OPENAI_API_KEY ? { provider: 'openai' } : undefined;
+  }
+  try {
+    return validateInsightsSettings({
+      provider: provider || 'openai',
+      model,
+      temperature: temperature === undefined ? undefined : Number(temperature)
+    });
+  } catch (error) {
+    if (error instanceof InsightsError) {
+      throw new UsageError(error.message.replace(/^AI /, '--ai-'));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load budgets from a file and append any --min-score flags, which take precedence
+ */
+async function loadBudgets(budgetFile: string | undefined, minScores: string[]): Promise<PerformanceBudget[]> {
+  const budgets: PerformanceBudget[] = [];
+  if (budgetFile) {
+    try {
+      budgets.push(...parseBudgets((await readArgumentFile(budgetFile)).toString('utf-8')));
+    } catch (error) {
+      if (error instanceof BudgetParseError) {
+        throw new UsageError(`${budgetFile}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const minScoreBudget = parseMinScores(minScores);
+  if (minScoreBudget) budgets.push(minScoreBudget);
+  return budgets;
+}
+
+/**
+ * Build the auth config from a login recipe file or a storage state file
+ */
+async function loadAuth(loginFile: string | undefined, storageState: string | undefined): Promise<AuthConfig | undefined> {
+  if (!loginFile && !storageState) return undefined;
+  if (loginFile && storageState) {
+    throw new UsageError('Use either --login or --storage-state, not both');
+  }
+
+  try {
+    if (storageState) {
+      return validateAuthConfig({ storageState: path.resolve(storageState) });
+    }
+    return validateAuthConfig({ login: YAML.parse((await readArgumentFile(loginFile!)).toString('utf-8')) });
+  } catch (error) {
+    if (error instanceof AuthConfigError) {
+      throw new UsageError(`${loginFile || storageState}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Look up a preset or saved profile by ID, or read one from a file
+ */
+async function loadProfile(profile: string | undefined): Promise<EmulationProfile | undefined> {
+  if (!profile) return undefined;
+
+  const known = await getProfileStore().getProfile(profile);
+  if (known) return known;
+
+  // A missing file means an unknown ID; other read problems are reported as for any file argument
+  const exists = await fs.access(profile).then(() => true, error => (error as NodeJS.ErrnoException).code !== 'ENOENT');
+  if (!exists) {
+    const ids = (await getProfileStore().listProfiles()).map(item => item.id);
+    throw new UsageError(`Unknown --profile "${profile}" (expected a file or one of ${ids.join(', ')})`);
+  }
+
+  try {
+    return validateProfile(YAML.parse((await readArgumentFile(profile)).toString('utf-8')));
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      throw new UsageError(`${profile}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build request customization from repeated --header/--cookie flags and --basic-auth
+ */
+function parseRequestFlags(headers: string[], cookies: string[], basicAuth: string | undefined): RequestCustomization | undefined {
+  if (headers.length === 0 && cookies.length === 0 && !basicAuth) return undefined;
+
+  const split = (value: string, separator: string, flag: string) => {
+    const index = value.indexOf(separator);
+    if (index <= 0) throw new UsageError(`Invalid ${flag} "${value}"`);
+    return [value.slice(0, index).trim(), value.slice(index + 1).trim()];
+  };
+
+  try {
+    const request: Record<string, unknown> = {};
+    if (headers.length > 0) {
+      request.headers = headers.map(header => {
+        const [name, value] = split(header, ':', '--header');
+        return { name, value };
+      });
+    }
+    if (cookies.length > 0) {
+      request.cookies = cookies.map(cookie => {
+        const [name, value] = split(cookie, '=', '--cookie');
+        return { name, value };
+      });
+    }
+    if (basicAuth) {
+      const [username, password] = split(basicAuth, ':', '--basic-auth');
+      request.basicAuth = { username, password };
+    }
+    return validateRequestConfig(request);
+  } catch (error) {
+    if (error instanceof RequestConfigError) {
+      throw new UsageError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Collect URLs from positional arguments (URLs or URL list files), with the
+ * per-row overrides of imported files; invalid rows are reported and skipped,
+ * but an argument that is neither is a usage error
+ */
+async function collectUrls(inputs: string[]): Promise<UrlOverride[]> {
+  const targets: UrlOverride[] = [];
+  for (const input of inputs) {
+    if (!importFormatOf(input) || isValidUrl(input)) {
+      const invalid = input.split(/[\n,]/).map(url => url.trim()).find(url => url.length > 0 && !isValidUrl(url));
+      if (invalid !== undefined) {
+        throw new UsageError(`"${invalid}" is not a valid URL or URL list file (${Object.keys(IMPORT_EXTENSIONS).join(', ')})`);
+      }
+      targets.push(...parseUrlsFromText(input).map(url => ({ url })));
+      continue;
+    }
+
+    try {
+      const table = await readImportFile(await readArgumentFile(input), path.basename(input));
+      const mapping = detectMapping(table.rows);
+      if (!mapping.columns.includes('url')) {
+        throw new UsageError(`${input}: no URL column found`);
+      }
+      const { targets: imported, errors } = buildImport(table, mapping);
+      const rowName = table.format === 'json' ? 'item' : 'row';
+      errors.forEach(error => console.error(`Warning: ${input} ${rowName} ${error.row}: ${error.message}`));
+      targets.push(...imported);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        throw new UsageError(`${input}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  return targets;
+}
+
+/**
+ * Discover URLs from --sitemap and --crawl; problems with individual pages are only reported
+ */
+async function discoverFromFlags(
+  values: { sitemap?: string; crawl?: string; depth?: string; limit?: string; include: string[]; exclude: string[] },
+  config: Pick<LighthouseConfig, 'bypassToken' | 'request'>
+): Promise<string[]> {
+  const sources: Array<['sitemap' | 'crawl', string | undefined]> = [['sitemap', values.sitemap], ['crawl', values.crawl]];
+  const urls: string[] = [];
+
+  for (const [mode, url] of sources) {
+    if (!url) continue;
+    try {
+      const result = await discoverUrls(validateDiscoveryRequest({
+        mode,
+        url,
+        depth: values.depth !== undefined ? Number(values.depth) : undefined,
+        limit: values.limit !== undefined ? Number(values.limit) : undefined,
+        include: values.include,
+        exclude: values.exclude,
+        bypassToken: config.bypassToken,
+        request: config.request
+      }));
+      result.errors.forEach(message => console.error(`Warning: ${message}`));
+      console.error(`Discovered ${result.urls.length} URL(s) from ${mode === 'sitemap' ? 'the sitemap' : 'the crawl'}${result.truncated ? ' (stopped at --limit)' : ''}`);
+      urls.push(...result.urls);
+    } catch (error) {
+      if (error instanceof DiscoveryError) {
+        throw new UsageError(`--${mode}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  return urls;
+}
+
+/**
+ * Describe the budget checks a result failed
+ */
+function budgetFailures(result: AuditResult): string[] {
+  return result.budget?.checks.filter(check => !check.passed).map(describeBudgetFailure) || [];
+}
+
+function printSummary(results: AuditResult[], showProfile: boolean) {
+  const rows = results.map(result => {
+    const failures = budgetFailures(result);
+    const status = result.error ? `ERROR: ${result.error}` : failures.length > 0 ? `FAIL: ${failures.join(', ')}` : 'PASS';
+    const scores = result.scores
+      ? CATEGORIES.map(category => {
+          const spread = result.spread?.[category];
+          return spread ? `${result.scores![category]}±${spread.stddev}` : String(result.scores![category]);
+        })
+      : CATEGORIES.map(() => '-');
+    const name = result.label ? `${result.label} ${result.url}` : result.url;
+    return [showProfile ? `${name} (${result.profile})` : name, ...scores, status];
+  });
+
+  const header = ['URL', 'Perf', 'A11y', 'BP', 'SEO', 'Status'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => (column === header.length - 1 ? 0 : row[column].length)))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]))).join('  ');
+
+  console.log('');
+  console.log(format(header));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+  console.log('');
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'form-factor': { type: 'string', default: 'desktop' },
+      profile: { type: 'string' },
+      variant: { type: 'string', multiple: true, default: [] },
+      out: { type: 'string', default: 'lighthouse-reports' },
+      'bypass-token': { type: 'string' },
+      'api-key': { type: 'string' },
+      'ai-provider': { type: 'string' },
+      'ai-model': { type: 'string' },
+      'ai-temperature': { type: 'string' },
+      concurrency: { type: 'string' },
+      runs: { type: 'string' },
+      budget: { type: 'string' },
+      'min-score': { type: 'string', multiple: true, default: [] },
+      login: { type: 'string' },
+      'storage-state': { type: 'string' },
+      header: { type: 'string', multiple: true, default: [] },
+      cookie: { type: 'string', multiple: true, default: [] },
+      'basic-auth': { type: 'string' },
+      sitemap: { type: 'string' },
+      crawl: { type: 'string' },
+      depth: { type: 'string' },
+      limit: { type: 'string' },
+      include: { type: 'string', multiple: true, default: [] },
+      export: { type: 'string', multiple: true, default: [] },
+      exclude: { type: 'string', multiple: true, default: [] },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const formFactor = values['form-factor'];
+  if (formFactor !== 'desktop' && formFactor !== 'mobile') {
+    throw new UsageError(`Invalid --form-factor "${formFactor}" (expected desktop or mobile)`);
+  }
+
+  const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY)) {
+    throw new UsageError(`--concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`);
+  }
+
+  const runs = values.runs !== undefined ? Number(values.runs) : undefined;
+  if (runs !== undefined && (!Number.isInteger(runs) || runs < 1 || runs > MAX_RUNS)) {
+    throw new UsageError(`--runs must be an integer between 1 and ${MAX_RUNS}`);
+  }
+
+  const profile = await loadProfile(values.profile);
+  const extraProfiles: EmulationProfile[] = [];
+  for (const variant of values.variant as string[]) {
+    extraProfiles.push((await loadProfile(variant))!);
+  }
+  const budgets = await loadBudgets(values.budget, values['min-score'] as string[]);
+  const auth = await loadAuth(values.login, values['storage-state']);
+  const request = parseRequestFlags(
+    values.header as string[],
+    values.cookie as string[],
+    values['basic-auth'] || process.env.AUDIT_BASIC_AUTH || undefined
+  );
+  const bypassToken = values['bypass-token'] || process.env.VERCEL_BYPASS_TOKEN || undefined;
+  const discovered = await discoverFromFlags({
+    ...values,
+    include: values.include as string[],
+    exclude: values.exclude as string[]
+  }, { bypassToken, request });
+  const targets = await collectUrls(positionals);
+  const urls = targets
+    .map(target => target.url)
+    .concat(discovered)
+    .filter((url, index, all) => all.indexOf(url) === index);
+  if (urls.length === 0) {
+    throw new UsageError('No valid URLs provided');
+  }
+
+  const insightsSettings = parseInsightsFlags(values['ai-provider'], values['ai-model'], values['ai-temperature'], values['api-key']);
+  const config: LighthouseConfig = {
+    apiKey: values['api-key'] || (insightsSettings && serverApiKey(insightsSettings.provider)),
+    bypassToken,
+    // A profile brings its own form factor
+    formFactor: profile?.formFactor || formFactor,
+    profile,
+    budgets,
+    concurrency,
+    runs,
+    auth,
+    request,
+    overrides: compactOverrides(targets),
+    insights: insightsSettings
+  };
+
+  if (extraProfiles.length > 0) {
+    try {
+      config.variants = validateVariants([
+        { formFactor: config.formFactor, profile },
+        ...extraProfiles.map(extra => ({ formFactor: extra.formFactor, profile: extra }))
+      ]);
+      config.profile = config.variants[0].profile;
+    } catch (error) {
+      if (error instanceof VariantError) {
+        throw new UsageError(error.message);
+      }
+      throw error;
+    }
+  }
+  const reportsDir = path.resolve(values.out as string);
+  const exportFormats = values.export as string[];
+  const unknownFormat = exportFormats.find(format => !EXPORT_FORMATS.includes(format as ExportFormat));
+  if (unknownFormat) {
+    throw new UsageError(`--export must be one of ${EXPORT_FORMATS.join(', ')}, not "${unknownFormat}"`);
+  }
+
+  const startedAt = new Date().toISOString();
+  let insightsProvider: InsightsProvider | null;
+  try {
+    insightsProvider = createInsightsProvider(config);
+  } catch (error) {
+    if (error instanceof InsightsError) {
+      throw new UsageError(error.message);
+    }
+    throw error;
+  }
+  const service = new LighthouseService(insightsProvider, true);
+  const results = await service.auditUrls(urls, config, reportsDir, (current, completed, total) => {
+    console.error(`[${completed}/${total} done] Auditing ${current}`);
+  });
+
+  printSummary(results, !!config.variants);
+  console.log(`Reports written to ${reportsDir}`);
+
+  let insights: BatchInsights | undefined;
+  if (service.insightsEnabled && results.some(result => result.scores)) {
+    try {
+      console.error('Generating AI insights...');
+      insights = await service.generateAIInsights(results, config.formFactor);
+      const insightsPath = path.join(reportsDir, `lighthouse-ai-insights-${config.formFactor}-${startedAt.replace(/[:.]/g, '-')}.json`);
+      await fs.writeFile(insightsPath, JSON.stringify(insights, null, 2));
+      console.log(`\n${insights.summary}\nAI insights written to ${insightsPath}`);
+    } catch (error) {
+      console.error(`AI insights failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (exportFormats.length > 0) {
+    // Exports are built from a session, so the run is described as one
+    const session: AuditSession = {
+      sessionId: `cli-${startedAt.replace(/[:.]/g, '-')}`,
+      status: 'completed',
+      config: sanitizeConfig(config),
+      urls,
+      results,
+      progress: results.length,
+      total: results.length,
+      createdAt: startedAt,
+      updatedAt: new Date().toISOString(),
+      insights
+    };
+    for (const format of exportFormats) {
+      const file = await exportSession(session, format as ExportFormat);
+      await fs.writeFile(path.join(reportsDir, file.fileName), file.body);
+      console.log(`Exported ${path.join(reportsDir, file.fileName)}`);
+    }
+  }
+
+  const failed = results.filter(result => result.error || result.budget?.passed === false);
+  return failed.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+      console.error(`Error: ${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error('Lighthouse checker failed:', error);
+    process.exit(1);
+  });
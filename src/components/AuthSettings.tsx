@@ -0,0 +1,106 @@
+import React from 'react';
+import { AuthConfig, LoginRecipe } from '@/types';
+
+interface Props {
+  value?: AuthConfig;
+  onChange: (auth: AuthConfig | undefined) => void;
+  disabled?: boolean;
+}
+
+type AuthMode = 'none' | 'login' | 'storageState';
+
+const EMPTY_RECIPE: LoginRecipe = {
+  url: '',
+  usernameSelector: '',
+  passwordSelector: '',
+  submitSelector: '',
+  usernameEnv: 'AUDIT_AUTH_USERNAME',
+  passwordEnv: 'AUDIT_AUTH_PASSWORD'
+};
+
+const RECIPE_FIELDS: Array<{ key: keyof LoginRecipe; label: string; placeholder: string; mono?: boolean }> = [
+  { key: 'url', label: 'Login page URL', placeholder: 'https://example.com/login' },
+  { key: 'usernameSelector', label: 'Username field', placeholder: '#email', mono: true },
+  { key: 'passwordSelector', label: 'Password field', placeholder: '#password', mono: true },
+  { key: 'submitSelector', label: 'Submit button', placeholder: 'button[type=submit]', mono: true },
+  { key: 'successSelector', label: 'Logged-in marker (optional)', placeholder: '[data-testid=account-menu]', mono: true },
+  { key: 'usernameEnv', label: 'Username env variable', placeholder: 'AUDIT_AUTH_USERNAME', mono: true },
+  { key: 'passwordEnv', label: 'Password env variable', placeholder: 'AUDIT_AUTH_PASSWORD', mono: true }
+];
+
+/**
+ * Login recipe or storage state file for auditing pages behind a login
+ */
+const AuthSettings: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const mode: AuthMode = value?.login ? 'login' : value?.storageState !== undefined ? 'storageState' : 'none';
+
+  const handleModeChange = (next: AuthMode) => {
+    if (next === 'login') onChange({ login: { ...EMPTY_RECIPE } });
+    else if (next === 'storageState') onChange({ storageState: '' });
+    else onChange(undefined);
+  };
+
+  const updateRecipe = (key: keyof LoginRecipe, fieldValue: string) => {
+    onChange({ login: { ...value!.login!, [key]: fieldValue || (key === 'successSelector' ? undefined : '') } });
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+        <span className="mr-2">🔑</span> Authentication (Optional)
+      </label>
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value as AuthMode)}
+        className="input"
+        disabled={disabled}
+      >
+        <option value="none">None (public pages)</option>
+        <option value="login">Scripted login</option>
+        <option value="storageState">Saved cookies / storage state file</option>
+      </select>
+
+      {mode === 'login' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {RECIPE_FIELDS.map(({ key, label, placeholder, mono }) => (
+            <div key={key}>
+              <label className="block text-xs text-gray-300 mb-1">{label}</label>
+              <input
+                type="text"
+                value={value?.login?.[key] || ''}
+                onChange={(e) => updateRecipe(key, e.target.value)}
+                placeholder={placeholder}
+                className={`input ${mono ? 'font-mono text-xs' : ''}`}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          <p className="md:col-span-2 text-xs text-gray-400">
+            Credentials are read on the server from the named environment variables, which must start with{' '}
+            <code className="text-accent-400">AUDIT_AUTH_</code>, and only used on the origins listed in each variable&apos;s{' '}
+            <code className="text-accent-400">_ORIGINS</code> companion. They are never sent from the browser or stored with the run.
+          </p>
+        </div>
+      )}
+
+      {mode === 'storageState' && (
+        <div className="mt-4">
+          <input
+            type="text"
+            value={value?.storageState || ''}
+            onChange={(e) => onChange({ storageState: e.target.value })}
+            placeholder="staging-admin.json"
+            className="input font-mono text-xs"
+            disabled={disabled}
+          />
+          <p className="mt-2 text-xs text-gray-400">
+            A Playwright-style storage state JSON (cookies and localStorage) in the server&apos;s{' '}
+            <code className="text-accent-400">auth/</code> directory.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuthSettings;
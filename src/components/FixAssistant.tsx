@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Wand2 } from 'lucide-react';
+import InsightSettings from '@/components/InsightSettings';
+import { INSIGHTS_PROVIDERS } from '@/lib/insights';
+import { formatBytes, formatDuration } from '@/lib/utils';
+import { FixRequest, FixSuggestions, InsightsSettings } from '@/types';
+
+interface Props {
+  report: string;
+}
+
+/**
+ * AI code suggestions for a report's flagged audits, largest savings first
+ */
+const FixAssistant: React.FC<Props> = ({ report }) => {
+  const [fixes, setFixes] = useState<FixSuggestions | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [insights, setInsights] = useState<InsightsSettings | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the suggestions saved by an earlier run, if any
+  useEffect(() => {
+    setFixes(null);
+    fetch(`/api/fixes?report=${encodeURIComponent(report)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setFixes(data))
+      .catch(() => undefined);
+  }, [report]);
+
+  const suggest = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const body: FixRequest = { report, apiKey: apiKey.trim() || undefined, insights };
+      const response = await fetch('/api/fixes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to suggest fixes');
+      setFixes(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest fixes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-400">
+        Sends the flagged audits of this report (titles, savings and the elements and resources behind them) to the chosen
+        model and asks for code changes.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+        <div className="md:col-span-2">
+          <InsightSettings value={insights} onChange={setInsights} disabled={loading} />
+        </div>
+        <div className="mb-6">
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={insights?.provider === 'anthropic' ? 'sk-ant-...' : 'AI API key (sk-...)'}
+            className="input"
+            disabled={loading}
+          />
+        </div>
+      </div>
+
+      <button onClick={suggest} className="btn-primary" disabled={loading}>
+        <Wand2 className="w-4 h-4 mr-2" />
+        {loading ? 'Asking for fixes…' : fixes ? 'Suggest fixes again' : 'Suggest fixes'}
+      </button>
+
+      {error && (
+        <div className="status-error bg-red-900/30 border border-red-800 rounded-md p-3 text-sm">
+          Error: {error}
+        </div>
+      )}
+
+      {fixes && (
+        <div className="space-y-4">
+          <p className="text-xs text-gray-400">
+            {INSIGHTS_PROVIDERS[fixes.provider]?.label || fixes.provider} · {fixes.model} · {new Date(fixes.generatedAt).toLocaleString()}
+            {fixes.stack.length > 0 && ` · ${fixes.stack.join(', ')}`}
+          </p>
+          {fixes.suggestions.length === 0 && (
+            <p className="text-sm text-gray-400">Nothing to fix: no audit with savings or flagged items.</p>
+          )}
+          {fixes.suggestions.map(suggestion => (
+            <div key={suggestion.auditId} className="p-4 bg-navy-900 rounded-md border border-navy-700 space-y-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-semibold text-gray-100 mr-2">{suggestion.title}</h3>
+                {suggestion.savingsMs ? (
+                  <span className="text-xs bg-accent-500/20 text-accent-400 px-2 py-0.5 rounded-full">
+                    −{formatDuration(suggestion.savingsMs)}
+                  </span>
+                ) : null}
+                {suggestion.savingsBytes ? (
+                  <span className="text-xs bg-accent-500/20 text-accent-400 px-2 py-0.5 rounded-full">
+                    −{formatBytes(suggestion.savingsBytes, 1)}
+                  </span>
+                ) : null}
+              </div>
+              <p className="text-gray-300">{suggestion.explanation}</p>
+              {suggestion.snippets.map((snippet, index) => (
+                <div key={index}>
+                  <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                    <span className="font-mono">{snippet.file ? `${snippet.file} · ` : ''}{snippet.language}</span>
+                    <button
+                      onClick={() => navigator.clipboard?.writeText(snippet.code)}
+                      className="link-primary inline-flex items-center"
+                      title="Copy to clipboard"
+                    >
+                      <Copy className="w-3 h-3 mr-1" />
+                      Copy
+                    </button>
+                  </div>
+                  <pre className="p-3 bg-navy-950 rounded border border-navy-700 text-xs text-gray-200 font-mono overflow-x-auto">
+                    <code>{snippet.code}</code>
+                  </pre>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FixAssistant;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Download, AlertCircle } from 'lucide-react';
+import { FlowAuditResult, FlowStepSummary, ScoreCategory } from '@/types';
+
+interface Props {
+  results: FlowAuditResult[];
+}
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  performance: 'Perf',
+  accessibility: 'A11y',
+  'best-practices': 'BP',
+  seo: 'SEO'
+};
+
+const GATHER_MODE_LABELS: Record<FlowStepSummary['gatherMode'], string> = {
+  navigation: 'Navigation',
+  timespan: 'Timespan',
+  snapshot: 'Snapshot'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return 'text-green-400';
+  if (score >= 50) return 'text-accent-400';
+  return 'text-red-400';
+};
+
+/**
+ * Per-step scores of each user flow, with links to the flow reports
+ */
+const FlowResultsPanel: React.FC<Props> = ({ results }) => {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="card p-0 overflow-hidden mt-8">
+      <div className="card-header p-6">
+        <h2 className="text-xl font-semibold text-gray-100 flex items-center">
+          <span className="text-accent-400 mr-3">🧭</span>
+          User Flows
+          <span className="ml-3 text-sm bg-accent-500/20 text-accent-400 px-2 py-1 rounded-full">
+            {results.length} flows
+          </span>
+        </h2>
+      </div>
+
+      <div className="divide-y divide-navy-700">
+        {results.map(flow => (
+          <div key={flow.name} className="p-6">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-base font-semibold text-gray-100">
+                {flow.name}
+                {flow.profile && <span className="ml-2 text-xs font-normal text-gray-400">📶 {flow.profile}</span>}
+              </h3>
+              {flow.reportPaths && (
+                <div className="flex space-x-2">
+                  <a href={flow.reportPaths.html} target="_blank" rel="noopener noreferrer" className="badge-download">
+                    <Download className="w-4 h-4 mr-2" />
+                    HTML
+                  </a>
+                  <a href={flow.reportPaths.json} download className="badge-download">
+                    <Download className="w-4 h-4 mr-2" />
+                    JSON
+                  </a>
+                </div>
+              )}
+            </div>
+
+            {flow.error ? (
+              <p className="text-sm status-error flex items-center">
+                <AlertCircle className="w-4 h-4 mr-2" />
+                {flow.error}
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-navy-700 text-sm">
+                <thead className="table-header">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Step</th>
+                    <th className="px-4 py-2 text-left">Mode</th>
+                    {(Object.keys(CATEGORY_LABELS) as ScoreCategory[]).map(category => (
+                      <th key={category} className="px-4 py-2 text-center">{CATEGORY_LABELS[category]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-navy-700">
+                  {flow.steps?.map((step, index) => (
+                    <tr key={index} className="table-row">
+                      <td className="px-4 py-2 text-gray-200">{step.name}</td>
+                      <td className="px-4 py-2">
+                        <span className="text-xs bg-navy-700 text-gray-300 px-2 py-1 rounded-full">
+                          {GATHER_MODE_LABELS[step.gatherMode]}
+                        </span>
+                      </td>
+                      {(Object.keys(CATEGORY_LABELS) as ScoreCategory[]).map(category => {
+                        const score = step.scores[category];
+                        return (
+                          <td key={category} className="px-4 py-2 text-center">
+                            {/* Timespan and snapshot steps only score some categories */}
+                            {score === undefined ? (
+                              <span className="text-gray-500">—</span>
+                            ) : (
+                              <span className={`font-semibold ${getScoreColor(score)}`}>{score}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FlowResultsPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { DEFAULT_TEMPERATURE, INSIGHTS_PROVIDERS } from '@/lib/insights';
+import { InsightsProviderName, InsightsSettings } from '@/types';
+
+interface Props {
+  // Undefined uses OpenAI when an API key is entered
+  value?: InsightsSettings;
+  onChange: (settings: InsightsSettings | undefined) => void;
+  disabled?: boolean;
+}
+
+const MODEL_HINTS: Partial<Record<InsightsProviderName, string>> = {
+  azure: 'Deployment name (default: server setting)',
+  'openai-compatible': 'e.g. llama3.1 (default: server setting)'
+};
+
+/**
+ * Provider, model and temperature used for a session's AI insights
+ */
+const InsightSettings: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const provider = value ? INSIGHTS_PROVIDERS[value.provider] : null;
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+        <span className="mr-2">🧠</span> AI Insights Model
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={value?.provider || ''}
+          onChange={(e) => onChange(e.target.value
+            ? { provider: e.target.value as InsightsProviderName, temperature: value?.temperature }
+            : undefined)}
+          className="input"
+          disabled={disabled}
+        >
+          <option value="">OpenAI when an API key is entered</option>
+          {/* The fake provider is for tests and is picked through the API or CLI */}
+          {(Object.keys(INSIGHTS_PROVIDERS) as InsightsProviderName[]).filter(name => name !== 'fake').map(name => (
+            <option key={name} value={name}>{INSIGHTS_PROVIDERS[name].label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value?.model || ''}
+          onChange={(e) => value && onChange({ ...value, model: e.target.value || undefined })}
+          placeholder={value
+            ? MODEL_HINTS[value.provider] || `Model (default: ${provider?.defaultModel})`
+            : `Model (default: ${INSIGHTS_PROVIDERS.openai.defaultModel})`}
+          className="input"
+          disabled={disabled || !value}
+        />
+        <input
+          type="number"
+          min={0}
+          max={provider?.maxTemperature ?? INSIGHTS_PROVIDERS.openai.maxTemperature}
+          step={0.1}
+          value={value?.temperature ?? ''}
+          onChange={(e) => value && onChange({ ...value, temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+          placeholder={`Temperature (default: ${DEFAULT_TEMPERATURE})`}
+          className="input"
+          disabled={disabled || !value}
+        />
+      </div>
+      {value && value.provider !== 'openai' && value.provider !== 'fake' && (
+        <p className="text-xs text-gray-400 mt-2">
+          The API key field is sent to {provider?.label}; the key configured on the server is only used when the server allows it.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InsightSettings;
@@ -1,81 +1,226 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Plus, Play, Download, AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Plus, Play, Pause, Square, Download, AlertCircle, CheckCircle, History, LineChart, ChevronDown, ChevronRight, FileSearch, CalendarClock, Bell, Sparkles } from 'lucide-react';
+import AuthSettings from '@/components/AuthSettings';
+import FlowResultsPanel from '@/components/FlowResultsPanel';
+import InsightSettings from '@/components/InsightSettings';
+import MetricGrid from '@/components/MetricGrid';
+import ProfileSettings from '@/components/ProfileSettings';
+import RequestSettings from '@/components/RequestSettings';
+import RunComparisonPanel from '@/components/RunComparisonPanel';
+import UrlDiscovery from '@/components/UrlDiscovery';
+import UrlImport from '@/components/UrlImport';
+import UrlInsightsPanel from '@/components/UrlInsightsPanel';
+import VariantComparison from '@/components/VariantComparison';
 import { parseUrlsFromText } from '@/lib/utils';
-import { ProcessingStatus, AuditResult, LighthouseConfig } from '@/types';
+import { describeBudgetFailure, parseBudgets } from '@/lib/budgets';
+import { parseUserFlows } from '@/lib/flows';
+import { compactOverrides } from '@/lib/imports';
+import { findUrlInsights, INSIGHTS_PROVIDERS } from '@/lib/insights';
+import { compactRequestConfig } from '@/lib/requests';
+import {
+  ProcessingStatus,
+  AuditControlAction,
+  AuditLogEntry,
+  AuditResult,
+  AuthConfig,
+  AuditSessionSummary,
+  BudgetCheck,
+  EmulationProfile,
+  ExportFormat,
+  FlowAuditResult,
+  InsightsSettings,
+  LighthouseConfig,
+  PerformanceBudget,
+  RequestCustomization,
+  ScoreCategory,
+  ScoreSpread,
+  UrlOverride,
+  UserFlowDefinition
+} from '@/types';
+
+const BUDGET_PLACEHOLDER = `# JSON or YAML
+- path: "**"
+  scores: { performance: 80, accessibility: 90 }
+- path: "/checkout/**"
+  metrics: { lcp: 2500, tbt: 200, cls: 0.1, totalByteWeight: 1600000 }`;
+
+const FLOW_PLACEHOLDER = `# JSON or YAML
+- name: Search and open product
+  steps:
+    - type: navigation
+      url: https://example.com
+    - type: timespan
+      name: Search
+      actions:
+        - { action: type, selector: "#search", text: shoes }
+        - { action: press, key: Enter }
+        - { action: waitForSelector, selector: .results }
+    - type: snapshot
+      name: Results`;
+
+const EXPORTS: Array<{ format: ExportFormat; label: string; title: string }> = [
+  { format: 'csv', label: 'CSV', title: 'Scores and metrics as CSV' },
+  { format: 'xlsx', label: 'XLSX', title: 'Scores and metrics as an Excel workbook' },
+  { format: 'json', label: 'JSON', title: 'Machine-readable bundle of the session' },
+  { format: 'html', label: 'HTML', title: 'Self-contained summary with charts' },
+  { format: 'pdf', label: 'PDF', title: 'Summary with charts as a PDF' }
+];
+
+// Rows of a variant session share URLs, so expanded state is keyed by URL and profile
+const rowKey = (result: AuditResult) => `${result.url}\n${result.profile || ''}`;
 
 interface Props {
   onRunAudit: (urls: string[], config: LighthouseConfig) => Promise<void>;
   processingStatus: ProcessingStatus;
   results: AuditResult[];
+  flowResults: FlowAuditResult[];
+  recentSessions: AuditSessionSummary[];
+  activeSessionId?: string;
+  onLoadSession: (sessionId: string) => Promise<void>;
+  onControlSession: (
+    action: AuditControlAction,
+    secrets?: Pick<LighthouseConfig, 'apiKey' | 'bypassToken'>
+  ) => Promise<void>;
 }
 
-const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, results }) => {
+const LighthouseDashboard: React.FC<Props> = ({
+  onRunAudit,
+  processingStatus,
+  results,
+  flowResults,
+  recentSessions,
+  activeSessionId,
+  onLoadSession,
+  onControlSession
+}) => {
   // Form state
   const [urlInput, setUrlInput] = useState('');
-  const [csvFile, setCsvFile] = useState<File | null>(null);
   const [apiKey, setApiKey] = useState('');
+  const [insights, setInsights] = useState<InsightsSettings | undefined>(undefined);
   const [bypassToken, setBypassToken] = useState('');
   const [formFactor, setFormFactor] = useState<'desktop' | 'mobile'>('desktop');
-  const [inputMethod, setInputMethod] = useState<'text' | 'file'>('text');
-
-  // File upload handler
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      setCsvFile(file);
-      setInputMethod('file');
-    } else {
-      alert('Please select a valid CSV file');
+  const [profile, setProfile] = useState<EmulationProfile | undefined>();
+  const [compareWith, setCompareWith] = useState<EmulationProfile[]>([]);
+  const [inputMethod, setInputMethod] = useState<'text' | 'file' | 'discover'>('text');
+  const [discoveredUrls, setDiscoveredUrls] = useState<string[]>([]);
+  const [importedTargets, setImportedTargets] = useState<UrlOverride[]>([]);
+  const [budgetText, setBudgetText] = useState('');
+  const [flowText, setFlowText] = useState('');
+  const [auth, setAuth] = useState<AuthConfig | undefined>();
+  const [request, setRequest] = useState<RequestCustomization>({});
+  const [concurrency, setConcurrency] = useState('');
+  const [runs, setRuns] = useState('1');
+  const [pendingAction, setPendingAction] = useState<AuditControlAction | null>(null);
+  const [expandedRows, setExpandedRows] = useState<Record<string, boolean>>({});
+
+  // Parse budgets as the user types so errors show before the run starts
+  const budgetParse = useMemo((): { budgets: PerformanceBudget[]; error?: string } => {
+    try {
+      return { budgets: parseBudgets(budgetText) };
+    } catch (error) {
+      return { budgets: [], error: error instanceof Error ? error.message : 'Invalid budgets' };
     }
-  }, []);
+  }, [budgetText]);
+
+  const flowParse = useMemo((): { flows: UserFlowDefinition[]; error?: string } => {
+    try {
+      return { flows: parseUserFlows(flowText) };
+    } catch (error) {
+      return { flows: [], error: error instanceof Error ? error.message : 'Invalid user flows' };
+    }
+  }, [flowText]);
 
   // Parse URLs from current input method
   const getUrls = useCallback((): string[] => {
     if (inputMethod === 'text') {
       return parseUrlsFromText(urlInput);
     }
-    // For file input, we'll handle this in the API
-    return [];
-  }, [inputMethod, urlInput]);
+    if (inputMethod === 'discover') {
+      return discoveredUrls;
+    }
+    return importedTargets.map(target => target.url);
+  }, [inputMethod, urlInput, discoveredUrls, importedTargets]);
 
   // Run audit handler
   const handleRunAudit = useCallback(async () => {
     const config: LighthouseConfig = {
       apiKey: apiKey.trim() || undefined,
       bypassToken: bypassToken.trim() || undefined,
-      formFactor
+      formFactor: profile?.formFactor || formFactor,
+      insights,
+      profile,
+      // The baseline variant comes first; the server fills in its default profile
+      variants: compareWith.length > 0
+        ? [
+            { formFactor: profile?.formFactor || formFactor, profile },
+            ...compareWith.map(extra => ({ formFactor: extra.formFactor, profile: extra }))
+          ]
+        : undefined,
+      budgets: budgetParse.budgets.length > 0 ? budgetParse.budgets : undefined,
+      concurrency: concurrency ? parseInt(concurrency, 10) : undefined,
+      runs: parseInt(runs, 10),
+      auth,
+      request: compactRequestConfig(request),
+      flows: flowParse.flows.length > 0 ? flowParse.flows : undefined,
+      // Per-row form factors, labels and budgets from an imported file
+      overrides: inputMethod === 'file' ? compactOverrides(importedTargets) : undefined
     };
 
-    if (inputMethod === 'text') {
-      const urls = getUrls();
-      if (urls.length === 0) {
-        alert('Please enter at least one valid URL');
-        return;
-      }
-      await onRunAudit(urls, config);
-    } else if (csvFile) {
-      // Handle CSV file upload
-      const formData = new FormData();
-      formData.append('csv', csvFile);
-      formData.append('config', JSON.stringify(config));
-      
-      try {
-        const response = await fetch('/api/upload-csv', {
-          method: 'POST',
-          body: formData
-        });
-        
-        if (response.ok) {
-          const { urls } = await response.json();
-          await onRunAudit(urls, config);
-        } else {
-          alert('Failed to process CSV file');
-        }
-      } catch (error) {
-        alert('Error uploading CSV file');
-      }
+    const urls = getUrls();
+    // User flows bring their own URLs, so a flows-only run is allowed
+    if (urls.length === 0 && !config.flows) {
+      alert('Please enter at least one valid URL');
+      return;
     }
-  }, [inputMethod, csvFile, urlInput, apiKey, bypassToken, formFactor, getUrls, onRunAudit]);
+    await onRunAudit(urls, config);
+  }, [inputMethod, importedTargets, apiKey, insights, bypassToken, formFactor, profile, compareWith, budgetParse, flowParse, concurrency, runs, auth, request, getUrls, onRunAudit]);
+
+  /**
+   * Cancel, pause or resume the active session
+   */
+  const handleControl = useCallback(async (action: AuditControlAction) => {
+    setPendingAction(action);
+    try {
+      // Re-send secrets on resume in case the server was restarted while paused
+      await onControlSession(action, action === 'resume' ? {
+        apiKey: apiKey.trim() || undefined,
+        bypassToken: bypassToken.trim() || undefined
+      } : undefined);
+    } catch (error) {
+      setPendingAction(null);
+      alert(error instanceof Error ? error.message : `Failed to ${action} audit`);
+    }
+  }, [apiKey, bypassToken, onControlSession]);
+
+  // Insights are matched to rows once per update rather than on every render
+  const resultInsights = useMemo(
+    () => results.map(result => findUrlInsights(processingStatus.insights, result)),
+    [results, processingStatus.insights]
+  );
+  const detailsLabel = processingStatus.insights ? 'Metrics & Insights' : 'Metrics';
+
+  const allRowsExpanded = results.length > 0 &&
+    results.every((result, index) => (!result.metrics && !resultInsights[index]) || expandedRows[rowKey(result)]);
+
+  const toggleRow = useCallback((url: string) => {
+    setExpandedRows(previous => ({ ...previous, [url]: !previous[url] }));
+  }, []);
+
+  const toggleAllRows = useCallback(() => {
+    const expanded: Record<string, boolean> = {};
+    if (!allRowsExpanded) {
+      results.forEach(result => {
+        expanded[rowKey(result)] = true;
+      });
+    }
+    setExpandedRows(expanded);
+  }, [allRowsExpanded, results]);
+
+  // A pause or cancel is only done once the server reports the new status
+  useEffect(() => {
+    setPendingAction(null);
+  }, [processingStatus.status]);
 
   return (
     <div className="min-h-screen bg-navy-950 py-8">
@@ -88,6 +233,18 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
           <p className="text-lg text-gray-300 max-w-3xl mx-auto">
             Run performance audits on multiple URLs with AI-powered insights
           </p>
+          <Link href="/history" className="link-primary inline-flex items-center text-sm mt-3">
+            <LineChart className="w-4 h-4 mr-1" />
+            Score history
+          </Link>
+          <Link href="/schedules" className="link-primary inline-flex items-center text-sm mt-3 ml-4">
+            <CalendarClock className="w-4 h-4 mr-1" />
+            Schedules
+          </Link>
+          <Link href="/webhooks" className="link-primary inline-flex items-center text-sm mt-3 ml-4">
+            <Bell className="w-4 h-4 mr-1" />
+            Notifications
+          </Link>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -112,7 +269,7 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                       type="radio"
                       value="text"
                       checked={inputMethod === 'text'}
-                      onChange={(e) => setInputMethod(e.target.value as 'text' | 'file')}
+                      onChange={(e) => setInputMethod(e.target.value as typeof inputMethod)}
                       className="mr-3 w-4 h-4 text-accent-500 bg-navy-800 border-navy-600 focus:ring-accent-500 focus:ring-2"
                     />
                     <span className="text-gray-300 group-hover:text-accent-400 transition-colors">📝 Paste URLs</span>
@@ -122,10 +279,20 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                       type="radio"
                       value="file"
                       checked={inputMethod === 'file'}
-                      onChange={(e) => setInputMethod(e.target.value as 'text' | 'file')}
+                      onChange={(e) => setInputMethod(e.target.value as typeof inputMethod)}
                       className="mr-3 w-4 h-4 text-accent-500 bg-navy-800 border-navy-600 focus:ring-accent-500 focus:ring-2"
                     />
-                    <span className="text-gray-300 group-hover:text-accent-400 transition-colors">📊 Upload CSV</span>
+                    <span className="text-gray-300 group-hover:text-accent-400 transition-colors">📊 Upload file</span>
+                  </label>
+                  <label className="flex items-center cursor-pointer group">
+                    <input
+                      type="radio"
+                      value="discover"
+                      checked={inputMethod === 'discover'}
+                      onChange={(e) => setInputMethod(e.target.value as typeof inputMethod)}
+                      className="mr-3 w-4 h-4 text-accent-500 bg-navy-800 border-navy-600 focus:ring-accent-500 focus:ring-2"
+                    />
+                    <span className="text-gray-300 group-hover:text-accent-400 transition-colors">🗺️ Sitemap or crawl</span>
                   </label>
                 </div>
               </div>
@@ -150,42 +317,23 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                 </div>
               )}
 
-              {/* File Upload */}
-              {inputMethod === 'file' && (
-                <div className="mb-6">
-                  <label className="block text-sm font-medium text-gray-200 mb-2">
-                    CSV File
-                  </label>
-                  <div className="mt-1 flex justify-center px-6 pt-8 pb-8 border-2 border-navy-600 border-dashed rounded-lg bg-navy-800/50 hover:border-accent-500 transition-colors duration-200">
-                    <div className="space-y-2 text-center">
-                      <Upload className="mx-auto h-16 w-16 text-accent-400" />
-                      <div className="flex text-sm text-gray-300">
-                        <label htmlFor="file-upload" className="relative cursor-pointer bg-navy-700 px-3 py-1 rounded-md font-medium text-accent-400 hover:text-accent-300 hover:bg-navy-600 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-accent-500 focus-within:ring-offset-navy-800 transition-colors">
-                          <span>📁 Upload a CSV file</span>
-                          <input
-                            id="file-upload"
-                            type="file"
-                            accept=".csv"
-                            className="sr-only"
-                            onChange={handleFileUpload}
-                            disabled={processingStatus.status === 'processing'}
-                          />
-                        </label>
-                        <p className="pl-2">or drag and drop</p>
-                      </div>
-                      <p className="text-xs text-gray-400">CSV files only</p>
-                    </div>
-                  </div>
-                  {csvFile && (
-                    <div className="mt-3 p-3 bg-navy-800 rounded-md border border-accent-500/30">
-                      <p className="text-sm text-accent-400 flex items-center">
-                        <CheckCircle className="w-4 h-4 mr-2" />
-                        <span className="font-medium">{csvFile.name}</span> selected
-                      </p>
-                    </div>
-                  )}
-                </div>
-              )}
+              {/* Sitemap / crawl discovery; kept mounted so switching methods keeps the results */}
+              <div className={inputMethod === 'discover' ? '' : 'hidden'}>
+                <UrlDiscovery
+                  bypassToken={bypassToken.trim() || undefined}
+                  request={compactRequestConfig(request)}
+                  onChange={setDiscoveredUrls}
+                  disabled={processingStatus.status === 'processing'}
+                />
+              </div>
+
+              {/* File import; kept mounted so switching methods keeps the mapping */}
+              <div className={inputMethod === 'file' ? '' : 'hidden'}>
+                <UrlImport
+                  onChange={setImportedTargets}
+                  disabled={processingStatus.status === 'processing'}
+                />
+              </div>
 
               {/* Configuration */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
@@ -194,10 +342,11 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                     <span className="mr-2">📱</span> Form Factor
                   </label>
                   <select
-                    value={formFactor}
+                    value={profile?.formFactor || formFactor}
                     onChange={(e) => setFormFactor(e.target.value as 'desktop' | 'mobile')}
                     className="input"
-                    disabled={processingStatus.status === 'processing'}
+                    disabled={processingStatus.status === 'processing' || !!profile}
+                    title={profile ? 'Set by the selected profile' : undefined}
                   >
                     <option value="desktop">🖥️ Desktop</option>
                     <option value="mobile">📱 Mobile</option>
@@ -205,38 +354,145 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
-                    <span className="mr-2">🤖</span> OpenAI API Key (Optional)
+                    <span className="mr-2">🤖</span> AI API Key (Optional)
                   </label>
                   <input
                     type="password"
                     value={apiKey}
                     onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="sk-..."
+                    placeholder={insights?.provider === 'anthropic' ? 'sk-ant-...' : 'sk-...'}
+                    className="input"
+                    disabled={processingStatus.status === 'processing'}
+                  />
+                </div>
+              </div>
+
+              <InsightSettings
+                value={insights}
+                onChange={setInsights}
+                disabled={processingStatus.status === 'processing'}
+              />
+
+              <ProfileSettings
+                value={profile}
+                onChange={setProfile}
+                formFactor={formFactor}
+                compareWith={compareWith}
+                onCompareChange={setCompareWith}
+                disabled={processingStatus.status === 'processing'}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+                    <span className="mr-2">🔑</span> Vercel Bypass Token (Optional)
+                  </label>
+                  <input
+                    type="password"
+                    value={bypassToken}
+                    onChange={(e) => setBypassToken(e.target.value)}
+                    placeholder="Your bypass token"
                     className="input"
                     disabled={processingStatus.status === 'processing'}
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+                    <span className="mr-2">⚡</span> Parallel Audits
+                  </label>
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(e.target.value)}
+                    className="input"
+                    disabled={processingStatus.status === 'processing'}
+                  >
+                    <option value="">Auto (based on server CPUs)</option>
+                    {[1, 2, 3, 4, 6, 8].map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
-                  <span className="mr-2">🔑</span> Vercel Bypass Token (Optional)
+                  <span className="mr-2">🔁</span> Runs per URL
                 </label>
-                <input
-                  type="password"
-                  value={bypassToken}
-                  onChange={(e) => setBypassToken(e.target.value)}
-                  placeholder="Your bypass token"
+                <select
+                  value={runs}
+                  onChange={(e) => setRuns(e.target.value)}
                   className="input"
                   disabled={processingStatus.status === 'processing'}
+                >
+                  <option value="1">1 (fastest)</option>
+                  <option value="3">3 (median of 3)</option>
+                  <option value="5">5 (median of 5, most stable)</option>
+                </select>
+              </div>
+
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+                  <span className="mr-2">🎯</span> Performance Budgets (Optional)
+                </label>
+                <textarea
+                  value={budgetText}
+                  onChange={(e) => setBudgetText(e.target.value)}
+                  placeholder={BUDGET_PLACEHOLDER}
+                  className="input h-32 resize-y font-mono text-xs"
+                  disabled={processingStatus.status === 'processing'}
                 />
+                {budgetParse.error ? (
+                  <p className="mt-2 text-sm text-red-400 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    {budgetParse.error}
+                  </p>
+                ) : budgetParse.budgets.length > 0 && (
+                  <p className="mt-2 text-sm text-gray-400">
+                    <span className="text-accent-400 font-semibold">{budgetParse.budgets.length}</span> budget(s) will be checked
+                  </p>
+                )}
               </div>
 
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+                  <span className="mr-2">🧭</span> User Flows (Optional)
+                </label>
+                <textarea
+                  value={flowText}
+                  onChange={(e) => setFlowText(e.target.value)}
+                  placeholder={FLOW_PLACEHOLDER}
+                  className="input h-32 resize-y font-mono text-xs"
+                  disabled={processingStatus.status === 'processing'}
+                />
+                {flowParse.error ? (
+                  <p className="mt-2 text-sm text-red-400 flex items-center">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    {flowParse.error}
+                  </p>
+                ) : flowParse.flows.length > 0 && (
+                  <p className="mt-2 text-sm text-gray-400">
+                    <span className="text-accent-400 font-semibold">{flowParse.flows.length}</span> user flow(s) will run after the URLs
+                  </p>
+                )}
+              </div>
+
+              <RequestSettings
+                value={request}
+                onChange={setRequest}
+                disabled={processingStatus.status === 'processing'}
+              />
+
+              <AuthSettings
+                value={auth}
+                onChange={setAuth}
+                disabled={processingStatus.status === 'processing'}
+              />
+
               {/* Run Button */}
               <div className="flex justify-center md:justify-start">
                 <button
                   onClick={handleRunAudit}
-                  disabled={processingStatus.status === 'processing' || (inputMethod === 'text' && getUrls().length === 0) || (inputMethod === 'file' && !csvFile)}
+                  disabled={processingStatus.status === 'processing' || !!budgetParse.error || !!flowParse.error || (getUrls().length === 0 && flowParse.flows.length === 0)}
                   className="btn-primary px-8 py-3 text-base w-full md:w-auto disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {processingStatus.status === 'processing' ? (
@@ -278,7 +534,18 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-accent-400 mr-3"></div>
                     <span className="font-medium">Processing...</span>
                   </div>
-                  {processingStatus.currentUrl && (
+                  {processingStatus.activeUrls && processingStatus.activeUrls.length > 0 ? (
+                    <div className="p-3 bg-navy-800 rounded-md border border-navy-600">
+                      <p className="text-sm text-gray-300 mb-1">
+                        {processingStatus.activeUrls.length > 1 ? `Auditing ${processingStatus.activeUrls.length} URLs:` : 'Current URL:'}
+                      </p>
+                      {processingStatus.activeUrls.map(url => (
+                        <p key={url} className="text-xs text-accent-400 font-mono break-all">
+                          {url}
+                        </p>
+                      ))}
+                    </div>
+                  ) : processingStatus.currentUrl && (
                     <div className="p-3 bg-navy-800 rounded-md border border-navy-600">
                       <p className="text-sm text-gray-300 mb-1">Current URL:</p>
                       <p className="text-xs text-accent-400 font-mono break-all">
@@ -300,9 +567,69 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                       </div>
                     </div>
                   )}
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleControl('pause')}
+                      disabled={pendingAction !== null}
+                      className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Pause className="w-4 h-4 mr-2" />
+                      {pendingAction === 'pause' ? 'Pausing...' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => handleControl('cancel')}
+                      disabled={pendingAction === 'cancel'}
+                      className="btn-danger flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      {pendingAction === 'cancel' ? 'Cancelling...' : 'Cancel'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {processingStatus.status === 'paused' && (
+                <div className="space-y-4">
+                  <div className="flex items-center status-processing">
+                    <Pause className="w-5 h-5 mr-3" />
+                    <span className="font-medium">
+                      Paused after {processingStatus.progress ?? 0} of {processingStatus.totalUrls ?? 0} URLs
+                    </span>
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleControl('resume')}
+                      disabled={pendingAction !== null}
+                      className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      {pendingAction === 'resume' ? 'Resuming...' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleControl('cancel')}
+                      disabled={pendingAction !== null}
+                      className="btn-danger flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {processingStatus.status === 'cancelled' && (
+                <div className="flex items-center status-error">
+                  <Square className="w-5 h-5 mr-3" />
+                  <span className="font-medium">
+                    Cancelled after {processingStatus.progress ?? 0} of {processingStatus.totalUrls ?? 0} URLs
+                  </span>
                 </div>
               )}
               
+              {processingStatus.log && processingStatus.log.length > 0 && (
+                <LiveLog entries={processingStatus.log} />
+              )}
+
               {processingStatus.status === 'completed' && (
                 <div className="space-y-4">
                   <div className="flex items-center status-success">
@@ -331,6 +658,45 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                 </div>
               )}
             </div>
+
+            {/* Recent Runs */}
+            {recentSessions.length > 0 && (
+              <div className="card p-6 mt-6">
+                <div className="card-header -m-6 mb-6 p-6">
+                  <h3 className="text-lg font-semibold text-gray-100 flex items-center">
+                    <History className="w-5 h-5 text-accent-400 mr-2" />
+                    Recent Runs
+                  </h3>
+                </div>
+                <ul className="space-y-2">
+                  {recentSessions.map((session) => (
+                    <li key={session.sessionId}>
+                      <button
+                        onClick={() => onLoadSession(session.sessionId)}
+                        disabled={processingStatus.status === 'processing'}
+                        className={`w-full text-left p-3 rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          session.sessionId === activeSessionId
+                            ? 'bg-navy-700 border-accent-500/50'
+                            : 'bg-navy-800 border-navy-600 hover:border-accent-500/50'
+                        }`}
+                      >
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-200">
+                            {new Date(session.createdAt).toLocaleString()}
+                          </span>
+                          <SessionStatusLabel status={session.status} />
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {session.formFactor === 'mobile' ? '📱 Mobile' : '🖥️ Desktop'} · {session.completed}/{session.total} audited
+                          {session.failed > 0 && <span className="text-red-400"> · {session.failed} failed</span>}
+                          {session.schedule && <span> · ⏰ {session.schedule.name}</span>}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
 
@@ -347,18 +713,57 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                       {results.length} URLs
                     </span>
                   </h2>
-                  {processingStatus.insightsFile && (
-                    <a
-                      href={processingStatus.insightsFile}
-                      download
-                      className="inline-flex items-center px-4 py-2 bg-accent-500 text-navy-900 text-sm font-semibold rounded-md hover:bg-accent-400 transition-colors shadow-lg"
-                    >
-                      <Download className="w-4 h-4 mr-2" />
-                      Download AI Insights
-                    </a>
-                  )}
+                  <div className="flex items-center space-x-3">
+                    {(results.some(result => result.metrics) || processingStatus.insights) && (
+                      <button
+                        onClick={toggleAllRows}
+                        className="btn-secondary"
+                      >
+                        {allRowsExpanded ? `Hide ${detailsLabel}` : `Show All ${detailsLabel}`}
+                      </button>
+                    )}
+                    {activeSessionId && (
+                      <div className="flex items-center text-sm" title="Export all results">
+                        <Download className="w-4 h-4 mr-2 text-gray-400" />
+                        {EXPORTS.map(item => (
+                          <a
+                            key={item.format}
+                            href={`/api/export?sessionId=${encodeURIComponent(activeSessionId)}&format=${item.format}`}
+                            download
+                            className="px-2 py-1 text-accent-400 hover:text-accent-300 hover:bg-navy-700 rounded transition-colors"
+                            title={item.title}
+                          >
+                            {item.label}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {processingStatus.insightsFile && (
+                      <a
+                        href={processingStatus.insightsFile}
+                        download
+                        className="inline-flex items-center px-4 py-2 bg-accent-500 text-navy-900 text-sm font-semibold rounded-md hover:bg-accent-400 transition-colors shadow-lg"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Download AI Insights
+                      </a>
+                    )}
+                  </div>
                 </div>
               </div>
+
+              {processingStatus.insights && (
+                <div className="px-6 py-4 border-b border-navy-700 bg-navy-800/50">
+                  <p className="text-xs font-semibold text-gray-300 uppercase tracking-wider flex items-center mb-2">
+                    <Sparkles className="w-4 h-4 mr-2 text-accent-400" />
+                    AI Summary
+                  </p>
+                  <p className="text-sm text-gray-200">{processingStatus.insights.summary}</p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {INSIGHTS_PROVIDERS[processingStatus.insights.provider]?.label || processingStatus.insights.provider} · {processingStatus.insights.model} · {new Date(processingStatus.insights.generatedAt).toLocaleString()}
+                  </p>
+                </div>
+              )}
               
               <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-navy-700">
@@ -386,57 +791,113 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
                   </thead>
                   <tbody className="divide-y divide-navy-700">
                     {results.map((result, index) => (
-                      <tr key={index} className="table-row">
-                        <td className="px-6 py-4">
-                          <div className="text-sm text-gray-200 max-w-xs">
-                            <div className="truncate font-mono text-accent-400">
-                              {result.url}
-                            </div>
-                          </div>
-                          {result.error && (
-                            <div className="text-sm text-red-400 mt-1 flex items-center">
-                              <AlertCircle className="w-3 h-3 mr-1" />
-                              Error: {result.error}
-                            </div>
-                          )}
-                        </td>
-                        {result.scores ? (
-                          <>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <ScoreBadge score={result.scores.performance} />
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <ScoreBadge score={result.scores.accessibility} />
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <ScoreBadge score={result.scores['best-practices']} />
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <ScoreBadge score={result.scores.seo} />
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              {result.reportPaths && (
-                                <div className="flex space-x-2">
-                                  <a
-                                    href={result.reportPaths.html}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="link-primary flex items-center text-sm hover:bg-navy-700 px-2 py-1 rounded-md transition-colors"
-                                    title="View HTML Report"
-                                  >
-                                    <Download className="w-4 h-4 mr-1" />
-                                    HTML
-                                  </a>
+                      <React.Fragment key={index}>
+                        <tr className="table-row">
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-200 max-w-xs">
+                              <div className="truncate font-mono text-accent-400">
+                                {result.url}
+                              </div>
+                              {result.profile && (
+                                <div className="text-xs text-gray-400 mt-1">📶 {result.profile}</div>
+                              )}
+                              {(result.label || result.group) && (
+                                <div className="text-xs text-gray-400 mt-1 truncate">
+                                  🏷️ {[result.label, result.group].filter(Boolean).join(' · ')}
                                 </div>
                               )}
-                            </td>
-                          </>
-                        ) : (
-                          <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
-                            No data available
+                            </div>
+                            {resultInsights[index]?.fixes[0] && (
+                              <div className="text-xs text-gray-300 mt-1 max-w-xs truncate" title={resultInsights[index]!.fixes[0].title}>
+                                💡 {resultInsights[index]!.fixes[0].title}
+                              </div>
+                            )}
+                            {(result.metrics || resultInsights[index]) && (
+                              <button
+                                onClick={() => toggleRow(rowKey(result))}
+                                className="link-primary text-xs mt-1 flex items-center"
+                              >
+                                {expandedRows[rowKey(result)]
+                                  ? <ChevronDown className="w-3 h-3 mr-1" />
+                                  : <ChevronRight className="w-3 h-3 mr-1" />}
+                                {resultInsights[index] ? 'Metrics & Insights' : 'Metrics'}
+                              </button>
+                            )}
+                            {result.error && (
+                              <div className="text-sm text-red-400 mt-1 flex items-center">
+                                <AlertCircle className="w-3 h-3 mr-1" />
+                                Error: {result.error}
+                              </div>
+                            )}
+                            {result.budget?.checks.filter(check => check.type === 'metric' && !check.passed).map(check => (
+                              <div key={check.name} className="text-xs text-red-400 mt-1 flex items-center">
+                                <AlertCircle className="w-3 h-3 mr-1" />
+                                Over budget: {describeBudgetFailure(check)}
+                              </div>
+                            ))}
                           </td>
+                          {result.scores ? (
+                            <>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <ScoreBadge score={result.scores.performance} check={findScoreCheck(result, 'performance')} spread={result.spread?.performance} runs={result.runs} />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <ScoreBadge score={result.scores.accessibility} check={findScoreCheck(result, 'accessibility')} spread={result.spread?.accessibility} runs={result.runs} />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <ScoreBadge score={result.scores['best-practices']} check={findScoreCheck(result, 'best-practices')} spread={result.spread?.['best-practices']} runs={result.runs} />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <ScoreBadge score={result.scores.seo} check={findScoreCheck(result, 'seo')} spread={result.spread?.seo} runs={result.runs} />
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                {result.reportPaths && (
+                                  <div className="flex space-x-2">
+                                    <a
+                                      href={result.reportPaths.html}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="link-primary flex items-center text-sm hover:bg-navy-700 px-2 py-1 rounded-md transition-colors"
+                                      title="View HTML Report"
+                                    >
+                                      <Download className="w-4 h-4 mr-1" />
+                                      HTML
+                                    </a>
+                                    <Link
+                                      href={{ pathname: '/result', query: { report: result.reportPaths.json } }}
+                                      className="link-primary flex items-center text-sm hover:bg-navy-700 px-2 py-1 rounded-md transition-colors"
+                                      title="View audit details"
+                                    >
+                                      <FileSearch className="w-4 h-4 mr-1" />
+                                      Details
+                                    </Link>
+                                    <Link
+                                      href={{ pathname: '/history', query: { url: result.url } }}
+                                      className="link-primary flex items-center text-sm hover:bg-navy-700 px-2 py-1 rounded-md transition-colors"
+                                      title="View score history"
+                                    >
+                                      <LineChart className="w-4 h-4 mr-1" />
+                                      History
+                                    </Link>
+                                  </div>
+                                )}
+                              </td>
+                            </>
+                          ) : (
+                            <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+                              No data available
+                            </td>
+                          )}
+                        </tr>
+                        {expandedRows[rowKey(result)] && (result.metrics || resultInsights[index]) && (
+                          <tr className="bg-navy-800/50">
+                            <td colSpan={6} className="px-6 py-4 space-y-4">
+                              {result.metrics && <MetricGrid metrics={result.metrics} />}
+                              {resultInsights[index] && <UrlInsightsPanel insights={resultInsights[index]!} />}
+                            </td>
+                          </tr>
                         )}
-                      </tr>
+                      </React.Fragment>
                     ))}
                   </tbody>
                 </table>
@@ -444,12 +905,68 @@ const LighthouseDashboard: React.FC<Props> = ({ onRunAudit, processingStatus, re
             </div>
           </div>
         )}
+
+        {/* Side-by-side variants */}
+        <VariantComparison results={results} />
+
+        {/* User Flow Results */}
+        <FlowResultsPanel results={flowResults} />
+
+        {/* Run Comparison */}
+        <RunComparisonPanel
+          sessions={recentSessions.filter(session => session.status !== 'processing')}
+          activeSessionId={activeSessionId}
+        />
+      </div>
+    </div>
+  );
+};
+
+const LiveLog: React.FC<{ entries: AuditLogEntry[] }> = ({ entries }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view as entries stream in
+  useEffect(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [entries]);
+
+  return (
+    <div className="mt-4">
+      <p className="text-sm text-gray-300 mb-2">Live log</p>
+      <div
+        ref={containerRef}
+        className="max-h-48 overflow-y-auto p-3 bg-navy-800 rounded-md border border-navy-600 font-mono text-xs space-y-1"
+      >
+        {entries.map((entry, index) => (
+          <p key={index} className="text-gray-400 break-all">
+            <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+            {entry.message}
+          </p>
+        ))}
       </div>
     </div>
   );
 };
 
-const ScoreBadge: React.FC<{ score: number }> = ({ score }) => {
+const SessionStatusLabel: React.FC<{ status: AuditSessionSummary['status'] }> = ({ status }) => {
+  if (status === 'completed') return <span className="text-xs status-success">Completed</span>;
+  if (status === 'error') return <span className="text-xs status-error">Error</span>;
+  if (status === 'paused') return <span className="text-xs status-processing">Paused</span>;
+  if (status === 'cancelled') return <span className="text-xs text-gray-400">Cancelled</span>;
+  return <span className="text-xs status-processing">Processing</span>;
+};
+
+const findScoreCheck = (result: AuditResult, category: ScoreCategory): BudgetCheck | undefined =>
+  result.budget?.checks.find(check => check.type === 'score' && check.name === category);
+
+const ScoreBadge: React.FC<{
+  score: number;
+  check?: BudgetCheck;
+  spread?: ScoreSpread;
+  runs?: number;
+}> = ({ score, check, spread, runs }) => {
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'bg-green-500/20 text-green-400 border border-green-500/30';
     if (score >= 50) return 'bg-accent-500/20 text-accent-400 border border-accent-500/30';
@@ -468,6 +985,22 @@ const ScoreBadge: React.FC<{ score: number }> = ({ score }) => {
       <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${getScoreColor(score)}`}>
         {Math.round(score)}
       </span>
+      {spread && (
+        <span
+          className={`text-xs ${spread.stddev > 5 ? 'text-accent-400' : 'text-gray-400'}`}
+          title={`Median of ${runs} runs · range ${spread.min}–${spread.max}`}
+        >
+          ±{spread.stddev}
+        </span>
+      )}
+      {check && (
+        <span
+          className={`text-xs font-semibold ${check.passed ? 'text-gray-400' : 'text-red-400'}`}
+          title={check.passed ? 'Within budget' : 'Below budget'}
+        >
+          {check.passed ? '✓' : '⚠'} min {check.limit}
+        </span>
+      )}
     </div>
   );
 };
@@ -0,0 +1,38 @@
+import React from 'react';
+import { LAB_METRICS, formatMetricValue } from '@/lib/metrics';
+import { AuditResult, LabMetric } from '@/types';
+
+interface Props {
+  metrics: NonNullable<AuditResult['metrics']>;
+}
+
+const getMetricColor = (score: number | null) => {
+  if (score === null) return 'text-gray-300';
+  if (score >= 0.9) return 'text-green-400';
+  if (score >= 0.5) return 'text-accent-400';
+  return 'text-red-400';
+};
+
+/**
+ * Lab metric values coloured by their Lighthouse score
+ */
+const MetricGrid: React.FC<Props> = ({ metrics }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+    {(Object.keys(LAB_METRICS) as LabMetric[]).map(metric => {
+      const value = metrics[metric];
+      return (
+        <div key={metric} className="p-3 bg-navy-900 rounded-md border border-navy-700">
+          <p className="text-xs text-gray-400">{LAB_METRICS[metric].label}</p>
+          <p
+            className={`text-lg font-bold ${value ? getMetricColor(value.score) : 'text-gray-500'}`}
+            title={value?.score !== null && value?.score !== undefined ? `Score ${Math.round(value.score * 100)}` : undefined}
+          >
+            {value ? formatMetricValue(metric, value.value) : 'n/a'}
+          </p>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default MetricGrid;
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { EmulationProfile, ThrottlingMethod, ThrottlingSettings } from '@/types';
+
+interface Props {
+  value?: EmulationProfile;
+  onChange: (profile: EmulationProfile | undefined) => void;
+  formFactor: EmulationProfile['formFactor'];
+  // Extra profiles every URL is also audited with, for side-by-side comparison
+  compareWith: EmulationProfile[];
+  onCompareChange: (profiles: EmulationProfile[]) => void;
+  disabled?: boolean;
+}
+
+// Baseline plus three comparisons, the server's variant limit
+const MAX_COMPARED = 3;
+
+const THROTTLING_METHODS: Array<{ value: ThrottlingMethod; label: string }> = [
+  { value: 'simulate', label: 'Simulate (fast, modelled)' },
+  { value: 'devtools', label: 'DevTools (applied in Chrome)' },
+  { value: 'provided', label: 'Provided (no throttling)' }
+];
+
+const THROTTLING_FIELDS: Array<{ key: keyof ThrottlingSettings; label: string; step: string }> = [
+  { key: 'rttMs', label: 'RTT (ms)', step: '1' },
+  { key: 'throughputKbps', label: 'Throughput (Kbps)', step: '0.1' },
+  { key: 'cpuSlowdownMultiplier', label: 'CPU slowdown (x)', step: '0.5' },
+  { key: 'requestLatencyMs', label: 'Request latency (ms)', step: '0.5' },
+  { key: 'downloadThroughputKbps', label: 'Download (Kbps)', step: '0.1' },
+  { key: 'uploadThroughputKbps', label: 'Upload (Kbps)', step: '0.1' }
+];
+
+/**
+ * Pick, tweak and save named device emulation and throttling profiles
+ */
+const ProfileSettings: React.FC<Props> = ({ value, onChange, formFactor, compareWith, onCompareChange, disabled }) => {
+  const [profiles, setProfiles] = useState<EmulationProfile[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setProfiles(data.profiles);
+      }
+    } catch (err) {
+      console.error('Failed to load profiles:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const selected = value && profiles.find(profile => profile.id === value.id);
+  // The baseline can't be compared against itself
+  const baselineId = value?.id || `default-${formFactor}`;
+  const comparable = profiles.filter(profile => profile.id !== baselineId);
+
+  // Drop a comparison once it becomes the baseline
+  useEffect(() => {
+    if (compareWith.some(profile => profile.id === baselineId)) {
+      onCompareChange(compareWith.filter(profile => profile.id !== baselineId));
+    }
+  }, [baselineId, compareWith, onCompareChange]);
+
+  const toggleCompare = (profile: EmulationProfile, checked: boolean) => {
+    onCompareChange(checked
+      ? [...compareWith, profile]
+      : compareWith.filter(item => item.id !== profile.id));
+  };
+  const isPreset = !!selected?.preset;
+  const edited = !!value && !!selected && value.name !== selected.name;
+
+  // Results record the profile name, so edited settings must not pass as the saved profile
+  const update = (patch: Partial<EmulationProfile>) => {
+    if (!value) return;
+    const name = selected && value.name === selected.name ? `${selected.name} (edited)` : value.name;
+    onChange({ ...value, ...patch, name, preset: undefined });
+  };
+
+  const updateNumber = <K extends 'screen' | 'throttling'>(group: K, key: string, raw: string) => {
+    if (!value) return;
+    update({ [group]: { ...value[group], [key]: raw === '' ? 0 : Number(raw) } });
+  };
+
+  const handleSave = async () => {
+    if (!value) return;
+    setError(null);
+    try {
+      const name = saveName.trim() || selected?.name || value.name;
+      const response = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Saving under the profile's own name replaces it; any other name creates a new one
+        body: JSON.stringify({ ...value, id: !isPreset && name === selected?.name ? value.id : undefined, name })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save profile');
+      await loadProfiles();
+      onChange(data.profile);
+      setSaveName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete profile "${selected.name}"?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/profiles?id=${encodeURIComponent(selected.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete profile');
+      }
+      onChange(undefined);
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete profile');
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+        <span className="mr-2">📶</span> Emulation &amp; Throttling Profile
+      </label>
+      <select
+        value={value?.id || ''}
+        onChange={(e) => onChange(profiles.find(profile => profile.id === e.target.value))}
+        className="input"
+        disabled={disabled}
+      >
+        <option value="">Default for {formFactor === 'mobile' ? 'mobile' : 'desktop'}</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.preset ? '' : ' (saved)'}
+          </option>
+        ))}
+      </select>
+
+      {comparable.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-300 mb-2">Also audit every URL with (compared side by side):</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {comparable.map(profile => (
+              <label key={profile.id} className="flex items-center text-xs text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={compareWith.some(item => item.id === profile.id)}
+                  onChange={(e) => toggleCompare(profile, e.target.checked)}
+                  className="mr-1 accent-accent-500"
+                  disabled={disabled || (!compareWith.some(item => item.id === profile.id) && compareWith.length >= MAX_COMPARED)}
+                />
+                {profile.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value && (
+        <div className="mt-4 p-4 bg-navy-800 rounded-md border border-navy-600 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs text-gray-300 mb-1">Form factor</label>
+              <select
+                value={value.formFactor}
+                onChange={(e) => update({ formFactor: e.target.value as EmulationProfile['formFactor'] })}
+                className="input text-xs"
+                disabled={disabled}
+              >
+                <option value="desktop">Desktop</option>
+                <option value="mobile">Mobile</option>
+              </select>
+            </div>
+            {(['width', 'height', 'deviceScaleFactor'] as const).map(key => (
+              <div key={key}>
+                <label className="block text-xs text-gray-300 mb-1">
+                  {key === 'deviceScaleFactor' ? 'DPR' : key === 'width' ? 'Width (px)' : 'Height (px)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step={key === 'deviceScaleFactor' ? '0.25' : '1'}
+                  value={value.screen[key]}
+                  onChange={(e) => updateNumber('screen', key, e.target.value)}
+                  className="input text-xs"
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-300 mb-1">User agent</label>
+            <input
+              type="text"
+              value={value.userAgent}
+              onChange={(e) => update({ userAgent: e.target.value })}
+              className="input font-mono text-xs"
+              disabled={disabled}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-300 mb-1">Throttling method</label>
+            <select
+              value={value.throttlingMethod}
+              onChange={(e) => update({ throttlingMethod: e.target.value as ThrottlingMethod })}
+              className="input text-xs"
+              disabled={disabled}
+            >
+              {THROTTLING_METHODS.map(method => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {value.throttlingMethod !== 'provided' && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {THROTTLING_FIELDS.map(({ key, label, step }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-300 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={value.throttling[key]}
+                    onChange={(e) => updateNumber('throttling', key, e.target.value)}
+                    className="input text-xs"
+                    disabled={disabled}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={isPreset ? 'Name for a copy of this preset' : selected?.name || value.name}
+              className="input text-xs flex-1 min-w-[12rem]"
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              className="btn-secondary text-xs px-3 py-2 disabled:opacity-50"
+              disabled={disabled || (isPreset && !saveName.trim())}
+            >
+              <Save className="w-4 h-4 mr-1" />
+              Save profile
+            </button>
+            {!isPreset && selected && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="btn-danger text-xs px-3 py-2 disabled:opacity-50"
+                disabled={disabled}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </button>
+            )}
+          </div>
+          {edited && (
+            <p className="text-xs text-accent-400">Edited settings apply to this run; save them to reuse later.</p>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,227 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CookieEntry, HeaderEntry, HostHeaderRule, RequestCustomization } from '@/types';
+
+interface Props {
+  value: RequestCustomization;
+  onChange: (request: RequestCustomization) => void;
+  disabled?: boolean;
+}
+
+interface EditorProps {
+  entries: Array<HeaderEntry | CookieEntry>;
+  onChange: (entries: Array<HeaderEntry | CookieEntry>) => void;
+  namePlaceholder: string;
+  valuePlaceholder: string;
+  addLabel: string;
+  // Cookies are always secret, so only headers get the toggle
+  secretToggle?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Editable list of name/value pairs
+ */
+const KeyValueEditor: React.FC<EditorProps> = ({
+  entries,
+  onChange,
+  namePlaceholder,
+  valuePlaceholder,
+  addLabel,
+  secretToggle,
+  disabled
+}) => {
+  const update = (index: number, patch: Partial<HeaderEntry>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => {
+        const secret = !secretToggle || (entry as HeaderEntry).secret;
+        return (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={entry.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              placeholder={namePlaceholder}
+              className="input font-mono text-xs"
+              disabled={disabled}
+            />
+            <input
+              type={secret ? 'password' : 'text'}
+              value={entry.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+              placeholder={valuePlaceholder}
+              className="input font-mono text-xs"
+              autoComplete="off"
+              disabled={disabled}
+            />
+            {secretToggle && (
+              <label className="flex items-center text-xs text-gray-300 whitespace-nowrap" title="Mask this value in stored history">
+                <input
+                  type="checkbox"
+                  checked={!!(entry as HeaderEntry).secret}
+                  onChange={(e) => update(index, { secret: e.target.checked })}
+                  className="mr-1 accent-accent-500"
+                  disabled={disabled}
+                />
+                Secret
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={() => onChange(entries.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+              title="Remove"
+              disabled={disabled}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...entries, { name: '', value: '' }])}
+        className="link-primary text-xs inline-flex items-center disabled:opacity-50"
+        disabled={disabled}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        {addLabel}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Extra headers, cookies, basic auth and per-host header rules sent with audited pages
+ */
+const RequestSettings: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const hostRules = value.hostRules || [];
+
+  const updateRule = (index: number, patch: Partial<HostHeaderRule>) =>
+    onChange({ ...value, hostRules: hostRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-200 mb-2 flex items-center">
+        <span className="mr-2">📨</span> Request Headers &amp; Cookies (Optional)
+      </label>
+
+      <div className="space-y-4 p-4 bg-navy-800 rounded-md border border-navy-600">
+        <div>
+          <p className="text-xs text-gray-300 mb-2">Headers (all URLs)</p>
+          <KeyValueEditor
+            entries={value.headers || []}
+            onChange={(headers) => onChange({ ...value, headers: headers as HeaderEntry[] })}
+            namePlaceholder="CF-Access-Client-Id"
+            valuePlaceholder="Value"
+            addLabel="Add header"
+            secretToggle
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-300 mb-2">Cookies (set on the audited host)</p>
+          <KeyValueEditor
+            entries={value.cookies || []}
+            onChange={(cookies) => onChange({ ...value, cookies: cookies as CookieEntry[] })}
+            namePlaceholder="nf_jwt"
+            valuePlaceholder="Value"
+            addLabel="Add cookie"
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-300 mb-2">Basic auth</p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={value.basicAuth?.username || ''}
+              onChange={(e) => onChange({
+                ...value,
+                basicAuth: e.target.value || value.basicAuth?.password
+                  ? { username: e.target.value, password: value.basicAuth?.password || '' }
+                  : undefined
+              })}
+              placeholder="Username"
+              className="input text-xs"
+              autoComplete="off"
+              disabled={disabled}
+            />
+            <input
+              type="password"
+              value={value.basicAuth?.password || ''}
+              onChange={(e) => onChange({
+                ...value,
+                basicAuth: e.target.value || value.basicAuth?.username
+                  ? { username: value.basicAuth?.username || '', password: e.target.value }
+                  : undefined
+              })}
+              placeholder="Password"
+              className="input text-xs"
+              autoComplete="new-password"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-300 mb-2">Per-host headers</p>
+          <div className="space-y-3">
+            {hostRules.map((rule, index) => (
+              <div key={index} className="p-3 rounded-md border border-navy-600 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={rule.host}
+                    onChange={(e) => updateRule(index, { host: e.target.value })}
+                    placeholder="staging.example.com or *.example.com"
+                    className="input font-mono text-xs"
+                    disabled={disabled}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, hostRules: hostRules.filter((_, i) => i !== index) })}
+                    className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                    title="Remove host rule"
+                    disabled={disabled}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <KeyValueEditor
+                  entries={rule.headers}
+                  onChange={(headers) => updateRule(index, { headers: headers as HeaderEntry[] })}
+                  namePlaceholder="Header"
+                  valuePlaceholder="Value"
+                  addLabel="Add header"
+                  secretToggle
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, hostRules: [...hostRules, { host: '', headers: [{ name: '', value: '' }] }] })}
+              className="link-primary text-xs inline-flex items-center disabled:opacity-50"
+              disabled={disabled}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add host rule
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Cookie values, the basic auth password, secret headers and auth-like header names are masked in stored history.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RequestSettings;
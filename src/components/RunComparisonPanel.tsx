@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GitCompare, AlertTriangle } from 'lucide-react';
+import { AuditSessionSummary, RunComparison, CategoryDelta } from '@/types';
+
+interface Props {
+  sessions: AuditSessionSummary[];
+  activeSessionId?: string;
+}
+
+const CATEGORY_LABELS: Record<CategoryDelta['category'], string> = {
+  performance: 'Perf',
+  accessibility: 'A11y',
+  'best-practices': 'BP',
+  seo: 'SEO'
+};
+
+const sessionLabel = (session: AuditSessionSummary) =>
+  `${new Date(session.createdAt).toLocaleString()} · ${session.formFactor} · ${session.total} URLs`;
+
+/**
+ * Pick two stored runs and review per-URL score and opportunity changes
+ */
+const RunComparisonPanel: React.FC<Props> = ({ sessions, activeSessionId }) => {
+  const [headId, setHeadId] = useState('');
+  const [baseId, setBaseId] = useState('');
+  const [threshold, setThreshold] = useState(5);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to comparing the active run against the one before it
+  useEffect(() => {
+    if (sessions.length < 2) return;
+    const headIndex = Math.max(0, sessions.findIndex(s => s.sessionId === activeSessionId));
+    setHeadId(sessions[headIndex].sessionId);
+    setBaseId(sessions[Math.min(headIndex + 1, sessions.length - 1)].sessionId);
+  }, [sessions, activeSessionId]);
+
+  const handleCompare = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ base: baseId, head: headId, threshold: String(threshold) });
+      const response = await fetch(`/api/compare?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Comparison failed');
+      setComparison(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+      setComparison(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [baseId, headId, threshold]);
+
+  if (sessions.length < 2) return null;
+
+  return (
+    <div className="card p-0 overflow-hidden mt-8">
+      <div className="card-header p-6">
+        <h2 className="text-xl font-semibold text-gray-100 flex items-center">
+          <GitCompare className="w-5 h-5 text-accent-400 mr-3" />
+          Compare Runs
+        </h2>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="md:col-span-1">
+          <label className="block text-sm font-medium text-gray-200 mb-2">Baseline</label>
+          <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className="input">
+            {sessions.map(session => (
+              <option key={session.sessionId} value={session.sessionId}>{sessionLabel(session)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-1">
+          <label className="block text-sm font-medium text-gray-200 mb-2">Candidate</label>
+          <select value={headId} onChange={(e) => setHeadId(e.target.value)} className="input">
+            {sessions.map(session => (
+              <option key={session.sessionId} value={session.sessionId}>{sessionLabel(session)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-200 mb-2">Regression threshold (points)</label>
+          <input
+            type="number"
+            min={0}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="input"
+          />
+        </div>
+        <button
+          onClick={handleCompare}
+          disabled={loading || !baseId || !headId || baseId === headId}
+          className="btn-primary py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Comparing…' : 'Compare'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-6 mb-6 status-error bg-red-900/30 border border-red-800 rounded-md p-3 text-sm">
+          Error: {error}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="px-6 pb-6 space-y-4">
+          <p className="text-sm text-gray-300">
+            <span className={comparison.regressions > 0 ? 'text-red-400 font-bold' : 'text-green-400 font-bold'}>
+              {comparison.regressions}
+            </span>{' '}
+            of {comparison.comparisons.length} URL(s) regressed by {comparison.threshold}+ points
+            {comparison.unmatched.length > 0 && (
+              <span className="text-gray-400"> · {comparison.unmatched.length} URL(s) only in one run</span>
+            )}
+          </p>
+
+          {comparison.comparisons.map(item => (
+            <div
+              key={`${item.formFactor}-${item.profile}-${item.url}`}
+              className={`p-4 rounded-md border ${item.regression ? 'border-red-800 bg-red-900/20' : 'border-navy-600 bg-navy-800'}`}
+            >
+              <div className="flex justify-between items-start mb-3">
+                <div className="font-mono text-sm text-accent-400 break-all">
+                  {item.url} <span className="text-gray-400">({item.profile || item.formFactor})</span>
+                </div>
+                {item.regression && (
+                  <span className="flex items-center text-xs text-red-400 font-semibold ml-4 whitespace-nowrap">
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    Regression
+                  </span>
+                )}
+              </div>
+
+              {item.error ? (
+                <p className="text-sm text-red-400">{item.error}</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {item.categories.map(category => (
+                      <DeltaChip key={category.category} delta={category} />
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+                    <OpportunityList title="New opportunities" items={item.appeared} tone="text-red-400" />
+                    <OpportunityList title="Resolved opportunities" items={item.disappeared} tone="text-green-400" />
+                    <div>
+                      <p className="text-gray-300 font-semibold mb-1">Changed savings</p>
+                      {item.changed.length === 0 ? (
+                        <p className="text-gray-500">None</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {item.changed.slice(0, 5).map(change => (
+                            <li key={change.title} className="text-gray-400">
+                              {change.title}:{' '}
+                              <span className={(change.delta || 0) > 0 ? 'text-red-400' : 'text-green-400'}>
+                                {(change.delta || 0) > 0 ? '+' : ''}{Math.round(change.delta || 0)} ms
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DeltaChip: React.FC<{ delta: CategoryDelta }> = ({ delta }) => {
+  const value = delta.delta ?? 0;
+  const tone = delta.regression
+    ? 'bg-red-500/20 text-red-400 border-red-500/30'
+    : value > 0
+      ? 'bg-green-500/20 text-green-400 border-green-500/30'
+      : 'bg-navy-700 text-gray-300 border-navy-600';
+
+  return (
+    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold border ${tone}`}>
+      {CATEGORY_LABELS[delta.category]} {delta.base ?? '–'} → {delta.head ?? '–'}
+      {delta.delta !== null && ` (${value > 0 ? '+' : ''}${value})`}
+    </span>
+  );
+};
+
+const OpportunityList: React.FC<{ title: string; items: string[]; tone: string }> = ({ title, items, tone }) => (
+  <div>
+    <p className="text-gray-300 font-semibold mb-1">{title}</p>
+    {items.length === 0 ? (
+      <p className="text-gray-500">None</p>
+    ) : (
+      <ul className="space-y-1">
+        {items.map(item => (
+          <li key={item} className={tone}>{item}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default RunComparisonPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { ScoreCategory, UrlHistoryPoint } from '@/types';
+
+interface Props {
+  points: UrlHistoryPoint[];
+}
+
+const SERIES: Array<{ key: ScoreCategory; label: string; color: string }> = [
+  { key: 'performance', label: 'Performance', color: '#facc15' },
+  { key: 'accessibility', label: 'Accessibility', color: '#4ade80' },
+  { key: 'best-practices', label: 'Best Practices', color: '#60a5fa' },
+  { key: 'seo', label: 'SEO', color: '#f472b6' }
+];
+
+const WIDTH = 720;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 36 };
+
+/**
+ * Line chart of category scores across runs; each point links to its HTML report
+ */
+const TrendChart: React.FC<Props> = ({ points }) => {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-400">No runs recorded for this form factor yet.</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  // Runs are spaced evenly so bursts of audits on the same day stay readable
+  const xFor = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const yFor = (score: number) => PADDING.top + plotHeight - (score / 100) * plotHeight;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {[0, 50, 90, 100].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yFor(tick)}
+              y2={yFor(tick)}
+              stroke="#334155"
+              strokeDasharray={tick === 0 || tick === 100 ? undefined : '4 4'}
+            />
+            <text x={PADDING.left - 8} y={yFor(tick) + 4} textAnchor="end" fontSize="11" fill="#94a3b8">
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {points.map((point, index) => (
+          <text
+            key={`${point.sessionId}-${index}`}
+            x={xFor(index)}
+            y={HEIGHT - PADDING.bottom + 18}
+            textAnchor="middle"
+            fontSize="10"
+            fill="#94a3b8"
+          >
+            {new Date(point.auditedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </text>
+        ))}
+
+        {SERIES.map((series) => (
+          <g key={series.key}>
+            <polyline
+              fill="none"
+              stroke={series.color}
+              strokeWidth={2}
+              points={points.map((point, index) => `${xFor(index)},${yFor(point.scores[series.key])}`).join(' ')}
+            />
+            {points.map((point, index) => {
+              const marker = (
+                <circle cx={xFor(index)} cy={yFor(point.scores[series.key])} r={4} fill={series.color}>
+                  <title>
+                    {`${series.label}: ${point.scores[series.key]} (${new Date(point.auditedAt).toLocaleString()})`}
+                  </title>
+                </circle>
+              );
+              return point.reportPaths ? (
+                <a key={index} href={point.reportPaths.html} target="_blank" rel="noopener noreferrer">
+                  {marker}
+                </a>
+              ) : (
+                <g key={index}>{marker}</g>
+              );
+            })}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center text-xs text-gray-300">
+            <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: series.color }}></span>
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search } from 'lucide-react';
+import { filterUrls } from '@/lib/utils';
+import { DiscoveryMode, DiscoveryResult, RequestCustomization } from '@/types';
+
+interface Props {
+  // Sent with discovery requests so protected staging sites can be discovered
+  bypassToken?: string;
+  request?: RequestCustomization;
+  // Discovered URLs left after the include/exclude filters
+  onChange: (urls: string[]) => void;
+  disabled?: boolean;
+}
+
+// Only the first URLs are listed; all of them are audited
+const PREVIEW_LIMIT = 200;
+
+const parsePatterns = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * Find URLs from a sitemap or a same-origin crawl, then narrow them down with globs
+ */
+const UrlDiscovery: React.FC<Props> = ({ bypassToken, request, onChange, disabled }) => {
+  const [mode, setMode] = useState<DiscoveryMode>('sitemap');
+  const [url, setUrl] = useState('');
+  const [depth, setDepth] = useState('2');
+  const [limit, setLimit] = useState('1000');
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [result, setResult] = useState<DiscoveryResult | null>(null);
+  const [discovering, setDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters apply live to what was discovered, so they can be tuned without refetching
+  const filtered = useMemo(
+    () => (result ? filterUrls(result.urls, parsePatterns(includeText), parsePatterns(excludeText)) : []),
+    [result, includeText, excludeText]
+  );
+
+  useEffect(() => {
+    onChange(filtered);
+  }, [filtered, onChange]);
+
+  const handleDiscover = async () => {
+    setDiscovering(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/discover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode,
+          url: url.trim(),
+          depth: mode === 'crawl' ? parseInt(depth, 10) : undefined,
+          limit: parseInt(limit, 10) || undefined,
+          bypassToken,
+          request
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to discover URLs');
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discover URLs');
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="flex space-x-6 text-sm">
+        {([['sitemap', '🗺️ Sitemap'], ['crawl', '🕷️ Crawl from a page']] as Array<[DiscoveryMode, string]>).map(([value, label]) => (
+          <label key={value} className="flex items-center cursor-pointer text-gray-300">
+            <input
+              type="radio"
+              checked={mode === value}
+              onChange={() => setMode(value)}
+              className="mr-2 accent-accent-500"
+              disabled={disabled}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className={mode === 'crawl' ? 'md:col-span-2' : 'md:col-span-3'}>
+          <label className="block text-xs text-gray-300 mb-1">
+            {mode === 'sitemap' ? 'Sitemap URL (sitemap index and .xml.gz supported)' : 'Start URL (same-origin links are followed)'}
+          </label>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={mode === 'sitemap' ? 'https://example.com/sitemap.xml' : 'https://example.com/'}
+            className="input font-mono text-xs"
+            disabled={disabled}
+          />
+        </div>
+        {mode === 'crawl' && (
+          <div>
+            <label className="block text-xs text-gray-300 mb-1">Depth (link hops)</label>
+            <input type="number" min="0" max="5" value={depth} onChange={(e) => setDepth(e.target.value)} className="input text-xs" disabled={disabled} />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-gray-300 mb-1">{mode === 'crawl' ? 'Max pages' : 'Max URLs'}</label>
+          <input type="number" min="1" max="10000" value={limit} onChange={(e) => setLimit(e.target.value)} className="input text-xs" disabled={disabled} />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleDiscover}
+        className="btn-secondary text-sm disabled:opacity-50"
+        disabled={disabled || discovering || !url.trim()}
+      >
+        <Search className="w-4 h-4 mr-2" />
+        {discovering ? 'Discovering…' : 'Discover URLs'}
+      </button>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-300 mb-1">Include (one glob per line)</label>
+          <textarea
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+            placeholder={'/products/**\nhttps://example.com/pricing'}
+            rows={3}
+            className="input font-mono text-xs resize-none"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-300 mb-1">Exclude (one glob per line)</label>
+          <textarea
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            placeholder={'/blog/**\n/tag/*'}
+            rows={3}
+            className="input font-mono text-xs resize-none"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {result && (
+        <div>
+          <p className="text-sm text-gray-400 flex items-center">
+            <span className="inline-block w-2 h-2 bg-accent-500 rounded-full mr-2"></span>
+            <span className="text-accent-400 font-semibold mr-1">{filtered.length}</span>
+            of {result.urls.length} URL(s) selected · {result.sources} {mode === 'crawl' ? 'page(s) crawled' : 'sitemap(s) read'}
+            {result.truncated && <span className="text-accent-400 ml-1">· stopped at the limit</span>}
+          </p>
+          {result.errors.length > 0 && (
+            <details className="mt-2 text-xs text-red-400">
+              <summary className="cursor-pointer">{result.errors.length} problem(s) while discovering</summary>
+              {result.errors.map((message, index) => (
+                <p key={index} className="break-all">{message}</p>
+              ))}
+            </details>
+          )}
+          {filtered.length > 0 && (
+            <div className="mt-2 max-h-48 overflow-y-auto p-3 bg-navy-800 rounded-md border border-navy-600">
+              {filtered.slice(0, PREVIEW_LIMIT).map(item => (
+                <p key={item} className="text-xs text-accent-400 font-mono break-all">{item}</p>
+              ))}
+              {filtered.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-400 mt-1">…and {filtered.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UrlDiscovery;
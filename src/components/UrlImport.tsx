@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Upload, CheckCircle } from 'lucide-react';
+import { buildImport, detectMapping, IMPORT_FIELDS } from '@/lib/imports';
+import { ImportField, ImportMapping, ImportTable, UploadResponse, UrlOverride } from '@/types';
+
+interface Props {
+  // URLs from valid rows, with their per-row overrides
+  onChange: (targets: UrlOverride[]) => void;
+  disabled?: boolean;
+}
+
+const ACCEPT = '.csv,.tsv,.xlsx,.txt,.json';
+const SAMPLE_ROWS = 3;
+const PREVIEW_LIMIT = 200;
+
+/**
+ * Upload a CSV, XLSX, text or JSON URL list, map its columns and review invalid rows
+ */
+const UrlImport: React.FC<Props> = ({ onChange, disabled }) => {
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({ hasHeader: false, columns: [] });
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rows are validated live so the mapping can be changed without uploading again
+  const result = useMemo(() => (table ? buildImport(table, mapping) : { targets: [], errors: [] }), [table, mapping]);
+
+  useEffect(() => {
+    onChange(result.targets);
+  }, [result, onChange]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/upload-csv', { method: 'POST', body: formData });
+      const data: UploadResponse = await response.json();
+      if (!response.ok || !data.table) throw new Error(data.error || 'Failed to process file');
+      setTable(data.table);
+      setMapping(detectMapping(data.table.rows));
+    } catch (err) {
+      setTable(null);
+      setError(err instanceof Error ? err.message : 'Failed to process file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // A field belongs to one column at a time
+  const setColumn = (column: number, field: ImportField | null) => {
+    setMapping({
+      ...mapping,
+      columns: mapping.columns.map((current, index) =>
+        index === column ? field : current === field ? null : current
+      )
+    });
+  };
+
+  const dataRows = table ? table.rows.slice(mapping.hasHeader ? 1 : 0).filter(row => row.some(Boolean)) : [];
+  const rowName = table?.format === 'json' ? 'Item' : 'Row';
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="mt-1 flex justify-center px-6 pt-8 pb-8 border-2 border-navy-600 border-dashed rounded-lg bg-navy-800/50 hover:border-accent-500 transition-colors duration-200">
+        <div className="space-y-2 text-center">
+          <Upload className="mx-auto h-16 w-16 text-accent-400" />
+          <div className="flex text-sm text-gray-300 justify-center">
+            <label htmlFor="file-upload" className="relative cursor-pointer bg-navy-700 px-3 py-1 rounded-md font-medium text-accent-400 hover:text-accent-300 hover:bg-navy-600 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-accent-500 focus-within:ring-offset-navy-800 transition-colors">
+              <span>{uploading ? 'Reading…' : '📁 Upload a URL list'}</span>
+              <input
+                id="file-upload"
+                type="file"
+                accept={ACCEPT}
+                className="sr-only"
+                onChange={handleFile}
+                disabled={disabled || uploading}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-400">CSV, TSV, Excel (.xlsx), plain text or JSON, up to 5MB</p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {table && (
+        <>
+          <div className="p-3 bg-navy-800 rounded-md border border-accent-500/30 flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-accent-400 flex items-center">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              <span className="font-medium mr-1">{table.fileName}</span>
+              {table.sheet && <span className="text-gray-400 mr-1">(sheet “{table.sheet}”)</span>}
+              · {table.rows.length} row(s)
+            </p>
+            <label className="flex items-center text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                className="mr-2 accent-accent-500"
+                disabled={disabled}
+              />
+              First row is a header
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr>
+                  {mapping.columns.map((field, column) => (
+                    <th key={column} className="p-2 text-left align-top">
+                      <p className="text-gray-300 font-medium mb-1 truncate">
+                        {mapping.hasHeader ? table.rows[0][column] || `Column ${column + 1}` : `Column ${column + 1}`}
+                      </p>
+                      <select
+                        value={field || ''}
+                        onChange={(e) => setColumn(column, (e.target.value || null) as ImportField | null)}
+                        className="input text-xs py-1"
+                        disabled={disabled}
+                      >
+                        <option value="">Ignore</option>
+                        {IMPORT_FIELDS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-navy-700">
+                {dataRows.slice(0, SAMPLE_ROWS).map((row, index) => (
+                  <tr key={index}>
+                    {mapping.columns.map((_, column) => (
+                      <td key={column} className="p-2 text-gray-400 font-mono break-all">{row[column]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!mapping.columns.includes('url') ? (
+            <p className="text-sm text-red-400">Choose the column that holds the URLs</p>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-400 flex items-center">
+                <span className="inline-block w-2 h-2 bg-accent-500 rounded-full mr-2"></span>
+                <span className="text-accent-400 font-semibold mr-1">{result.targets.length}</span>
+                URL(s) ready to audit
+                {result.errors.length > 0 && <span className="text-red-400 ml-1">· {result.errors.length} row(s) skipped</span>}
+              </p>
+              {result.errors.length > 0 && (
+                <details className="mt-2 text-xs text-red-400" open={result.targets.length === 0}>
+                  <summary className="cursor-pointer">Skipped rows</summary>
+                  {result.errors.slice(0, PREVIEW_LIMIT).map(item => (
+                    <p key={item.row} className="break-all">{rowName} {item.row}: {item.message}</p>
+                  ))}
+                  {result.errors.length > PREVIEW_LIMIT && (
+                    <p>…and {result.errors.length - PREVIEW_LIMIT} more</p>
+                  )}
+                </details>
+              )}
+              {result.targets.length > 0 && (
+                <div className="mt-2 max-h-48 overflow-y-auto p-3 bg-navy-800 rounded-md border border-navy-600">
+                  {result.targets.slice(0, PREVIEW_LIMIT).map(target => (
+                    <p key={target.url} className="text-xs text-accent-400 font-mono break-all">
+                      {target.url}
+                      {(target.label || target.group || target.formFactor || target.budget) && (
+                        <span className="text-gray-400 ml-2">
+                          {[target.label, target.group, target.formFactor, target.budget && 'budget'].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </p>
+                  ))}
+                  {result.targets.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-gray-400 mt-1">…and {result.targets.length - PREVIEW_LIMIT} more</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UrlImport;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { InsightImpact, UrlInsights } from '@/types';
+
+interface Props {
+  insights: UrlInsights;
+}
+
+const IMPACT_STYLES: Record<InsightImpact, string> = {
+  high: 'bg-red-900/40 text-red-300 border-red-800',
+  medium: 'bg-accent-500/20 text-accent-400 border-accent-500/40',
+  low: 'bg-navy-700 text-gray-300 border-navy-600'
+};
+
+/**
+ * AI strengths, prioritized fixes and red flags for one audited URL
+ */
+const UrlInsightsPanel: React.FC<Props> = ({ insights }) => (
+  <div className="p-4 bg-navy-900 rounded-md border border-navy-700 space-y-3 text-sm">
+    <p className="text-xs font-semibold text-gray-300 uppercase tracking-wider flex items-center">
+      <Sparkles className="w-4 h-4 mr-2 text-accent-400" />
+      AI Insights
+    </p>
+
+    {insights.redFlags.length > 0 && (
+      <ul className="space-y-1">
+        {insights.redFlags.map(flag => (
+          <li key={flag} className="text-red-400">🚩 {flag}</li>
+        ))}
+      </ul>
+    )}
+
+    {insights.fixes.length > 0 && (
+      <ol className="space-y-2">
+        {insights.fixes.map((fix, index) => (
+          <li key={index} className="flex items-start">
+            <span className={`mr-2 px-2 py-0.5 rounded border text-xs font-semibold uppercase ${IMPACT_STYLES[fix.impact]}`}>
+              {fix.impact}
+            </span>
+            <span className="text-gray-200">
+              {fix.title}
+              {fix.estimatedImpact && <span className="text-gray-400 ml-2">({fix.estimatedImpact})</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+
+    {insights.strengths.length > 0 && (
+      <ul className="space-y-1">
+        {insights.strengths.map(strength => (
+          <li key={strength} className="text-green-400">✓ {strength}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default UrlInsightsPanel;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { LAB_METRICS, formatMetricValue } from '@/lib/metrics';
+import { AuditResult, LabMetric, ScoreCategory } from '@/types';
+
+interface Props {
+  results: AuditResult[];
+}
+
+const CATEGORIES: Array<{ key: ScoreCategory; label: string }> = [
+  { key: 'performance', label: 'Perf' },
+  { key: 'accessibility', label: 'A11y' },
+  { key: 'best-practices', label: 'BP' },
+  { key: 'seo', label: 'SEO' }
+];
+
+const COMPARED_METRICS: LabMetric[] = ['lcp', 'tbt', 'cls'];
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return 'text-green-400';
+  if (score >= 50) return 'text-accent-400';
+  return 'text-red-400';
+};
+
+/**
+ * Signed change against the baseline; `lowerIsBetter` flips the colouring for metrics
+ */
+const Delta: React.FC<{ delta: number; label: string; lowerIsBetter?: boolean }> = ({ delta, label, lowerIsBetter }) => {
+  if (delta === 0) return <span className="text-xs text-gray-500 ml-1">±0</span>;
+  const improved = lowerIsBetter ? delta < 0 : delta > 0;
+  return (
+    <span className={`text-xs ml-1 ${improved ? 'text-green-400' : 'text-red-400'}`}>
+      {delta > 0 ? '+' : '−'}{label}
+    </span>
+  );
+};
+
+/**
+ * Scores and key metrics of each URL under every variant of the session,
+ * with deltas against the first (baseline) variant
+ */
+const VariantComparison: React.FC<Props> = ({ results }) => {
+  // Variants in the order the session ran them; the first is the baseline
+  const variants = results
+    .map(result => result.profile)
+    .filter((profile, index, all): profile is string => !!profile && all.indexOf(profile) === index);
+  if (variants.length < 2) return null;
+
+  const urls = results
+    .map(result => result.url)
+    .filter((url, index, all) => all.indexOf(url) === index);
+  const find = (url: string, variant: string) =>
+    results.find(result => result.url === url && result.profile === variant);
+
+  return (
+    <div className="card p-0 overflow-hidden mt-8">
+      <div className="card-header p-6">
+        <h2 className="text-xl font-semibold text-gray-100 flex items-center">
+          <span className="text-accent-400 mr-3">↔️</span>
+          Variant Comparison
+        </h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Deltas are against <span className="text-accent-400">{variants[0]}</span>
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-navy-700 text-sm">
+          <thead className="table-header">
+            <tr>
+              <th className="px-4 py-3 text-left">URL</th>
+              <th className="px-4 py-3 text-left">Variant</th>
+              {CATEGORIES.map(({ key, label }) => (
+                <th key={key} className="px-4 py-3 text-center">{label}</th>
+              ))}
+              {COMPARED_METRICS.map(metric => (
+                <th key={metric} className="px-4 py-3 text-center">{LAB_METRICS[metric].label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-navy-700">
+            {urls.map(url => {
+              const baseline = find(url, variants[0]);
+              return variants.map((variant, variantIndex) => {
+                const result = find(url, variant);
+                const compare = variantIndex > 0 && baseline?.scores && result?.scores;
+                return (
+                  <tr key={`${url}-${variant}`} className={variantIndex === 0 ? 'table-row border-t-2 border-navy-600' : 'table-row'}>
+                    {variantIndex === 0 && (
+                      <td rowSpan={variants.length} className="px-4 py-3 font-mono text-xs text-accent-400 max-w-xs truncate align-top" title={url}>
+                        {url}
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-xs text-gray-300 whitespace-nowrap">{variant}</td>
+                    {!result ? (
+                      <td colSpan={CATEGORIES.length + COMPARED_METRICS.length} className="px-4 py-3 text-xs text-gray-500">
+                        Not audited yet
+                      </td>
+                    ) : result.error || !result.scores ? (
+                      <td colSpan={CATEGORIES.length + COMPARED_METRICS.length} className="px-4 py-3 text-xs text-red-400">
+                        {result.error || 'No scores'}
+                      </td>
+                    ) : (
+                      <>
+                        {CATEGORIES.map(({ key }) => (
+                          <td key={key} className="px-4 py-3 text-center whitespace-nowrap">
+                            <span className={`font-semibold ${getScoreColor(result.scores![key])}`}>{result.scores![key]}</span>
+                            {compare && (
+                              <Delta
+                                delta={result.scores![key] - baseline!.scores![key]}
+                                label={String(Math.abs(result.scores![key] - baseline!.scores![key]))}
+                              />
+                            )}
+                          </td>
+                        ))}
+                        {COMPARED_METRICS.map(metric => {
+                          const value = result.metrics?.[metric]?.value;
+                          const baseValue = baseline?.metrics?.[metric]?.value;
+                          return (
+                            <td key={metric} className="px-4 py-3 text-center text-gray-200 whitespace-nowrap">
+                              {value === undefined ? '—' : formatMetricValue(metric, value)}
+                              {variantIndex > 0 && value !== undefined && baseValue !== undefined && (
+                                <Delta
+                                  delta={Math.round((value - baseValue) * 1000) / 1000}
+                                  label={formatMetricValue(metric, Math.abs(value - baseValue))}
+                                  lowerIsBetter
+                                />
+                              )}
+                            </td>
+                          );
+                        })}
+                      </>
+                    )}
+                  </tr>
+                );
+              });
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default VariantComparison;
@@ -0,0 +1,16 @@
+/**
+ * Next.js server startup hook: on long-running Node servers, close out audits
+ * interrupted by the last shutdown and start the audit scheduler
+ */
+export async function register() {
+  const isServerless = process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME;
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || isServerless) return;
+
+  const { getAuditRepository } = await import('@/lib/storage');
+  const interrupted = await getAuditRepository().failInterruptedSessions();
+  if (interrupted > 0) console.log(`Marked ${interrupted} interrupted audit session(s) as errored`);
+
+  if (process.env.AUDIT_SCHEDULER === 'off') return;
+  const { getScheduler } = await import('@/lib/scheduler');
+  getScheduler().start();
+}
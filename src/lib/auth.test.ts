@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import type { Page } from 'puppeteer';
+import { AuthSession } from './auth';
+
+describe('AuthSession', () => {
+  it('tries again after loading the state fails', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-'));
+    const file = path.join(dir, 'state.json');
+    const session = new AuthSession({ storageState: file }, true);
+    // Empty state never touches the page
+    const page = {} as Page;
+
+    try {
+      await assert.rejects(session.authenticate(page), /ENOENT/);
+      await fs.writeFile(file, JSON.stringify({ cookies: [], origins: [] }));
+      await session.authenticate(page);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
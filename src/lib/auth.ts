@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { CookieData, Page } from 'puppeteer';
+import { AuthConfig, LoginRecipe } from '@/types';
+
+/**
+ * Directory that relative storage state files are read from
+ */
+export const AUTH_STATE_DIR = path.resolve(process.env.AUTH_STATE_DIR || './auth');
+
+/**
+ * Login recipes may only read credentials from variables with this prefix, so
+ * a recipe can't type arbitrary server secrets into a page
+ */
+export const AUTH_ENV_PREFIX = 'AUDIT_AUTH_';
+
+/**
+ * Each credential variable lists the origins it may be typed into in a
+ * companion variable, e.g. AUDIT_AUTH_PASSWORD_ORIGINS=https://staging.example.com
+ */
+export const AUTH_ORIGINS_SUFFIX = '_ORIGINS';
+
+const LOGIN_TIMEOUT_MS = 30000;
+
+const LOGIN_FIELDS: Array<keyof LoginRecipe> = [
+  'url',
+  'usernameSelector',
+  'passwordSelector',
+  'submitSelector',
+  'usernameEnv',
+  'passwordEnv'
+];
+
+/**
+ * Cookies and localStorage captured from (or loaded into) a browser context
+ */
+export interface StorageState {
+  cookies: CookieData[];
+  origins: Array<{ origin: string; localStorage: Array<{ name: string; value: string }> }>;
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+/**
+ * Validate an untrusted value (request body, recipe file) as an auth config
+ */
+export function validateAuthConfig(value: unknown): AuthConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AuthConfigError('Authentication must be an object');
+  }
+
+  const { login, storageState } = value as Record<string, unknown>;
+  if (login !== undefined && storageState !== undefined) {
+    throw new AuthConfigError('Use either a login recipe or a storage state file, not both');
+  }
+
+  if (storageState !== undefined) {
+    if (typeof storageState !== 'string' || storageState.length === 0) {
+      throw new AuthConfigError('Storage state must be a file path');
+    }
+    return { storageState };
+  }
+
+  if (!login || typeof login !== 'object') {
+    throw new AuthConfigError('Authentication needs a login recipe or a storage state file');
+  }
+
+  const recipe = login as Record<string, unknown>;
+  LOGIN_FIELDS.forEach(field => {
+    if (typeof recipe[field] !== 'string' || (recipe[field] as string).length === 0) {
+      throw new AuthConfigError(`Login recipe needs "${field}"`);
+    }
+  });
+  if (recipe.successSelector !== undefined && typeof recipe.successSelector !== 'string') {
+    throw new AuthConfigError('Login recipe "successSelector" must be a string');
+  }
+
+  try {
+    new URL(recipe.url as string);
+  } catch {
+    throw new AuthConfigError(`Invalid login URL "${recipe.url}"`);
+  }
+
+  ['usernameEnv', 'passwordEnv'].forEach(field => {
+    const name = recipe[field] as string;
+    if (!name.startsWith(AUTH_ENV_PREFIX) || name.endsWith(AUTH_ORIGINS_SUFFIX)) {
+      throw new AuthConfigError(`Login recipe "${field}" must name a variable starting with ${AUTH_ENV_PREFIX} (not an ${AUTH_ORIGINS_SUFFIX} list)`);
+    }
+  });
+
+  const parsed: LoginRecipe = {
+    url: recipe.url as string,
+    usernameSelector: recipe.usernameSelector as string,
+    passwordSelector: recipe.passwordSelector as string,
+    submitSelector: recipe.submitSelector as string,
+    usernameEnv: recipe.usernameEnv as string,
+    passwordEnv: recipe.passwordEnv as string,
+    successSelector: recipe.successSelector as string | undefined
+  };
+  checkCredentialOrigin(parsed, parsed.url);
+  return { login: parsed };
+}
+
+/**
+ * Origins a credential variable may be typed into, from its `_ORIGINS` companion
+ */
+export function credentialOrigins(envName: string): string[] {
+  return (process.env[envName + AUTH_ORIGINS_SUFFIX] || '')
+    .split(',')
+    .map(entry => {
+      try {
+        return new URL(entry.trim()).origin;
+      } catch {
+        return '';
+      }
+    })
+    .filter(origin => origin && origin !== 'null');
+}
+
+/**
+ * Refuse to use a recipe's credentials on a page outside their allowed origins
+ */
+function checkCredentialOrigin(login: LoginRecipe, url: string) {
+  const { origin } = new URL(url);
+  [login.usernameEnv, login.passwordEnv].forEach(name => {
+    if (!credentialOrigins(name).includes(origin)) {
+      throw new AuthConfigError(`${name} may not be used on ${origin}: list it in ${name}${AUTH_ORIGINS_SUFFIX} on the server`);
+    }
+  });
+}
+
+/**
+ * Resolve a storage state file against AUTH_STATE_DIR. Unless `allowOutside`
+ * is set (the CLI reads local files), the file must stay inside that directory.
+ */
+export function resolveStorageStatePath(file: string, allowOutside = false): string {
+  const resolved = path.resolve(AUTH_STATE_DIR, file);
+  if (!allowOutside && !resolved.startsWith(AUTH_STATE_DIR + path.sep)) {
+    throw new AuthConfigError(`Storage state file must be inside ${AUTH_STATE_DIR}`);
+  }
+  return resolved;
+}
+
+/**
+ * Keep only the cookie fields Chrome accepts. Session cookies are saved with
+ * `expires: -1`, which Chrome would read as already expired.
+ */
+function toCookieData(cookie: any): CookieData {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    expires: cookie.expires > 0 ? cookie.expires : undefined,
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite: cookie.sameSite
+  };
+}
+
+async function loadStorageState(file: string, allowOutside: boolean): Promise<StorageState> {
+  const raw = JSON.parse(await fs.readFile(resolveStorageStatePath(file, allowOutside), 'utf-8'));
+  return {
+    cookies: Array.isArray(raw.cookies) ? raw.cookies.map(toCookieData) : [],
+    origins: Array.isArray(raw.origins) ? raw.origins : []
+  };
+}
+
+/**
+ * Fill in and submit the login form, then capture the resulting state
+ */
+async function runLoginRecipe(page: Page, login: LoginRecipe): Promise<StorageState> {
+  const username = process.env[login.usernameEnv];
+  const password = process.env[login.passwordEnv];
+  if (!username || !password) {
+    throw new Error(`Login credentials missing: set ${login.usernameEnv} and ${login.passwordEnv}`);
+  }
+
+  checkCredentialOrigin(login, login.url);
+  await page.goto(login.url, { waitUntil: 'domcontentloaded', timeout: LOGIN_TIMEOUT_MS });
+  // The login page may have redirected somewhere the credentials don't belong
+  checkCredentialOrigin(login, page.url());
+  await page.waitForSelector(login.usernameSelector, { timeout: LOGIN_TIMEOUT_MS });
+  await page.type(login.usernameSelector, username);
+  await page.type(login.passwordSelector, password);
+
+  try {
+    await Promise.all([
+      login.successSelector
+        ? page.waitForSelector(login.successSelector, { timeout: LOGIN_TIMEOUT_MS })
+        : page.waitForNavigation({ waitUntil: 'networkidle2', timeout: LOGIN_TIMEOUT_MS }),
+      page.click(login.submitSelector)
+    ]);
+  } catch (error) {
+    throw new Error(`Login failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const localStorage = await page.evaluate(() =>
+    Object.keys(window.localStorage).map(name => ({ name, value: window.localStorage.getItem(name) || '' }))
+  );
+
+  return {
+    cookies: (await page.browserContext().cookies()).map(toCookieData),
+    origins: [{ origin: new URL(page.url()).origin, localStorage }]
+  };
+}
+
+/**
+ * Copy cookies and localStorage into the page's browser context
+ */
+async function applyStorageState(page: Page, state: StorageState) {
+  if (state.cookies.length > 0) {
+    await page.browserContext().setCookie(...state.cookies);
+  }
+
+  if (state.origins.length > 0) {
+    // localStorage can only be written from its own origin, so seed it on every navigation
+    await page.evaluateOnNewDocument((origins: StorageState['origins']) => {
+      const entry = origins.find(item => item.origin === window.location.origin);
+      entry?.localStorage.forEach(({ name, value }) => window.localStorage.setItem(name, value));
+    }, state.origins);
+  }
+}
+
+/**
+ * Authenticates audit pages for one batch. The login recipe runs once and the
+ * captured state is copied into every later browser context, so each audit
+ * stays isolated without logging in per URL. Storage state files are read
+ * from AUTH_STATE_DIR unless `allowOutside` is set (the CLI's local files).
+ */
+export class AuthSession {
+  private state: Promise<StorageState> | null = null;
+
+  constructor(private readonly auth: AuthConfig, private readonly allowOutside = false) {}
+
+  async authenticate(page: Page, onProgress?: (message: string) => void) {
+    if (!this.state) {
+      if (this.auth.storageState) {
+        onProgress?.(`Loading storage state from ${this.auth.storageState}`);
+        this.state = loadStorageState(this.auth.storageState, this.allowOutside);
+      } else if (this.auth.login) {
+        onProgress?.(`Logging in at ${this.auth.login.url}`);
+        this.state = runLoginRecipe(page, this.auth.login);
+      } else {
+        return;
+      }
+    }
+
+    const pending = this.state;
+    let state: StorageState;
+    try {
+      state = await pending;
+    } catch (error) {
+      // Let the next page try again rather than fail the rest of the batch
+      if (this.state === pending) this.state = null;
+      throw error;
+    }
+    await applyStorageState(page, state);
+  }
+}
@@ -0,0 +1,165 @@
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer';
+import * as chromeLauncher from 'chrome-launcher';
+
+/**
+ * Chrome flags shared by every launch (Vercel-compatible)
+ */
+export const CHROME_FLAGS = [
+  '--headless',
+  '--disable-gpu',
+  '--no-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-setuid-sandbox',
+  '--no-first-run',
+  '--no-zygote',
+  '--single-process',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding'
+];
+
+/**
+ * Audits run on one Chrome before it is restarted to shed leaked memory
+ */
+export const DEFAULT_RECYCLE_AFTER = parseInt(process.env.CHROME_RECYCLE_AFTER || '', 10) || 25;
+
+export interface IsolatedPage {
+  page: Page;
+  port: number;
+}
+
+/**
+ * Keeps one Chrome alive across a batch of audits. Each audit gets its own
+ * browser context (separate cookies, cache and storage), Chrome is relaunched
+ * when it crashes, and it is recycled after `recycleAfter` audits.
+ */
+export class BrowserManager {
+  private chrome: chromeLauncher.LaunchedChrome | null = null;
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private auditsSinceLaunch = 0;
+  private crashed = false;
+  private closed = false;
+
+  constructor(private readonly recycleAfter = DEFAULT_RECYCLE_AFTER) {}
+
+  /**
+   * Run `task` on a fresh page in its own browser context. If Chrome dies
+   * during the task it is relaunched and the task is retried once.
+   */
+  async withPage<T>(task: (isolated: IsolatedPage) => Promise<T>): Promise<T> {
+    try {
+      return await this.runInContext(task);
+    } catch (error) {
+      if (!this.crashed) throw error;
+      console.warn('Chrome crashed during audit, restarting and retrying once:', error);
+      return this.runInContext(task);
+    }
+  }
+
+  /**
+   * Kill Chrome and disconnect Puppeteer. In-flight tasks fail and no new
+   * Chrome is launched afterwards, which is how running audits are cancelled.
+   */
+  async close() {
+    this.closed = true;
+    await this.shutdown();
+  }
+
+  private async shutdown() {
+    const browser = this.browser;
+    const chrome = this.chrome;
+    this.browser = null;
+    this.chrome = null;
+    this.launching = null;
+    this.auditsSinceLaunch = 0;
+
+    if (browser) {
+      await browser.disconnect().catch(() => undefined);
+    }
+    if (chrome) {
+      try {
+        chrome.kill();
+      } catch (error) {
+        console.error('Failed to kill Chrome:', error);
+      }
+    }
+  }
+
+  private async runInContext<T>(task: (isolated: IsolatedPage) => Promise<T>): Promise<T> {
+    const browser = await this.acquire();
+    const port = this.chrome!.port;
+    let context: BrowserContext | null = null;
+
+    try {
+      context = await browser.createBrowserContext();
+      const page = await context.newPage();
+      return await task({ page, port });
+    } finally {
+      this.auditsSinceLaunch++;
+      if (context && browser.connected) {
+        await context.close().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Return a healthy browser, relaunching after a crash or once the recycle limit is hit
+   */
+  private async acquire(): Promise<Browser> {
+    if (this.closed) throw new Error('Browser was closed');
+    if (this.launching) return this.launching;
+
+    const healthy = this.browser && this.browser.connected && !this.crashed;
+    if (healthy && this.auditsSinceLaunch < this.recycleAfter) {
+      return this.browser!;
+    }
+
+    if (this.browser || this.chrome) {
+      await this.shutdown();
+    }
+
+    this.launching = this.launch();
+    try {
+      return await this.launching;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  private async launch(): Promise<Browser> {
+    this.crashed = false;
+    this.chrome = await chromeLauncher.launch({
+      chromeFlags: CHROME_FLAGS,
+      // Use system Chrome on Vercel
+      chromePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined
+    });
+
+    const chrome = this.chrome;
+    if (this.closed) {
+      // Closed while Chrome was starting
+      chrome.kill();
+      throw new Error('Browser was closed');
+    }
+    chrome.process.once('exit', () => {
+      if (this.chrome === chrome) this.crashed = true;
+    });
+
+    const browser = await puppeteer.connect({
+      browserURL: `http://localhost:${chrome.port}`
+    });
+    browser.once('disconnected', () => {
+      if (this.browser === browser) this.crashed = true;
+    });
+
+    if (this.closed) {
+      await browser.disconnect().catch(() => undefined);
+      chrome.kill();
+      throw new Error('Browser was closed');
+    }
+
+    this.browser = browser;
+    this.auditsSinceLaunch = 0;
+    return browser;
+  }
+}
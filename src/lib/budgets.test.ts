@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BudgetParseError, describeBudgetFailure, evaluateBudgets, parseBudgets } from './budgets';
+
+const scores = { performance: 72, accessibility: 95, 'best-practices': 92, seo: 100, pwa: 'N/A' as const };
+
+describe('parseBudgets', () => {
+  it('reads the same budgets from YAML and JSON', () => {
+    const yaml = [
+      'budgets:',
+      '  - path: /blog/**',
+      '    scores:',
+      '      performance: 80',
+      '    metrics:',
+      '      lcp: 2500'
+    ].join('\n');
+    const json = JSON.stringify([{ path: '/blog/**', scores: { performance: 80 }, metrics: { lcp: 2500 } }]);
+
+    assert.deepEqual(parseBudgets(yaml), [{ path: '/blog/**', scores: { performance: 80 }, metrics: { lcp: 2500 } }]);
+    assert.deepEqual(parseBudgets(json), parseBudgets(yaml));
+    assert.deepEqual(parseBudgets('  \n'), []);
+  });
+
+  it('reports syntax errors as BudgetParseError', () => {
+    assert.throws(() => parseBudgets('[{"path": "/"'), (error: Error) =>
+      error instanceof BudgetParseError && error.message.startsWith('Invalid budget file: '));
+    assert.throws(() => parseBudgets('budgets:\n  - path: /\n   scores: {'), BudgetParseError);
+  });
+
+  it('names the budget and field of invalid entries', () => {
+    [
+      ['path: /', /Budgets must be a list/],
+      ['- 42', /Budget #1 must be an object/],
+      ['- path: /\n- scores: {}', /Budget #2 needs a "path" pattern/],
+      ['- path: /\n  scores:', /Budget #1: "scores" must map categories/],
+      ['- path: /\n  metrics:', /Budget #1: "metrics" must map metric names/],
+      ['- path: /\n  scores: { pwa: 50 }', /unknown score category "pwa"/],
+      ['- path: /\n  scores: { seo: 101 }', /score for "seo" must be a number between 0 and 100/],
+      ['- path: /\n  metrics: { inp: 200 }', /unknown metric "inp" \(expected one of lcp, /],
+      ['- path: /\n  metrics: { lcp: "2.5s" }', /limit for "lcp" must be a non-negative number/]
+    ].forEach(([text, message]) => assert.throws(() => parseBudgets(text as string), message as RegExp));
+  });
+});
+
+describe('evaluateBudgets', () => {
+  const budgets = parseBudgets(JSON.stringify([
+    { path: '**', scores: { performance: 50, seo: 90 }, metrics: { lcp: 4000 } },
+    { path: '/blog/**', scores: { performance: 80 }, metrics: { lcp: 2500, tbt: 300 } },
+    { path: '/blog/*/amp', metrics: { lcp: 2000 } }
+  ]));
+
+  it('ignores URLs no budget matches', () => {
+    assert.equal(evaluateBudgets('https://example.com/', scores, {}, budgets.slice(1)), undefined);
+  });
+
+  it('lets later matching budgets override earlier thresholds', () => {
+    const evaluation = evaluateBudgets('https://example.com/blog/post/amp', scores, { lcp: 2200, tbt: 120 }, budgets)!;
+
+    assert.deepEqual(evaluation.matched, ['**', '/blog/**', '/blog/*/amp']);
+    assert.equal(evaluation.passed, false);
+    assert.deepEqual(evaluation.checks.map(check => [check.name, check.limit, check.passed]), [
+      ['performance', 80, false],
+      ['seo', 90, true],
+      ['lcp', 2000, false],
+      ['tbt', 300, true]
+    ]);
+  });
+
+  it('matches single-star patterns within one path segment', () => {
+    const evaluation = evaluateBudgets('https://example.com/blog/2026/post/amp', scores, { lcp: 2200, tbt: 120 }, budgets)!;
+    assert.deepEqual(evaluation.matched, ['**', '/blog/**']);
+    assert.equal(evaluation.checks.find(check => check.name === 'lcp')!.limit, 2500);
+  });
+
+  it('fails metric checks without a measured value', () => {
+    const evaluation = evaluateBudgets('https://example.com/', { ...scores, performance: 90 }, {}, budgets)!;
+    const lcp = evaluation.checks.find(check => check.name === 'lcp')!;
+    assert.deepEqual([lcp.actual, lcp.passed], [null, false]);
+    assert.equal(describeBudgetFailure(lcp), 'LCP n/a > 4000 ms');
+  });
+});
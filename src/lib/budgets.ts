@@ -0,0 +1,190 @@
+import YAML from 'yaml';
+import type { Result as LighthouseResult } from 'lighthouse';
+import { LAB_METRICS } from './metrics';
+import { matchesUrlPattern } from './utils';
+import {
+  AuditResult,
+  BudgetCheck,
+  BudgetEvaluation,
+  BudgetMetric,
+  PerformanceBudget,
+  ScoreCategory
+} from '@/types';
+
+const { lcp, fcp, tbt, cls, speedIndex, tti } = LAB_METRICS;
+
+/**
+ * Budgetable metrics and the Lighthouse audit each one is read from: the lab
+ * metrics other than server response time, plus page weight
+ */
+export const BUDGET_METRICS: Record<BudgetMetric, { auditId: string; label: string; unit: 'ms' | 'bytes' | 'unitless' }> = {
+  lcp,
+  fcp,
+  tbt,
+  cls,
+  speedIndex,
+  tti,
+  totalByteWeight: { auditId: 'total-byte-weight', label: 'Total Size', unit: 'bytes' }
+};
+
+const SCORE_CATEGORIES: ScoreCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+export class BudgetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetParseError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validate an untrusted value (parsed file, request body) as a budget list
+ */
+export function validateBudgets(value: unknown): PerformanceBudget[] {
+  const list = isObject(value) && 'budgets' in value ? value.budgets : value;
+
+  if (!Array.isArray(list)) {
+    throw new BudgetParseError('Budgets must be a list (or an object with a "budgets" list)');
+  }
+
+  return list.map((entry, index) => {
+    const where = `Budget #${index + 1}`;
+    if (!isObject(entry)) {
+      throw new BudgetParseError(`${where} must be an object`);
+    }
+
+    const { path, scores, metrics } = entry;
+    if (typeof path !== 'string' || path.length === 0) {
+      throw new BudgetParseError(`${where} needs a "path" pattern`);
+    }
+
+    const budget: PerformanceBudget = { path };
+
+    if (scores !== undefined) {
+      // An empty YAML key (`scores:`) parses as null
+      if (!isObject(scores)) {
+        throw new BudgetParseError(`${where}: "scores" must map categories to minimum scores`);
+      }
+      budget.scores = {};
+      Object.entries(scores).forEach(([category, limit]) => {
+        if (!SCORE_CATEGORIES.includes(category as ScoreCategory)) {
+          throw new BudgetParseError(`${where}: unknown score category "${category}"`);
+        }
+        if (typeof limit !== 'number' || limit < 0 || limit > 100) {
+          throw new BudgetParseError(`${where}: score for "${category}" must be a number between 0 and 100`);
+        }
+        budget.scores![category as ScoreCategory] = limit;
+      });
+    }
+
+    if (metrics !== undefined) {
+      if (!isObject(metrics)) {
+        throw new BudgetParseError(`${where}: "metrics" must map metric names to limits`);
+      }
+      budget.metrics = {};
+      Object.entries(metrics).forEach(([metric, limit]) => {
+        if (!(metric in BUDGET_METRICS)) {
+          throw new BudgetParseError(
+            `${where}: unknown metric "${metric}" (expected one of ${Object.keys(BUDGET_METRICS).join(', ')})`
+          );
+        }
+        if (typeof limit !== 'number' || limit < 0) {
+          throw new BudgetParseError(`${where}: limit for "${metric}" must be a non-negative number`);
+        }
+        budget.metrics![metric as BudgetMetric] = limit;
+      });
+    }
+
+    return budget;
+  });
+}
+
+/**
+ * Parse budgets from JSON or YAML text
+ */
+export function parseBudgets(text: string): PerformanceBudget[] {
+  if (text.trim().length === 0) return [];
+
+  let parsed: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    parsed = YAML.parse(text);
+  } catch (error) {
+    throw new BudgetParseError(`Invalid budget file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateBudgets(parsed);
+}
+
+/**
+ * Read the budgetable metric values out of an LHR
+ */
+export function extractBudgetMetrics(lhr: LighthouseResult): Partial<Record<BudgetMetric, number>> {
+  const values: Partial<Record<BudgetMetric, number>> = {};
+  (Object.keys(BUDGET_METRICS) as BudgetMetric[]).forEach(metric => {
+    const numericValue = lhr.audits[BUDGET_METRICS[metric].auditId]?.numericValue;
+    if (typeof numericValue === 'number') values[metric] = numericValue;
+  });
+  return values;
+}
+
+/**
+ * Check a result against every budget whose pattern matches its URL. When
+ * several budgets set the same threshold, the later one wins.
+ */
+export function evaluateBudgets(
+  url: string,
+  scores: NonNullable<AuditResult['scores']>,
+  metrics: Partial<Record<BudgetMetric, number>>,
+  budgets: PerformanceBudget[]
+): BudgetEvaluation | undefined {
+  const matching = budgets.filter(budget => matchesUrlPattern(url, budget.path));
+  if (matching.length === 0) return undefined;
+
+  const scoreLimits: Partial<Record<ScoreCategory, number>> = {};
+  const metricLimits: Partial<Record<BudgetMetric, number>> = {};
+  matching.forEach(budget => {
+    Object.assign(scoreLimits, budget.scores);
+    Object.assign(metricLimits, budget.metrics);
+  });
+
+  const checks: BudgetCheck[] = [];
+  (Object.keys(scoreLimits) as ScoreCategory[]).forEach(category => {
+    const limit = scoreLimits[category]!;
+    checks.push({ type: 'score', name: category, limit, actual: scores[category], passed: scores[category] >= limit });
+  });
+  (Object.keys(metricLimits) as BudgetMetric[]).forEach(metric => {
+    const limit = metricLimits[metric]!;
+    const actual = metrics[metric] ?? null;
+    checks.push({ type: 'metric', name: metric, limit, actual, passed: actual !== null && actual <= limit });
+  });
+
+  return {
+    matched: matching.map(budget => budget.path),
+    passed: checks.every(check => check.passed),
+    checks
+  };
+}
+
+/**
+ * Format a budget value with its unit for display
+ */
+export function formatBudgetValue(check: Pick<BudgetCheck, 'type' | 'name'>, value: number | null): string {
+  if (value === null) return 'n/a';
+  if (check.type === 'score') return String(Math.round(value));
+
+  const { unit } = BUDGET_METRICS[check.name as BudgetMetric];
+  if (unit === 'ms') return `${Math.round(value)} ms`;
+  if (unit === 'bytes') return `${Math.round(value / 1024)} KiB`;
+  return value.toFixed(3);
+}
+
+/**
+ * One-line description of a failed check, e.g. "LCP 3120 ms > 2500 ms"
+ */
+export function describeBudgetFailure(check: BudgetCheck): string {
+  const label = check.type === 'score' ? check.name : BUDGET_METRICS[check.name as BudgetMetric].label;
+  const comparator = check.type === 'score' ? '<' : '>';
+  return `${label} ${formatBudgetValue(check, check.actual)} ${comparator} ${formatBudgetValue(check, check.limit)}`;
+}
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { compareSessions } from './compare';
+import { PUBLIC_REPORTS_DIR, toPublicReportPath } from './reports';
+import { AuditResult, AuditSession } from '@/types';
+
+let dir: string;
+
+// Saves a minimal LHR and returns a result pointing at it
+async function audited(
+  url: string,
+  scores: Record<string, number>,
+  opportunities: Record<string, number> = {},
+  extra: Partial<AuditResult> = {}
+): Promise<AuditResult> {
+  const lhr = {
+    categories: Object.keys(scores).reduce<Record<string, { score: number }>>((categories, id) => {
+      categories[id] = { score: scores[id] / 100 };
+      return categories;
+    }, {}),
+    audits: Object.keys(opportunities).reduce<Record<string, unknown>>((audits, title) => {
+      audits[title] = { title, numericValue: opportunities[title], details: { type: 'opportunity' } };
+      return audits;
+    }, {})
+  };
+  const file = path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+  await fs.writeFile(file, JSON.stringify(lhr));
+  return { url, reportPaths: { html: toPublicReportPath(file.replace(/json$/, 'html')), json: toPublicReportPath(file) }, ...extra };
+}
+
+function session(sessionId: string, results: AuditResult[], formFactor: 'desktop' | 'mobile' = 'desktop'): AuditSession {
+  return {
+    sessionId,
+    status: 'completed',
+    config: { formFactor },
+    urls: results.map(result => result.url),
+    results,
+    progress: results.length,
+    total: results.length,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+describe('compareSessions', () => {
+  before(async () => {
+    await fs.mkdir(PUBLIC_REPORTS_DIR, { recursive: true });
+    dir = await fs.mkdtemp(path.join(PUBLIC_REPORTS_DIR, 'compare-test-'));
+  });
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('diffs URLs audited in both sessions and lists the rest as unmatched', async () => {
+    const base = session('base', [
+      await audited('https://example.com/', { performance: 90, seo: 100 }, { 'Reduce unused JavaScript': 1200, 'Defer offscreen images': 300 }),
+      await audited('https://example.com/removed', { performance: 80 })
+    ]);
+    const head = session('head', [
+      await audited('https://example.com/', { performance: 84, seo: 96 }, { 'Reduce unused JavaScript': 1500, 'Minify CSS': 40 }),
+      await audited('https://example.com/added', { performance: 70 })
+    ]);
+    const run = await compareSessions(base, head);
+
+    assert.deepEqual(run.comparisons.map(c => c.url), ['https://example.com/']);
+    assert.deepEqual(run.unmatched, ['https://example.com/added', 'https://example.com/removed']);
+    assert.equal(run.regressions, 1);
+
+    const [comparison] = run.comparisons;
+    assert.deepEqual(comparison.categories.map(c => [c.category, c.delta, c.regression]), [
+      ['performance', -6, true],
+      ['accessibility', null, false],
+      ['best-practices', null, false],
+      ['seo', -4, false]
+    ]);
+    assert.deepEqual(comparison.appeared, ['Minify CSS']);
+    assert.deepEqual(comparison.disappeared, ['Defer offscreen images']);
+    assert.deepEqual(comparison.changed, [{ title: 'Reduce unused JavaScript', base: 1200, head: 1500, delta: 300 }]);
+  });
+
+  it('counts a drop of exactly the threshold as a regression', async () => {
+    const base = session('base', [await audited('https://example.com/', { performance: 90 })]);
+    const head = session('head', [await audited('https://example.com/', { performance: 87 })]);
+
+    assert.equal((await compareSessions(base, head, 3)).regressions, 1);
+    assert.equal((await compareSessions(base, head, 4)).regressions, 0);
+  });
+
+  it('pairs results by form factor and profile', async () => {
+    const base = session('base', [await audited('https://example.com/', { performance: 90 })], 'mobile');
+    const head = session('head', [
+      await audited('https://example.com/', { performance: 90 }),
+      await audited('https://example.com/', { performance: 90 }, {}, { formFactor: 'mobile', profile: 'Mobile (default)' })
+    ]);
+    const run = await compareSessions(base, head);
+
+    assert.deepEqual(run.comparisons.map(c => [c.formFactor, c.profile]), [['mobile', 'Mobile (default)']]);
+    assert.deepEqual(run.unmatched, ['https://example.com/']);
+  });
+
+  it('reports a missing or unreadable report instead of failing the run', async () => {
+    const base = session('base', [
+      { url: 'https://example.com/', error: 'Timed out' },
+      { url: 'https://example.com/gone', reportPaths: { html: '/reports/missing.html', json: '/reports/missing.json' } }
+    ]);
+    const head = session('head', [
+      await audited('https://example.com/', { performance: 90 }),
+      await audited('https://example.com/gone', { performance: 90 })
+    ]);
+    const run = await compareSessions(base, head);
+
+    assert.equal(run.comparisons[0].error, 'Timed out');
+    assert.match(run.comparisons[1].error!, /^Could not read saved report: /);
+    assert.equal(run.regressions, 0);
+  });
+});
@@ -0,0 +1,154 @@
+import type { Result as LighthouseResult } from 'lighthouse';
+import { readLhr, extractOpportunities } from './reports';
+import { resolveProfile } from './profiles';
+import {
+  AuditResult,
+  AuditSession,
+  CategoryDelta,
+  LighthouseConfig,
+  OpportunityChange,
+  RunComparison,
+  ScoreCategory,
+  UrlComparison
+} from '@/types';
+
+/**
+ * Score drop (in points) that counts as a regression when none is given
+ */
+export const DEFAULT_REGRESSION_THRESHOLD = 5;
+
+const CATEGORIES: ScoreCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+function categoryScore(lhr: LighthouseResult, category: ScoreCategory): number | null {
+  const score = lhr.categories[category]?.score;
+  return score === undefined || score === null ? null : Math.round(score * 100);
+}
+
+function opportunityValues(lhr: LighthouseResult): Map<string, number | undefined> {
+  return new Map(extractOpportunities(lhr).map(o => [o.title, o.numericValue] as [string, number | undefined]));
+}
+
+/**
+ * Diff two audits of the same URL using the LHR JSON saved for each
+ */
+export async function compareResults(
+  base: AuditResult,
+  head: AuditResult,
+  formFactor: LighthouseConfig['formFactor'],
+  threshold: number
+): Promise<UrlComparison> {
+  const comparison: UrlComparison = {
+    url: head.url,
+    formFactor,
+    baseReport: base.reportPaths?.html,
+    headReport: head.reportPaths?.html,
+    categories: [],
+    appeared: [],
+    disappeared: [],
+    changed: [],
+    regression: false
+  };
+
+  if (!base.reportPaths || !head.reportPaths) {
+    comparison.error = base.error || head.error || 'Report missing for one of the runs';
+    return comparison;
+  }
+
+  let baseLhr: LighthouseResult;
+  let headLhr: LighthouseResult;
+  try {
+    [baseLhr, headLhr] = await Promise.all([
+      readLhr(base.reportPaths.json),
+      readLhr(head.reportPaths.json)
+    ]);
+  } catch (error) {
+    comparison.error = `Could not read saved report: ${error instanceof Error ? error.message : String(error)}`;
+    return comparison;
+  }
+
+  comparison.categories = CATEGORIES.map((category): CategoryDelta => {
+    const baseScore = categoryScore(baseLhr, category);
+    const headScore = categoryScore(headLhr, category);
+    const delta = baseScore !== null && headScore !== null ? headScore - baseScore : null;
+    return {
+      category,
+      base: baseScore,
+      head: headScore,
+      delta,
+      regression: delta !== null && delta < 0 && -delta >= threshold
+    };
+  });
+
+  const baseOpportunities = opportunityValues(baseLhr);
+  const headOpportunities = opportunityValues(headLhr);
+
+  headOpportunities.forEach((headValue, title) => {
+    if (!baseOpportunities.has(title)) {
+      comparison.appeared.push(title);
+      return;
+    }
+
+    const baseValue = baseOpportunities.get(title);
+    if (baseValue !== undefined && headValue !== undefined && Math.round(headValue - baseValue) !== 0) {
+      comparison.changed.push({ title, base: baseValue, head: headValue, delta: headValue - baseValue });
+    }
+  });
+  baseOpportunities.forEach((_, title) => {
+    if (!headOpportunities.has(title)) comparison.disappeared.push(title);
+  });
+
+  comparison.changed.sort((a: OpportunityChange, b: OpportunityChange) =>
+    Math.abs(b.delta || 0) - Math.abs(a.delta || 0)
+  );
+  comparison.regression = comparison.categories.some(c => c.regression);
+
+  return comparison;
+}
+
+/**
+ * Compare every URL/profile pair audited in both sessions
+ */
+export async function compareSessions(
+  base: AuditSession,
+  head: AuditSession,
+  threshold = DEFAULT_REGRESSION_THRESHOLD
+): Promise<RunComparison> {
+  // Results from before profiles existed ran with their form factor's default profile
+  const keyFor = (session: AuditSession, result: AuditResult) => {
+    const formFactor = result.formFactor || session.config.formFactor;
+    return `${formFactor}|${result.profile || resolveProfile({ formFactor }).name}|${result.url}`;
+  };
+
+  const baseResults = new Map<string, AuditResult>();
+  base.results.forEach(result => baseResults.set(keyFor(base, result), result));
+
+  const matched = new Set<string>();
+  const comparisons: UrlComparison[] = [];
+
+  for (const result of head.results) {
+    const key = keyFor(head, result);
+    const baseResult = baseResults.get(key);
+    if (!baseResult) continue;
+
+    matched.add(key);
+    const formFactor = (result.formFactor || head.config.formFactor) as LighthouseConfig['formFactor'];
+    comparisons.push({ ...await compareResults(baseResult, result, formFactor, threshold), profile: result.profile });
+  }
+
+  const unmatched = new Set<string>();
+  head.results.forEach(result => {
+    if (!matched.has(keyFor(head, result))) unmatched.add(result.url);
+  });
+  base.results.forEach(result => {
+    if (!matched.has(keyFor(base, result))) unmatched.add(result.url);
+  });
+
+  return {
+    baseSessionId: base.sessionId,
+    headSessionId: head.sessionId,
+    threshold,
+    comparisons,
+    regressions: comparisons.filter(c => c.regression).length,
+    unmatched: Array.from(unmatched)
+  };
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CronError, nextCronTime, parseCron } from './cron';
+
+// Local time, like the scheduler; Thursday 1 January 2026, 00:00
+const at = (month: number, day: number, hour = 0, minute = 0, second = 0) => new Date(2026, month - 1, day, hour, minute, second);
+
+describe('parseCron', () => {
+  it('expands macros', () => {
+    assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+    assert.deepEqual(parseCron(' @WEEKLY '), parseCron('0 0 * * 0'));
+  });
+
+  it('folds day of week 7 onto Sunday', () => {
+    assert.equal(parseCron('0 0 * * 7').daysOfWeek[0], true);
+  });
+
+  it('reads month and day names', () => {
+    const cron = parseCron('0 0 * Jan,jul mon-fri');
+    assert.deepEqual([1, 7].map(month => cron.months[month]), [true, true]);
+    assert.equal(cron.months[2], undefined);
+    assert.deepEqual([0, 1, 5, 6].map(day => !!cron.daysOfWeek[day]), [false, true, true, false]);
+  });
+
+  it('treats day fields starting with * as unrestricted', () => {
+    const cron = parseCron('0 0 */2 * 1-5');
+    assert.equal(cron.dayOfMonthRestricted, false);
+    assert.equal(cron.dayOfWeekRestricted, true);
+  });
+
+  it('rejects malformed expressions', () => {
+    [
+      '0 0 * *',
+      '0 0 * * * *',
+      '60 * * * *',
+      '* 24 * * *',
+      '* * 0 * *',
+      '* * * 13 *',
+      '* * * * 8',
+      '*/0 * * * *',
+      '*/x * * * *',
+      '30-10 * * * *',
+      'foo * * * *'
+    ].forEach(expression => assert.throws(() => parseCron(expression), CronError, expression));
+  });
+});
+
+describe('nextCronTime', () => {
+  it('returns the next match strictly after the given time', () => {
+    assert.deepEqual(nextCronTime('0 * * * *', at(1, 1, 10)), at(1, 1, 11));
+    assert.deepEqual(nextCronTime('* * * * *', at(1, 1, 10, 0, 30)), at(1, 1, 10, 1));
+  });
+
+  it('follows steps from the start of a range or value', () => {
+    assert.deepEqual(nextCronTime('*/15 * * * *', at(1, 1, 10, 7)), at(1, 1, 10, 15));
+    assert.deepEqual(nextCronTime('5/20 * * * *', at(1, 1, 10, 26)), at(1, 1, 10, 45));
+    assert.deepEqual(nextCronTime('0 9-17/4 * * *', at(1, 1, 10)), at(1, 1, 13));
+    assert.deepEqual(nextCronTime('0 9-17/4 * * *', at(1, 1, 17)), at(1, 2, 9));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday
+    assert.deepEqual(nextCronTime('0 0 13 * 5', at(1, 1)), at(1, 2));
+    assert.deepEqual(nextCronTime('0 0 13 * 5', at(1, 10)), at(1, 13));
+  });
+
+  it('matches both day fields when one starts with *', () => {
+    // Mondays on odd days of the month: 5 January, not Saturday 3 January
+    assert.deepEqual(nextCronTime('0 0 */2 * 1', at(1, 1)), at(1, 5));
+    assert.deepEqual(nextCronTime('0 0 * * 7', at(1, 1)), at(1, 4));
+  });
+
+  it('rolls over months and years', () => {
+    assert.deepEqual(nextCronTime('30 6 * feb mon-fri', at(1, 1)), at(2, 2, 6, 30));
+    assert.deepEqual(nextCronTime('0 0 31 * *', at(1, 31, 12)), at(3, 31));
+    assert.deepEqual(nextCronTime('0 0 29 2 *', at(1, 1)), new Date(2028, 1, 29));
+    assert.deepEqual(nextCronTime('@yearly', at(12, 31, 23, 59)), new Date(2027, 0, 1));
+  });
+
+  it('returns null for dates that never come', () => {
+    assert.equal(nextCronTime('0 0 31 2 *', at(1, 1)), null);
+  });
+});
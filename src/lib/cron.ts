@@ -0,0 +1,168 @@
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+/**
+ * Parsed five-field cron expression; each field lists the values it allows
+ */
+export interface CronExpression {
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  // Standard cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: 'minute', min: 0, max: 59 },
+  { label: 'hour', min: 0, max: 23 },
+  { label: 'day of month', min: 1, max: 31 },
+  { label: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded onto 0
+  { label: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+];
+
+// Give up after this many years without a match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (named >= 0) return named + spec.min;
+
+  if (!/^\d+$/.test(raw)) {
+    throw new CronError(`Invalid ${spec.label} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronError(`${spec.label[0].toUpperCase()}${spec.label.slice(1)} must be between ${spec.min} and ${spec.max}, got ${value}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): boolean[] {
+  const allowed: boolean[] = [];
+  field.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronError(`Invalid ${spec.label} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronError(`Invalid ${spec.label} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 from 5 onwards
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      allowed[value] = true;
+    }
+  });
+  return allowed;
+}
+
+/**
+ * Parse a standard five-field cron expression (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps, month/day names and @daily-style macros
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] || trimmed;
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5 || !fields[0]) {
+    throw new CronError(`Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek[7]) daysOfWeek[0] = true;
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = !!cron.daysOfMonth[date.getDate()];
+  const dayOfWeek = !!cron.daysOfWeek[date.getDay()];
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` (in server local time) that the expression
+ * matches, or null if it never does
+ */
+export function nextCronTime(expression: string | CronExpression, after: Date): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getFullYear() <= limit) {
+    if (!cron.months[date.getMonth() + 1]) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!cron.hours[date.getHours()]) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes[date.getMinutes()]) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -0,0 +1,334 @@
+import type { Result as LighthouseResult } from 'lighthouse';
+import { extractScores } from './reports';
+import { extractLabMetrics } from './metrics';
+import { formatBytes, formatDuration } from './utils';
+import {
+  AuditItemSummary,
+  FailedAuditGroup,
+  FilmstripFrame,
+  FixIssue,
+  OpportunityDetail,
+  ResourceSummary,
+  ResultDetail,
+  ThirdPartySummary
+} from '@/types';
+
+/**
+ * Number of network requests listed as the largest resources
+ */
+export const LARGEST_RESOURCES_LIMIT = 15;
+
+// Lighthouse treats anything below this score as failing
+const PASS_THRESHOLD = 0.9;
+
+const SCORED_MODES = ['binary', 'numeric', 'metricSavings'];
+
+type MetricSavings = NonNullable<LighthouseResult['audits'][string]['metricSavings']>;
+
+// Metric savings reported in milliseconds (CLS savings are unitless)
+const TIMING_SAVINGS: Array<keyof MetricSavings> = ['LCP', 'FCP', 'TBT', 'INP'];
+
+/**
+ * The parts of audit details read here. Saved reports can come from older
+ * Lighthouse versions, so fields are checked before use.
+ */
+interface SavingsDetails {
+  overallSavingsMs?: unknown;
+  overallSavingsBytes?: unknown;
+  debugData?: unknown; // Insight audits put `wastedBytes` here
+}
+
+interface TableHeading {
+  key: string;
+  label?: unknown;
+  valueType?: string;
+}
+
+interface TableDetails {
+  type: 'table' | 'opportunity';
+  headings: unknown[]; // TableHeading, once checked
+  items: unknown[];
+}
+
+interface ListDetails {
+  type: 'list';
+  items: unknown[];
+}
+
+interface ChecklistDetails {
+  type: 'checklist';
+  items: Record<string, { label?: unknown; value?: unknown }>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTableDetails = (details: Record<string, unknown>): details is Record<string, unknown> & TableDetails =>
+  (details.type === 'table' || details.type === 'opportunity') && Array.isArray(details.headings) && Array.isArray(details.items);
+
+const isListDetails = (details: Record<string, unknown>): details is Record<string, unknown> & ListDetails =>
+  details.type === 'list' && Array.isArray(details.items);
+
+const isChecklistDetails = (details: Record<string, unknown>): details is Record<string, unknown> & ChecklistDetails =>
+  details.type === 'checklist' && isObject(details.items);
+
+const isTableHeading = (heading: unknown): heading is TableHeading =>
+  isObject(heading) && typeof heading.key === 'string' && !!heading.key;
+
+const asNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Object items of an audit's details, e.g. the rows of a table
+const detailItems = (audit?: LighthouseResult['audits'][string]): Array<Record<string, unknown>> => {
+  const details: unknown = audit?.details;
+  return isObject(details) && Array.isArray(details.items) ? details.items.filter(isObject) : [];
+};
+
+const isFailing = (audit: LighthouseResult['audits'][string]) =>
+  SCORED_MODES.includes(audit.scoreDisplayMode) && audit.score !== null && audit.score < PASS_THRESHOLD;
+
+const summarize = (audit: LighthouseResult['audits'][string]): AuditItemSummary => ({
+  id: audit.id,
+  title: audit.title,
+  displayValue: audit.displayValue,
+  score: audit.score
+});
+
+/**
+ * Failing audits of every category except performance, which is covered by
+ * the opportunities and diagnostics lists instead
+ */
+function extractFailedAudits(lhr: LighthouseResult): FailedAuditGroup[] {
+  return Object.entries(lhr.categories)
+    .filter(([id]) => id !== 'performance')
+    .map(([id, category]) => ({
+      category: id,
+      title: category.title,
+      audits: category.auditRefs
+        .map(ref => lhr.audits[ref.id])
+        .filter(audit => audit && isFailing(audit))
+        .sort((a, b) => (a.score ?? 0) - (b.score ?? 0))
+        .map(summarize)
+    }))
+    .filter(group => group.audits.length > 0);
+}
+
+/**
+ * Estimated savings of an audit. Covers classic opportunity audits
+ * (`overallSavingsMs`/`overallSavingsBytes`) and the newer insight audits
+ * (`metricSavings` and `wastedBytes`).
+ */
+function auditSavings(audit: LighthouseResult['audits'][string]): { savingsMs?: number; savingsBytes?: number } {
+  const raw: unknown = audit.details;
+  const details: SavingsDetails = isObject(raw) ? raw : {};
+  const metricSavings: MetricSavings = audit.metricSavings || {};
+  const timingSavings = TIMING_SAVINGS
+    .map(metric => asNumber(metricSavings[metric]))
+    .filter((value): value is number => value !== undefined);
+
+  const savingsMs = asNumber(details.overallSavingsMs) ?? (timingSavings.length > 0 ? Math.max(...timingSavings) : undefined);
+  const savingsBytes = asNumber(details.overallSavingsBytes) ?? (isObject(details.debugData) ? asNumber(details.debugData.wastedBytes) : undefined);
+  return {
+    savingsMs: savingsMs ? Math.round(savingsMs) : undefined,
+    savingsBytes: savingsBytes ? Math.round(savingsBytes) : undefined
+  };
+}
+
+const bySavings = (a: { savingsMs?: number; savingsBytes?: number }, b: { savingsMs?: number; savingsBytes?: number }) =>
+  (b.savingsMs || 0) - (a.savingsMs || 0) || (b.savingsBytes || 0) - (a.savingsBytes || 0);
+
+/**
+ * Every performance audit with estimated savings, largest time savings first
+ */
+function extractOpportunityDetails(lhr: LighthouseResult): OpportunityDetail[] {
+  const refs = lhr.categories.performance?.auditRefs || [];
+
+  return refs
+    .map(ref => lhr.audits[ref.id])
+    .filter(Boolean)
+    .map(audit => ({ ...summarize(audit), ...auditSavings(audit) }))
+    .filter(opportunity => opportunity.savingsMs || opportunity.savingsBytes)
+    .sort(bySavings);
+}
+
+/**
+ * Failing or informative diagnostics and insights that carry no savings estimate
+ */
+function extractDiagnostics(lhr: LighthouseResult, opportunities: OpportunityDetail[]): AuditItemSummary[] {
+  const refs = lhr.categories.performance?.auditRefs || [];
+  const opportunityIds = opportunities.map(opportunity => opportunity.id);
+
+  return refs
+    .filter(ref => ref.group === 'diagnostics' || ref.group === 'insights')
+    .map(ref => lhr.audits[ref.id])
+    .filter(audit => audit && !opportunityIds.includes(audit.id))
+    .filter(audit => isFailing(audit) || (audit.scoreDisplayMode === 'informative' && !!audit.displayValue))
+    .map(summarize);
+}
+
+function extractThirdParties(lhr: LighthouseResult): ThirdPartySummary[] {
+  // Lighthouse 13 replaced `third-party-summary` with the third parties insight
+  const audit = lhr.audits['third-parties-insight'] || lhr.audits['third-party-summary'];
+
+  return detailItems(audit).map(item => ({
+    entity: asString(item.entity) || (isObject(item.entity) && asString(item.entity.text)) || 'Unknown',
+    transferSize: asNumber(item.transferSize) || 0,
+    mainThreadTime: asNumber(item.mainThreadTime) ?? asNumber(item.blockingTime) ?? 0
+  }));
+}
+
+function extractLargestResources(lhr: LighthouseResult): ResourceSummary[] {
+  return detailItems(lhr.audits['network-requests'])
+    .map(item => ({
+      url: asString(item.url) || '',
+      resourceType: asString(item.resourceType),
+      transferSize: asNumber(item.transferSize) || 0
+    }))
+    .filter(resource => resource.transferSize > 0)
+    .sort((a, b) => b.transferSize - a.transferSize)
+    .slice(0, LARGEST_RESOURCES_LIMIT);
+}
+
+function extractFilmstrip(lhr: LighthouseResult): FilmstripFrame[] {
+  return detailItems(lhr.audits['screenshot-thumbnails'])
+    .map(item => ({ timing: asNumber(item.timing), data: asString(item.data) }))
+    .filter((frame): frame is FilmstripFrame => frame.timing !== undefined && frame.data !== undefined);
+}
+
+/**
+ * Distill an LHR into the drill-down view of a single result
+ */
+export function buildResultDetail(lhr: LighthouseResult): ResultDetail {
+  const opportunities = extractOpportunityDetails(lhr);
+  const screenshot: unknown = lhr.audits['final-screenshot']?.details;
+
+  return {
+    url: lhr.requestedUrl || lhr.finalDisplayedUrl,
+    finalUrl: lhr.finalDisplayedUrl,
+    fetchTime: lhr.fetchTime,
+    lighthouseVersion: lhr.lighthouseVersion,
+    formFactor: lhr.configSettings?.formFactor,
+    scores: extractScores(lhr),
+    metrics: extractLabMetrics(lhr),
+    failedAudits: extractFailedAudits(lhr),
+    diagnostics: extractDiagnostics(lhr, opportunities),
+    opportunities,
+    thirdParties: extractThirdParties(lhr),
+    largestResources: extractLargestResources(lhr),
+    screenshot: isObject(screenshot) ? asString(screenshot.data) : undefined,
+    filmstrip: extractFilmstrip(lhr)
+  };
+}
+
+/**
+ * Rows the fix assistant sees per audit, and the longest text kept per cell
+ */
+export const FIX_ROWS_LIMIT = 8;
+const FIX_CELL_LIMIT = 300;
+
+const truncate = (text: string, limit: number) => (text.length > limit ? `${text.slice(0, limit - 1)}…` : text);
+
+// Markdown links in audit descriptions become their text
+const plainText = (markdown: string) => markdown.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').trim();
+
+/**
+ * A table cell as text, e.g. a node's HTML snippet, "main.js:12:40" or "45.2 KB"
+ */
+function cellText(value: unknown, valueType?: string): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'number') {
+    if (valueType === 'bytes') return formatBytes(value, 1);
+    if (valueType === 'ms' || valueType === 'timespanMs') return formatDuration(value);
+    return String(Math.round(value * 1000) / 1000);
+  }
+  if (!isObject(value)) return typeof value === 'object' ? '' : String(value);
+
+  switch (value.type) {
+    case 'node': {
+      const selector = asString(value.selector);
+      return [asString(value.snippet), selector && `(${selector})`].filter(Boolean).join(' ') || asString(value.nodeLabel) || '';
+    }
+    case 'source-location': {
+      const line = asNumber(value.line);
+      const column = asNumber(value.column);
+      return line === undefined || column === undefined ? asString(value.url) || '' : `${value.url}:${line + 1}:${column + 1}`;
+    }
+    case 'url':
+    case 'code':
+    case 'text':
+      return cellText(value.value);
+    case 'link':
+      return value.url ? `${value.text} (${value.url})` : asString(value.text) || '';
+    case 'numeric':
+      return cellText(value.value, value.granularity !== undefined ? 'numeric' : valueType);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Rows of a details object keyed by column label. Insight audits nest their
+ * tables in lists, and some add a checklist of what the page got right.
+ */
+function detailRows(details: unknown): Array<Record<string, string>> {
+  if (!isObject(details)) return [];
+  if (isListDetails(details)) {
+    return details.items.reduce((rows: Array<Record<string, string>>, item) =>
+      rows.concat(detailRows(isObject(item) && item.type === 'list-section' ? item.value : item)), []);
+  }
+  if (isChecklistDetails(details)) {
+    return Object.keys(details.items).map(key => ({
+      Check: String(details.items[key].label),
+      Passed: details.items[key].value ? 'yes' : 'no'
+    }));
+  }
+  if (!isTableDetails(details)) return [];
+
+  const headings = details.headings.filter(isTableHeading).filter(heading => heading.valueType !== 'thumbnail');
+  return details.items.filter(isObject).map(item => {
+    const row: Record<string, string> = {};
+    headings.forEach(heading => {
+      const text = cellText(item[heading.key], heading.valueType);
+      if (text) row[typeof heading.label === 'string' && heading.label ? heading.label : heading.key] = truncate(text, FIX_CELL_LIMIT);
+    });
+    return row;
+  }).filter(row => Object.keys(row).length > 0);
+}
+
+/**
+ * Flagged audits of an LHR with their details rows, for code-level fix
+ * suggestions: performance audits with savings first, largest first, then
+ * failing audits of every category that point at something on the page.
+ */
+export function buildFixIssues(lhr: LighthouseResult): { stack: string[]; issues: FixIssue[] } {
+  const stackPacks = lhr.stackPacks || [];
+  const seen: string[] = [];
+
+  const issues = Object.entries(lhr.categories).reduce((all: FixIssue[], [categoryId, category]) =>
+    all.concat(category.auditRefs
+      .map(ref => lhr.audits[ref.id])
+      .filter(audit => audit && !seen.includes(audit.id))
+      .map((audit): FixIssue => {
+        seen.push(audit.id);
+        const savings = categoryId === 'performance' ? auditSavings(audit) : {};
+        const advice = stackPacks.map(pack => pack.descriptions[audit.id]).filter(Boolean).map(plainText).join(' ');
+        return {
+          auditId: audit.id,
+          title: audit.title,
+          category: categoryId,
+          displayValue: audit.displayValue,
+          ...savings,
+          items: detailRows(audit.details).slice(0, FIX_ROWS_LIMIT),
+          stackAdvice: advice ? truncate(advice, 600) : undefined
+        };
+      })
+      .filter(issue => {
+        const audit = lhr.audits[issue.auditId];
+        return issue.savingsMs || issue.savingsBytes || (isFailing(audit) && issue.items.length > 0);
+      })), []);
+
+  return {
+    stack: stackPacks.map(pack => pack.title),
+    issues: issues.sort(bySavings)
+  };
+}
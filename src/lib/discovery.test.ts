@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { discoverUrls, DiscoveryError, extractLinks, normalizeUrl, parseSitemap, validateDiscoveryRequest } from './discovery';
+import { DiscoveryRequest } from '@/types';
+
+type Reply = { status?: number; headers?: Record<string, string>; body?: string | ReadableStream };
+
+// Replaces fetch with canned replies by URL and records the headers sent with each request
+function fakeSite(replies: Record<string, Reply>) {
+  const requests: Array<{ url: string; headers: Record<string, string>; init: RequestInit }> = [];
+  mock.method(globalThis, 'fetch', async (input: string | URL, init: RequestInit) => {
+    const url = String(input);
+    requests.push({ url, headers: init.headers as Record<string, string>, init });
+    const reply = replies[url] || { status: 404 };
+    return new Response(reply.body ?? null, { status: reply.status ?? 200, headers: reply.headers });
+  });
+  return requests;
+}
+
+const html = (body: string): Reply => ({ headers: { 'content-type': 'text/html; charset=utf-8' }, body });
+const redirect = (location: string): Reply => ({ status: 301, headers: { location } });
+const sitemap = (urls: string[]): Reply => ({
+  headers: { 'content-type': 'application/xml' },
+  body: `<urlset>${urls.map(url => `<url><loc>${url}</loc></url>`).join('')}</urlset>`
+});
+
+describe('normalizeUrl', () => {
+  it('drops fragments and tracking parameters and sorts the rest', () => {
+    assert.equal(
+      normalizeUrl('https://example.com/shop?utm_source=mail&size=m&gclid=x&color=red#reviews'),
+      'https://example.com/shop?color=red&size=m'
+    );
+    assert.equal(normalizeUrl('https://example.com/?UTM_Campaign=launch&fbclid=1'), 'https://example.com/');
+  });
+
+  it('resolves relative URLs and keeps trailing slashes', () => {
+    assert.equal(normalizeUrl('../about/', 'https://example.com/blog/post'), 'https://example.com/about/');
+    assert.equal(normalizeUrl(' /about ', 'https://example.com/'), 'https://example.com/about');
+  });
+
+  it('rejects URLs that are not http or https', () => {
+    ['mailto:team@example.com', 'javascript:void(0)', 'ftp://example.com/', 'not a url'].forEach(url => {
+      assert.equal(normalizeUrl(url), null, url);
+    });
+  });
+});
+
+describe('parseSitemap', () => {
+  it('reads the locations of a URL set', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc></url>
+        <url><loc>
+          https://example.com/search?q=a&amp;page=2
+        </loc></url>
+        <url><loc><![CDATA[https://example.com/a&b]]></loc></url>
+      </urlset>`;
+    assert.deepEqual(parseSitemap(xml), {
+      index: false,
+      locations: ['https://example.com/', 'https://example.com/search?q=a&page=2', 'https://example.com/a&b']
+    });
+  });
+
+  it('recognises sitemap indexes, with or without a namespace prefix', () => {
+    const xml = `<sm:sitemapindex xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sm:sitemap><sm:loc>https://example.com/sitemap-pages.xml</sm:loc></sm:sitemap>
+      <sm:sitemap><sm:loc>https://example.com/sitemap-posts.xml.gz</sm:loc></sm:sitemap>
+    </sm:sitemapindex>`;
+    assert.deepEqual(parseSitemap(xml), {
+      index: true,
+      locations: ['https://example.com/sitemap-pages.xml', 'https://example.com/sitemap-posts.xml.gz']
+    });
+    assert.equal(parseSitemap('<sitemapindex><sitemap><loc>/a.xml</loc></sitemap></sitemapindex>').index, true);
+    assert.deepEqual(parseSitemap('<html><body>Not found</body></html>'), { index: false, locations: [] });
+  });
+});
+
+describe('extractLinks', () => {
+  it('resolves hrefs against the page, or its base element', () => {
+    const html = `<a href="/pricing">Pricing</a>
+      <a class="nav" href='contact'>Contact</a>
+      <a href=faq?utm_source=nav>FAQ</a>
+      <A HREF="https://other.example/">Elsewhere</A>`;
+    assert.deepEqual(extractLinks(html, 'https://example.com/company/'), [
+      'https://example.com/pricing',
+      'https://example.com/company/contact',
+      'https://example.com/company/faq',
+      'https://other.example/'
+    ]);
+    assert.deepEqual(
+      extractLinks('<base href="/docs/"><a href="intro">Intro</a>', 'https://example.com/'),
+      ['https://example.com/docs/intro']
+    );
+  });
+
+  it('skips fragments, empty hrefs and non-web links', () => {
+    const html = '<a href="#top">Top</a><a href="">Self</a><a href="mailto:a@example.com">Mail</a><a name="x">Anchor</a>';
+    assert.deepEqual(extractLinks(html, 'https://example.com/'), []);
+  });
+
+  it('decodes named, decimal and hex character references in hrefs', () => {
+    const html = `<a href="/search?q=a&amp;page=2">Next</a>
+      <a href="/search?q=b&#38;page=3">Decimal</a>
+      <a href="/search?q=c&#x26;page=4">Hex</a>
+      <a href="/caf&#xE9;">Café</a>
+      <a href="/a&copy;b">Unknown</a>`;
+    assert.deepEqual(extractLinks(html, 'https://example.com/'), [
+      'https://example.com/search?page=2&q=a',
+      'https://example.com/search?page=3&q=b',
+      'https://example.com/search?page=4&q=c',
+      'https://example.com/caf%C3%A9',
+      'https://example.com/a&copy;b'
+    ]);
+  });
+});
+
+describe('validateDiscoveryRequest', () => {
+  it('checks the mode, URL and limits', () => {
+    assert.throws(() => validateDiscoveryRequest({ mode: 'spider', url: 'https://example.com/' }), /Mode must be sitemap or crawl/);
+    assert.throws(() => validateDiscoveryRequest({ mode: 'sitemap', url: 'example.com' }), /Sitemap URL is not valid/);
+    assert.throws(() => validateDiscoveryRequest({ mode: 'crawl', url: 'file:///etc/passwd' }), /Only http and https/);
+    assert.throws(() => validateDiscoveryRequest({ mode: 'crawl', url: 'https://example.com/', depth: 6 }), /Depth must be an integer between 0 and 5/);
+    assert.throws(() => validateDiscoveryRequest({ mode: 'crawl', url: 'https://example.com/', include: '/blog/*' }), /Include patterns/);
+    assert.deepEqual(validateDiscoveryRequest({ mode: 'crawl', url: 'https://example.com', include: [' /blog/* ', ''] }).include, ['/blog/*']);
+  });
+});
+
+describe('discoverUrls', () => {
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  const protectedRequest = (request: Pick<DiscoveryRequest, 'mode' | 'url'> & Partial<DiscoveryRequest>): DiscoveryRequest => ({
+    bypassToken: 'bypass',
+    request: {
+      basicAuth: { username: 'preview', password: 'hunter2' },
+      headers: [{ name: 'X-Preview', value: 'on', secret: true }, { name: 'X-Debug', value: '1' }]
+    },
+    ...request
+  });
+
+  it('follows redirects itself and keeps credentials from other origins', async () => {
+    const requests = fakeSite({
+      'https://staging.example.com/sitemap.xml': redirect('/sitemaps/main.xml'),
+      'https://staging.example.com/sitemaps/main.xml': redirect('https://cdn.example.net/sitemap.xml'),
+      'https://cdn.example.net/sitemap.xml': sitemap(['https://staging.example.com/', 'https://staging.example.com/about'])
+    });
+    const result = await discoverUrls(protectedRequest({ mode: 'sitemap', url: 'https://staging.example.com/sitemap.xml' }));
+
+    assert.deepEqual(result.urls, ['https://staging.example.com/', 'https://staging.example.com/about']);
+    assert.deepEqual(requests.map(request => request.init.redirect), ['manual', 'manual', 'manual']);
+    requests.slice(0, 2).forEach(({ headers }) => {
+      assert.equal(headers['x-vercel-protection-bypass'], 'bypass');
+      assert.match(headers.Authorization, /^Basic /);
+      assert.equal(headers['X-Preview'], 'on');
+    });
+    assert.deepEqual(requests[2].headers, { 'X-Debug': '1' });
+  });
+
+  it('crawls the origin the start page redirects to', async () => {
+    const requests = fakeSite({
+      'http://staging.example.com/': redirect('https://staging.example.com/'),
+      'https://staging.example.com/': html('<a href="/pricing">Pricing</a><a href="/login">Log in</a>'),
+      'https://staging.example.com/pricing': html('<a href="/">Home</a>'),
+      'https://staging.example.com/login': redirect('https://auth.example.net/authorize'),
+      'https://auth.example.net/authorize': html('<a href="/signup">Sign up</a>')
+    });
+    const result = await discoverUrls(protectedRequest({ mode: 'crawl', url: 'http://staging.example.com/' }));
+
+    assert.deepEqual(result.urls, ['https://staging.example.com/', 'https://staging.example.com/pricing']);
+    const login = requests.find(request => request.url === 'https://auth.example.net/authorize')!;
+    assert.equal(login.headers['x-vercel-protection-bypass'], undefined);
+    assert.equal(login.headers.Authorization, undefined);
+  });
+
+  it('gives up on redirect loops', async () => {
+    fakeSite({
+      'https://example.com/a': redirect('/b'),
+      'https://example.com/b': redirect('/a')
+    });
+    await assert.rejects(
+      discoverUrls({ mode: 'sitemap', url: 'https://example.com/a' }),
+      (error: Error) => error instanceof DiscoveryError && error.message === 'Too many redirects fetching https://example.com/a'
+    );
+  });
+
+  it('times out bodies that stop arriving', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    mock.method(globalThis, 'fetch', async (_: string, init: RequestInit) => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('<urlset>'));
+        init.signal!.addEventListener('abort', () => controller.error(new Error('This operation was aborted')));
+      }
+    }), { headers: { 'content-type': 'application/xml' } }));
+
+    const discovery = discoverUrls({ mode: 'sitemap', url: 'https://example.com/sitemap.xml' });
+    await new Promise(resolve => setImmediate(resolve));
+    mock.timers.tick(15 * 1000);
+    await assert.rejects(discovery, (error: Error) =>
+      error instanceof DiscoveryError && error.message === 'Timed out fetching https://example.com/sitemap.xml');
+  });
+});
@@ -0,0 +1,383 @@
+import { gunzipSync } from 'zlib';
+import { runPool } from './pool';
+import { buildRequestHeaders, RequestConfigError, validateRequestConfig } from './requests';
+import { filterUrls } from './utils';
+import { DiscoveryRequest, DiscoveryResult, LighthouseConfig } from '@/types';
+
+type FetchConfig = Pick<LighthouseConfig, 'bypassToken' | 'request'>;
+
+export const DEFAULT_DISCOVERY_LIMIT = 1000;
+export const MAX_DISCOVERY_LIMIT = 10000;
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const MAX_CRAWL_DEPTH = 5;
+
+// Sitemap indexes can nest; real sites stay well within these
+const MAX_SITEMAP_DEPTH = 3;
+const MAX_SITEMAPS = 200;
+
+const CRAWL_CONCURRENCY = 4;
+const FETCH_TIMEOUT_MS = 15 * 1000;
+
+// Query parameters that only track campaigns and never change the page
+const TRACKING_PARAMS = /^(utm_[a-z]+|gclid|fbclid|msclkid|mc_cid|mc_eid)$/i;
+
+// Links to files that aren't pages
+const ASSET_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|jpe?g|png|gif|svg|webp|avif|ico|bmp|mp3|mp4|webm|mov|avi|woff2?|ttf|eot|css|js|json|xml|txt|csv|xlsx?|docx?|pptx?)$/i;
+
+// Named references seen in sitemaps and hrefs; others are left as written
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 10;
+
+export class DiscoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiscoveryError';
+  }
+}
+
+/**
+ * Validate an untrusted value (request body, CLI flags) as a discovery request
+ */
+export function validateDiscoveryRequest(value: unknown): DiscoveryRequest {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new DiscoveryError('Discovery request must be an object');
+  }
+
+  const raw = value as Record<string, any>;
+  if (raw.mode !== 'sitemap' && raw.mode !== 'crawl') {
+    throw new DiscoveryError('Mode must be sitemap or crawl');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw.url);
+  } catch {
+    throw new DiscoveryError(`${raw.mode === 'sitemap' ? 'Sitemap' : 'Start'} URL is not valid`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new DiscoveryError('Only http and https URLs can be discovered');
+  }
+
+  const integerIn = (field: string, min: number, max: number) => {
+    const number = raw[field];
+    if (number !== undefined && (!Number.isInteger(number) || number < min || number > max)) {
+      throw new DiscoveryError(`${field[0].toUpperCase()}${field.slice(1)} must be an integer between ${min} and ${max}`);
+    }
+    return number as number | undefined;
+  };
+
+  const patterns = (field: 'include' | 'exclude') => {
+    const list = raw[field];
+    if (list === undefined) return undefined;
+    if (!Array.isArray(list) || list.some(pattern => typeof pattern !== 'string')) {
+      throw new DiscoveryError(`${field === 'include' ? 'Include' : 'Exclude'} patterns must be a list of strings`);
+    }
+    return list.map((pattern: string) => pattern.trim()).filter(Boolean);
+  };
+
+  let request;
+  try {
+    request = raw.request === undefined ? undefined : validateRequestConfig(raw.request);
+  } catch (error) {
+    if (error instanceof RequestConfigError) throw new DiscoveryError(error.message);
+    throw error;
+  }
+
+  return {
+    mode: raw.mode,
+    url: url.toString(),
+    depth: integerIn('depth', 0, MAX_CRAWL_DEPTH),
+    limit: integerIn('limit', 1, MAX_DISCOVERY_LIMIT),
+    include: patterns('include'),
+    exclude: patterns('exclude'),
+    bypassToken: typeof raw.bypassToken === 'string' && raw.bypassToken ? raw.bypassToken : undefined,
+    request
+  };
+}
+
+/**
+ * Canonical form used to dedupe discovered URLs: no fragment, no tracking
+ * parameters, remaining parameters sorted. The path is left alone since
+ * `/about` and `/about/` can be different pages.
+ */
+export function normalizeUrl(value: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  const params: Array<[string, string]> = [];
+  url.searchParams.forEach((paramValue, key) => {
+    if (!TRACKING_PARAMS.test(key)) params.push([key, paramValue]);
+  });
+  params.sort((a, b) => a[0].localeCompare(b[0]));
+  url.search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  return url.toString();
+}
+
+interface FetchedPage {
+  url: string; // Where redirects landed
+  status: number;
+  contentType: string;
+  body?: Buffer;
+}
+
+const isOk = (page: FetchedPage) => page.status >= 200 && page.status < 300;
+
+/**
+ * Fetch a URL, reading the body when `wantBody` accepts the response; the
+ * timeout covers both. Redirects are followed one hop at a time so each hop
+ * gets its own headers: credentials only go to `auditedUrl`'s origin.
+ */
+async function fetchWithTimeout(
+  url: string,
+  config: FetchConfig,
+  auditedUrl: string,
+  wantBody: (page: FetchedPage) => boolean
+): Promise<FetchedPage> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let current = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await fetch(current, {
+        headers: buildRequestHeaders(config, current, auditedUrl),
+        redirect: 'manual',
+        signal: controller.signal
+      });
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        const page: FetchedPage = { url: current, status: response.status, contentType: response.headers.get('content-type') || '' };
+        if (wantBody(page)) page.body = Buffer.from(await response.arrayBuffer());
+        else await response.body?.cancel();
+        return page;
+      }
+
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) throw new DiscoveryError(`Too many redirects fetching ${url}`);
+      const next = normalizeUrl(location, current);
+      if (!next) throw new DiscoveryError(`${current} redirected to an unsupported URL: ${location}`);
+      current = next;
+    }
+  } catch (error) {
+    if (error instanceof DiscoveryError) throw error;
+    throw new DiscoveryError(controller.signal.aborted
+      ? `Timed out fetching ${url}`
+      : `Could not fetch ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Decode character references in XML text or an HTML attribute value
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));/gi, (reference, hex?: string, decimal?: string, name?: string) => {
+    if (name) return NAMED_ENTITIES[name] ?? reference;
+    const code = hex ? parseInt(hex, 16) : parseInt(decimal!, 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+  });
+}
+
+const decodeXml = (text: string) => {
+  // CDATA content is literal, so it isn't decoded
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(text);
+  return (cdata ? cdata[1] : decodeEntities(text)).trim();
+};
+
+/**
+ * `<loc>` values of a sitemap or sitemap index, and which of the two it is
+ */
+export function parseSitemap(xml: string): { index: boolean; locations: string[] } {
+  const locations: string[] = [];
+  const pattern = /<(?:\w+:)?loc>\s*([\s\S]*?)\s*<\/(?:\w+:)?loc>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    locations.push(decodeXml(match[1]));
+  }
+  return { index: /<(?:\w+:)?sitemapindex[\s>]/.test(xml), locations };
+}
+
+async function readSitemap(url: string, config: FetchConfig, auditedUrl: string): Promise<string> {
+  const page = await fetchWithTimeout(url, config, auditedUrl, isOk);
+  if (!page.body) {
+    throw new DiscoveryError(`Sitemap ${url} returned HTTP ${page.status}`);
+  }
+  const body = page.body;
+  // .xml.gz files arrive still compressed; gzip transfer encoding is already undone by fetch
+  const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+  try {
+    return (isGzip ? gunzipSync(body) : body).toString('utf-8');
+  } catch {
+    throw new DiscoveryError(`Sitemap ${url} is not valid gzip`);
+  }
+}
+
+async function discoverFromSitemap(request: DiscoveryRequest, config: FetchConfig, limit: number) {
+  const urls: string[] = [];
+  const seen = new Set<string>();
+  const visited = new Set<string>();
+  const errors: string[] = [];
+  let truncated = false;
+
+  const visit = async (sitemapUrl: string, depth: number): Promise<void> => {
+    if (truncated || visited.has(sitemapUrl)) return;
+    if (visited.size >= MAX_SITEMAPS) {
+      truncated = true;
+      return;
+    }
+    visited.add(sitemapUrl);
+
+    let xml: string;
+    try {
+      xml = await readSitemap(sitemapUrl, config, request.url);
+    } catch (error) {
+      // A broken child sitemap shouldn't lose the rest of the index
+      if (depth === 0) throw error;
+      errors.push(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const { index, locations } = parseSitemap(xml);
+    if (index) {
+      if (depth >= MAX_SITEMAP_DEPTH) {
+        errors.push(`Sitemap index ${sitemapUrl} nests deeper than ${MAX_SITEMAP_DEPTH} levels; skipped`);
+        return;
+      }
+      for (let i = 0; i < locations.length && !truncated; i++) {
+        const child = normalizeUrl(locations[i], sitemapUrl);
+        if (child) await visit(child, depth + 1);
+      }
+      return;
+    }
+
+    locations.forEach(location => {
+      const url = normalizeUrl(location, sitemapUrl);
+      if (!url || seen.has(url) || truncated) return;
+      if (!matchesFilters(url, request)) {
+        seen.add(url);
+        return;
+      }
+      if (urls.length >= limit) {
+        truncated = true;
+        return;
+      }
+      seen.add(url);
+      urls.push(url);
+    });
+  };
+
+  await visit(request.url, 0);
+  if (visited.size === 1 && seen.size === 0 && errors.length === 0) {
+    errors.push(`No <loc> entries found in ${request.url}`);
+  }
+  return { urls, found: seen.size, sources: visited.size, truncated, errors };
+}
+
+const matchesFilters = (url: string, request: DiscoveryRequest) =>
+  filterUrls([url], request.include, request.exclude).length > 0;
+
+/**
+ * Absolute `href`s of the links in an HTML page, honouring `<base href>`
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const baseMatch = /<base\s[^>]*href\s*=\s*["']([^"']+)["']/i.exec(html);
+  const base = baseMatch ? new URL(baseMatch[1], pageUrl).toString() : pageUrl;
+
+  const links: string[] = [];
+  const pattern = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const href = decodeEntities(match[1] ?? match[2] ?? match[3] ?? '').trim();
+    const url = href && !href.startsWith('#') ? normalizeUrl(href, base) : null;
+    if (url) links.push(url);
+  }
+  return links;
+}
+
+async function discoverByCrawl(request: DiscoveryRequest, config: FetchConfig, limit: number) {
+  const start = normalizeUrl(request.url)!;
+  let origin = new URL(start).origin;
+  const maxDepth = request.depth ?? DEFAULT_CRAWL_DEPTH;
+  const seen = new Set<string>([start]);
+  const pages = new Set<string>();
+  const urls: string[] = [];
+  const errors: string[] = [];
+  let crawled = 0;
+  let found = 0;
+  let truncated = false;
+  let level = [start];
+
+  for (let depth = 0; depth <= maxDepth && level.length > 0 && !truncated; depth++) {
+    const next: string[] = [];
+    await runPool(level, CRAWL_CONCURRENCY, async (url) => {
+      if (crawled >= limit) {
+        truncated = true;
+        return;
+      }
+      crawled++;
+
+      const isPage = (page: FetchedPage) => isOk(page) && page.contentType.includes('text/html');
+      let page: FetchedPage;
+      try {
+        // Only same-site pages that still have links to follow are read
+        page = await fetchWithTimeout(url, config, origin, candidate =>
+          isPage(candidate) && depth < maxDepth && (depth === 0 || new URL(candidate.url).origin === origin));
+      } catch (error) {
+        // Without the start page there is nothing to crawl
+        if (depth === 0) throw error;
+        errors.push(error instanceof Error ? error.message : String(error));
+        return;
+      }
+      if (!isOk(page)) {
+        if (depth === 0) throw new DiscoveryError(`Start page ${url} returned HTTP ${page.status}`);
+        errors.push(`${url} returned HTTP ${page.status}`);
+        return;
+      }
+      if (!isPage(page)) return;
+
+      // Record where redirects land, so http:// and https:// or slash variants dedupe
+      const pageUrl = page.url;
+      // The start page's redirect (e.g. to https or www) decides which origin is crawled
+      if (depth === 0) origin = new URL(pageUrl).origin;
+      // A redirect off-site (e.g. to a login provider) isn't part of this site
+      if (new URL(pageUrl).origin !== origin || pages.has(pageUrl)) return;
+      pages.add(pageUrl);
+
+      found++;
+      if (matchesFilters(pageUrl, request)) urls.push(pageUrl);
+      if (!page.body) return;
+
+      extractLinks(page.body.toString('utf-8'), pageUrl).forEach(link => {
+        if (seen.has(link) || new URL(link).origin !== origin || ASSET_EXTENSIONS.test(new URL(link).pathname)) return;
+        seen.add(link);
+        next.push(link);
+      });
+    });
+    level = next;
+  }
+
+  // Links found on the last level were never visited
+  if (level.length > 0 && crawled >= limit) truncated = true;
+  return { urls, found, sources: crawled, truncated, errors };
+}
+
+/**
+ * Discover URLs to audit. The bypass token and request customization are sent
+ * with fetches to the discovered site, so protected staging sites can be
+ * discovered too.
+ */
+export async function discoverUrls(request: DiscoveryRequest): Promise<DiscoveryResult> {
+  const config: FetchConfig = { bypassToken: request.bypassToken, request: request.request };
+  const limit = request.limit ?? DEFAULT_DISCOVERY_LIMIT;
+  return request.mode === 'sitemap'
+    ? discoverFromSitemap(request, config, limit)
+    : discoverByCrawl(request, config, limit);
+}
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getAuditLog, publishAuditEvent, publishAuditLog } from './events';
+
+const finish = (sessionId: string) =>
+  publishAuditEvent(sessionId, { type: 'progress', status: 'completed', progress: 1, total: 1 });
+
+describe('audit logs', () => {
+  it('keeps the logs of running and recently finished sessions only', () => {
+    publishAuditLog('running', 'Auditing https://example.com/');
+    for (let i = 0; i < 21; i++) {
+      publishAuditLog(`session-${i}`, `Finished ${i}`);
+      finish(`session-${i}`);
+    }
+
+    assert.deepEqual(getAuditLog('session-0'), []);
+    assert.equal(getAuditLog('session-1')[0].message, 'Finished 1');
+    assert.equal(getAuditLog('session-20')[0].message, 'Finished 20');
+    assert.equal(getAuditLog('running').length, 1);
+  });
+});
@@ -0,0 +1,102 @@
+import { EventEmitter } from 'events';
+import { AuditLogEntry, AuditSession, AuditStreamEvent } from '@/types';
+
+/**
+ * Log lines kept per session for clients that connect mid-run
+ */
+const LOG_LIMIT = 200;
+
+/**
+ * Finished sessions whose logs are kept for late clients; older ones are dropped
+ */
+const FINISHED_LOG_SESSIONS = 20;
+
+interface AuditEventBus {
+  emitter: EventEmitter;
+  logs: Map<string, AuditLogEntry[]>;
+  // Finished session IDs, oldest first
+  finished: string[];
+}
+
+// Shared across separately bundled API routes, like the repository
+const globalBus = globalThis as typeof globalThis & { __auditEventBus?: AuditEventBus };
+
+function getBus(): AuditEventBus {
+  if (!globalBus.__auditEventBus) {
+    const emitter = new EventEmitter();
+    // One listener per open dashboard tab
+    emitter.setMaxListeners(0);
+    globalBus.__auditEventBus = { emitter, logs: new Map(), finished: [] };
+  }
+  return globalBus.__auditEventBus;
+}
+
+/**
+ * Push an event to every subscriber of a session
+ */
+export function publishAuditEvent(sessionId: string, event: AuditStreamEvent) {
+  const bus = getBus();
+
+  if (event.type === 'log') {
+    const log = bus.logs.get(sessionId) || [];
+    log.push(event.entry);
+    if (log.length > LOG_LIMIT) log.splice(0, log.length - LOG_LIMIT);
+    bus.logs.set(sessionId, log);
+  }
+
+  if (event.type === 'progress' && event.status !== 'processing' && bus.logs.has(sessionId)) {
+    bus.finished = bus.finished.filter(id => id !== sessionId).concat(sessionId);
+    bus.finished.splice(0, bus.finished.length - FINISHED_LOG_SESSIONS).forEach(id => bus.logs.delete(id));
+  }
+
+  bus.emitter.emit(sessionId, event);
+}
+
+/**
+ * Record a progress message for a session and broadcast it
+ */
+export function publishAuditLog(sessionId: string, message: string, url?: string) {
+  publishAuditEvent(sessionId, {
+    type: 'log',
+    entry: { timestamp: new Date().toISOString(), message: message.trim(), url }
+  });
+}
+
+/**
+ * Broadcast the lightweight progress fields of a session
+ */
+export function publishSessionProgress(session: AuditSession) {
+  publishAuditEvent(session.sessionId, {
+    type: 'progress',
+    status: session.status,
+    progress: session.progress,
+    total: session.total,
+    currentUrl: session.currentUrl,
+    activeUrls: session.activeUrls,
+    error: session.error,
+    insightsFile: session.insightsFile,
+    insights: session.insights
+  });
+}
+
+/**
+ * Recent log lines for a session (empty once the process restarts or many
+ * later sessions have finished)
+ */
+export function getAuditLog(sessionId: string): AuditLogEntry[] {
+  return getBus().logs.get(sessionId) || [];
+}
+
+/**
+ * Listen for a session's events; returns the unsubscribe function
+ */
+export function subscribeToAuditEvents(
+  sessionId: string,
+  listener: (event: AuditStreamEvent) => void
+): () => void {
+  const { emitter } = getBus();
+  emitter.on(sessionId, listener);
+  return () => {
+    emitter.off(sessionId, listener);
+  };
+}
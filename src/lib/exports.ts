@@ -0,0 +1,226 @@
+import ExcelJS from 'exceljs';
+import { describeBudgetFailure } from './budgets';
+import { LAB_METRICS } from './metrics';
+import { BrowserManager } from './browser';
+import { renderSummaryHtml, SCORE_CATEGORIES, summarizeResults } from './summary';
+import { AuditResult, AuditSession, ExportFormat, LabMetric } from '@/types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'html', 'pdf'];
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+// Report links work outside the app when APP_BASE_URL is set
+const reportUrl = (reportPath: string) => {
+  const baseUrl = process.env.APP_BASE_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}${reportPath}` : reportPath;
+};
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (result: AuditResult) => string | number | undefined;
+}
+
+/**
+ * One spreadsheet row per result; metric columns hold raw values (ms, or unitless for CLS)
+ */
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'URL', width: 50, value: result => result.url },
+  { header: 'Label', width: 20, value: result => result.label },
+  { header: 'Group', width: 15, value: result => result.group },
+  { header: 'Form Factor', width: 12, value: result => result.formFactor },
+  { header: 'Profile', width: 20, value: result => result.profile },
+  { header: 'Audited At', width: 22, value: result => result.auditedAt },
+  ...SCORE_CATEGORIES.map(([category, label]): ExportColumn => ({
+    header: label,
+    width: 12,
+    value: result => result.scores?.[category]
+  })),
+  ...(Object.keys(LAB_METRICS) as LabMetric[]).map((metric): ExportColumn => ({
+    header: LAB_METRICS[metric].unit === 'ms' ? `${LAB_METRICS[metric].label} (ms)` : LAB_METRICS[metric].label,
+    width: 14,
+    value: result => result.metrics?.[metric]?.value
+  })),
+  { header: 'Runs', width: 6, value: result => result.runs },
+  { header: 'Budget', width: 8, value: result => (result.budget ? (result.budget.passed ? 'pass' : 'fail') : undefined) },
+  {
+    header: 'Budget Failures',
+    width: 40,
+    value: result => result.budget?.checks.filter(check => !check.passed).map(describeBudgetFailure).join('; ')
+  },
+  { header: 'HTML Report', width: 40, value: result => result.reportPaths && reportUrl(result.reportPaths.html) },
+  { header: 'Error', width: 40, value: result => result.error }
+];
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const safeText = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined || value === '') return '';
+  const text = typeof value === 'number' ? String(value) : safeText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Results as CSV, with a BOM so Excel reads it as UTF-8
+ */
+export function resultsToCsv(results: AuditResult[]): string {
+  const lines = [EXPORT_COLUMNS.map(column => csvCell(column.header)).join(',')].concat(
+    results.map(result => EXPORT_COLUMNS.map(column => csvCell(column.value(result))).join(','))
+  );
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+const SCORE_FILLS = { good: 'FFC6EFCE', average: 'FFFFEB9C', poor: 'FFFFC7CE' };
+
+/**
+ * Results, user flow steps and session details as an Excel workbook
+ */
+export async function sessionToXlsx(session: AuditSession): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Lighthouse Checker';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Results', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  session.results.forEach(result => {
+    sheet.addRow(EXPORT_COLUMNS.map(column => {
+      const value = column.value(result);
+      return typeof value === 'string' ? safeText(value) : value;
+    }));
+  });
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: EXPORT_COLUMNS.length } };
+
+  // Colour score cells by Lighthouse's bands
+  SCORE_CATEGORIES.forEach(([, label]) => {
+    const column = EXPORT_COLUMNS.findIndex(item => item.header === label) + 1;
+    sheet.getColumn(column).eachCell((cell, rowNumber) => {
+      if (rowNumber === 1 || typeof cell.value !== 'number') return;
+      const band = cell.value >= 90 ? 'good' : cell.value >= 50 ? 'average' : 'poor';
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: SCORE_FILLS[band] } };
+    });
+  });
+
+  const flowResults = session.flowResults || [];
+  if (flowResults.length > 0) {
+    const flows = workbook.addWorksheet('User Flows', { views: [{ state: 'frozen', ySplit: 1 }] });
+    flows.columns = [
+      { header: 'Flow', width: 30 },
+      { header: 'Step', width: 30 },
+      { header: 'Mode', width: 12 },
+      ...SCORE_CATEGORIES.map(([, label]) => ({ header: label, width: 12 })),
+      { header: 'Error', width: 40 }
+    ];
+    flows.getRow(1).font = { bold: true };
+    flowResults.forEach(flow => {
+      if (!flow.steps || flow.steps.length === 0) {
+        flows.addRow([safeText(flow.name), '', '', '', '', '', '', flow.error && safeText(flow.error)]);
+        return;
+      }
+      flow.steps.forEach(step => {
+        flows.addRow([
+          safeText(flow.name),
+          safeText(step.name),
+          step.gatherMode,
+          ...SCORE_CATEGORIES.map(([category]) => step.scores[category])
+        ]);
+      });
+    });
+  }
+
+  const stats = summarizeResults(session.results);
+  const info = workbook.addWorksheet('Session');
+  info.columns = [{ width: 24 }, { width: 50 }];
+  [
+    ['Session ID', session.sessionId],
+    ['Status', session.status],
+    ['Schedule', session.schedule?.name],
+    ['Created', session.createdAt],
+    ['Updated', session.updatedAt],
+    ['Form factor', session.config.formFactor],
+    ['Profile', session.config.profile?.name],
+    ['URLs audited', stats.audited],
+    ['Errors', stats.errored],
+    ['Budgets failed', stats.budgetsChecked > 0 ? `${stats.budgetsFailed} of ${stats.budgetsChecked}` : undefined],
+    ...SCORE_CATEGORIES.map(([category, label]) => [`Average ${label}`, stats.averages[category]])
+  ].forEach(row => info.addRow(row));
+  info.getColumn(1).font = { bold: true };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Machine-readable bundle of a session: its stored config, summary stats, every result and any AI insights
+ */
+export function sessionToJson(session: AuditSession): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    session: {
+      sessionId: session.sessionId,
+      status: session.status,
+      schedule: session.schedule,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      config: session.config,
+      urls: session.urls
+    },
+    summary: summarizeResults(session.results),
+    results: session.results,
+    flowResults: session.flowResults || [],
+    insights: session.insights
+  }, null, 2);
+}
+
+/**
+ * Print the HTML summary to an A4 PDF with Chrome
+ */
+async function htmlToPdf(html: string): Promise<Buffer> {
+  const browser = new BrowserManager();
+  try {
+    return await browser.withPage(async ({ page }) => {
+      await page.setContent(html, { waitUntil: 'load' });
+      return Buffer.from(await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true }));
+    });
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Build a session export in the given format
+ */
+export async function exportSession(session: AuditSession, format: ExportFormat): Promise<ExportFile> {
+  const baseName = `lighthouse-session-${session.sessionId}`;
+  switch (format) {
+    case 'csv':
+      return { fileName: `${baseName}.csv`, contentType: 'text/csv; charset=utf-8', body: Buffer.from(resultsToCsv(session.results)) };
+    case 'xlsx':
+      return {
+        fileName: `${baseName}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: await sessionToXlsx(session)
+      };
+    case 'json':
+      return { fileName: `${baseName}.json`, contentType: 'application/json', body: Buffer.from(sessionToJson(session)) };
+    case 'html':
+      return { fileName: `${baseName}.html`, contentType: 'text/html; charset=utf-8', body: Buffer.from(renderSummaryHtml(session)) };
+    case 'pdf':
+      return { fileName: `${baseName}.pdf`, contentType: 'application/pdf', body: await htmlToPdf(renderSummaryHtml(session)) };
+    default:
+      throw new ExportError(`Format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+}
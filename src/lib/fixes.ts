@@ -0,0 +1,107 @@
+import { completeValid, InsightsError, InsightsProvider, InsightsRequest, isObject, SYSTEM_PROMPT } from './insights';
+import { FixIssue, FixSnippet, FixSuggestion, FixSuggestions } from '@/types';
+
+/**
+ * Most issues sent to the model in one request, largest savings first
+ */
+export const MAX_FIX_ISSUES = 12;
+
+const MAX_SNIPPETS = 3;
+const MAX_SNIPPET_CHARS = 4000;
+
+function fixesRequest(url: string, stack: string[], issues: FixIssue[]): InsightsRequest {
+  const prompt = `Below are the issues Lighthouse flagged on ${url}${stack.length > 0 ? `, built with ${stack.join(', ')}` : ''}, with the elements and resources behind each one.
+
+For each issue you can fix, reply with concrete code changes that use the actual URLs, selectors and elements listed: HTML attributes, <link rel="preload"> or "preconnect" tags, loading/fetchpriority/width/height attributes, CSS, or framework and bundler config (e.g. next.config.js, next/image, next/font, dynamic imports, webpack). Follow the framework advice where given. Skip issues you can't fix from the data.
+
+Reply with this JSON shape:
+{
+  "suggestions": [
+    {
+      "auditId": "the auditId exactly as given",
+      "explanation": "1-2 sentences on what to change and why",
+      "snippets": [{ "language": "html | css | js | jsx | tsx | json | text", "file": "where the change goes, if known", "code": "the code to add or change" }]
+    }
+  ]
+}
+
+Give at most ${MAX_SNIPPETS} short snippets per issue.
+
+Issues (one JSON object per line):
+${issues.map(issue => JSON.stringify(issue)).join('\n')}
+`;
+  return { kind: 'fixes', system: SYSTEM_PROMPT, prompt, inputs: [], summaries: [], issues };
+}
+
+function validateSnippets(value: unknown, where: string): FixSnippet[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InsightsError(`${where}: snippets must be a non-empty list`);
+  }
+  return value.slice(0, MAX_SNIPPETS).map((item, index) => {
+    if (!isObject(item) || typeof item.code !== 'string' || !item.code.trim()) {
+      throw new InsightsError(`${where}: snippet #${index + 1} needs code`);
+    }
+    if (item.code.length > MAX_SNIPPET_CHARS) {
+      throw new InsightsError(`${where}: snippet #${index + 1} is longer than ${MAX_SNIPPET_CHARS} characters`);
+    }
+    return {
+      language: typeof item.language === 'string' && item.language.trim() ? item.language.trim().toLowerCase() : 'text',
+      file: typeof item.file === 'string' && item.file.trim() ? item.file.trim() : undefined,
+      code: item.code.replace(/^\n+|\s+$/g, '')
+    };
+  });
+}
+
+/**
+ * Check a fix reply: each suggestion must answer one of the issues, once.
+ * Suggestions are ranked by Lighthouse's savings estimate for their issue.
+ */
+export function validateFixSuggestions(value: unknown, issues: FixIssue[]): FixSuggestion[] {
+  if (!isObject(value) || !Array.isArray(value.suggestions)) {
+    throw new InsightsError('Reply must be a JSON object with a "suggestions" list');
+  }
+
+  const seen: string[] = [];
+  const suggestions = value.suggestions.map((item, index): FixSuggestion => {
+    const issue = isObject(item) ? issues.find(entry => entry.auditId === item.auditId) : undefined;
+    if (!isObject(item) || !issue) {
+      throw new InsightsError(`suggestions #${index + 1} must name one of the given auditIds`);
+    }
+    if (seen.includes(issue.auditId)) throw new InsightsError(`Duplicate suggestion for ${issue.auditId}`);
+    seen.push(issue.auditId);
+    if (typeof item.explanation !== 'string' || !item.explanation.trim()) {
+      throw new InsightsError(`${issue.auditId}: explanation must be a non-empty string`);
+    }
+
+    return {
+      auditId: issue.auditId,
+      title: issue.title,
+      explanation: item.explanation.trim(),
+      snippets: validateSnippets(item.snippets, issue.auditId),
+      savingsMs: issue.savingsMs,
+      savingsBytes: issue.savingsBytes
+    };
+  });
+
+  // Issues are sent largest savings first, so their order is the ranking
+  return suggestions.sort((a, b) =>
+    issues.findIndex(issue => issue.auditId === a.auditId) - issues.findIndex(issue => issue.auditId === b.auditId));
+}
+
+/**
+ * Ask a provider for code-level fixes for a report's flagged audits
+ */
+export async function generateFixSuggestions(
+  report: string,
+  url: string,
+  stack: string[],
+  issues: FixIssue[],
+  provider: InsightsProvider
+): Promise<FixSuggestions> {
+  const selected = issues.slice(0, MAX_FIX_ISSUES);
+  const suggestions = selected.length === 0
+    ? []
+    : await completeValid(provider, fixesRequest(url, stack, selected), value => validateFixSuggestions(value, selected));
+
+  return { report, url, stack, suggestions, provider: provider.name, model: provider.model, generatedAt: new Date().toISOString() };
+}
@@ -0,0 +1,218 @@
+import YAML from 'yaml';
+import type { FlowResult, UserFlow } from 'lighthouse';
+import type { Page } from 'puppeteer';
+import { FlowAction, FlowStep, FlowStepSummary, ScoreCategory, UserFlowDefinition } from '@/types';
+
+const STEP_TYPES: Array<FlowStep['type']> = ['navigation', 'timespan', 'snapshot'];
+
+const SCORE_CATEGORIES: ScoreCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+// Required string fields for each action
+const ACTION_FIELDS: Record<FlowAction['action'], string[]> = {
+  click: ['selector'],
+  type: ['selector', 'text'],
+  press: ['key'],
+  waitForSelector: ['selector'],
+  waitForNavigation: [],
+  wait: []
+};
+
+const ACTION_TIMEOUT_MS = 30000;
+
+export class FlowParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlowParseError';
+  }
+}
+
+function validateActions(value: unknown, where: string): FlowAction[] {
+  if (!Array.isArray(value)) {
+    throw new FlowParseError(`${where}: "actions" must be a list`);
+  }
+
+  return value.map((entry, index) => {
+    const at = `${where}, action #${index + 1}`;
+    const action = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).action : undefined;
+    if (typeof action !== 'string' || !(action in ACTION_FIELDS)) {
+      throw new FlowParseError(`${at}: "action" must be one of ${Object.keys(ACTION_FIELDS).join(', ')}`);
+    }
+
+    ACTION_FIELDS[action as FlowAction['action']].forEach(field => {
+      if (typeof (entry as Record<string, unknown>)[field] !== 'string') {
+        throw new FlowParseError(`${at}: "${action}" needs a "${field}" string`);
+      }
+    });
+    if (action === 'wait' && typeof (entry as Record<string, unknown>).ms !== 'number') {
+      throw new FlowParseError(`${at}: "wait" needs "ms" as a number`);
+    }
+
+    return entry as FlowAction;
+  });
+}
+
+function validateStep(value: unknown, where: string): FlowStep {
+  if (!value || typeof value !== 'object') {
+    throw new FlowParseError(`${where} must be an object`);
+  }
+
+  const { type, name, url, actions } = value as Record<string, unknown>;
+  if (!STEP_TYPES.includes(type as FlowStep['type'])) {
+    throw new FlowParseError(`${where}: "type" must be one of ${STEP_TYPES.join(', ')}`);
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    throw new FlowParseError(`${where}: "name" must be a string`);
+  }
+
+  const stepActions = actions !== undefined ? validateActions(actions, where) : undefined;
+
+  if (type === 'navigation') {
+    if (url !== undefined) {
+      try {
+        new URL(url as string);
+      } catch {
+        throw new FlowParseError(`${where}: invalid URL "${url}"`);
+      }
+    } else if (!stepActions || stepActions.length === 0) {
+      throw new FlowParseError(`${where}: a navigation needs a "url" or the "actions" that trigger it`);
+    }
+    return { type, name: name as string | undefined, url: url as string | undefined, actions: stepActions };
+  }
+
+  if (type === 'timespan') {
+    if (!stepActions || stepActions.length === 0) {
+      throw new FlowParseError(`${where}: a timespan needs "actions" to measure`);
+    }
+    return { type, name: name as string | undefined, actions: stepActions };
+  }
+
+  return { type: 'snapshot', name: name as string | undefined, actions: stepActions };
+}
+
+/**
+ * Validate an untrusted value (parsed file, request body) as a list of user flows
+ */
+export function validateUserFlows(value: unknown): UserFlowDefinition[] {
+  const list = value && typeof value === 'object' && !Array.isArray(value) && 'flows' in value
+    ? (value as { flows: unknown }).flows
+    : value;
+
+  if (!Array.isArray(list)) {
+    throw new FlowParseError('Flows must be a list (or an object with a "flows" list)');
+  }
+
+  const names: string[] = [];
+  return list.map((entry, index) => {
+    const where = `Flow #${index + 1}`;
+    if (!entry || typeof entry !== 'object') {
+      throw new FlowParseError(`${where} must be an object`);
+    }
+
+    const { name, steps } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new FlowParseError(`${where} needs a "name"`);
+    }
+    // Names identify finished flows when a paused session resumes
+    if (names.includes(name)) {
+      throw new FlowParseError(`${where}: duplicate flow name "${name}"`);
+    }
+    names.push(name);
+
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new FlowParseError(`${where} needs at least one step`);
+    }
+    if ((steps[0] as Record<string, unknown>)?.type !== 'navigation') {
+      throw new FlowParseError(`${where}: the first step must be a navigation`);
+    }
+
+    return {
+      name,
+      steps: steps.map((step, stepIndex) => validateStep(step, `${where} ("${name}"), step #${stepIndex + 1}`))
+    };
+  });
+}
+
+/**
+ * Parse user flows from JSON or YAML text
+ */
+export function parseUserFlows(text: string): UserFlowDefinition[] {
+  if (text.trim().length === 0) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(text);
+  } catch (error) {
+    throw new FlowParseError(`Invalid flow definition: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateUserFlows(parsed);
+}
+
+async function runAction(page: Page, action: FlowAction) {
+  switch (action.action) {
+    case 'click':
+      await page.click(action.selector);
+      break;
+    case 'type':
+      await page.type(action.selector, action.text);
+      break;
+    case 'press':
+      await page.keyboard.press(action.key as Parameters<Page['keyboard']['press']>[0]);
+      break;
+    case 'waitForSelector':
+      await page.waitForSelector(action.selector, { timeout: ACTION_TIMEOUT_MS });
+      break;
+    case 'waitForNavigation':
+      await page.waitForNavigation({ timeout: ACTION_TIMEOUT_MS });
+      break;
+    case 'wait':
+      await new Promise(resolve => setTimeout(resolve, action.ms));
+      break;
+  }
+}
+
+async function runActions(page: Page, actions: FlowAction[] = []) {
+  for (const action of actions) {
+    await runAction(page, action);
+  }
+}
+
+/**
+ * Drive a Lighthouse user flow through the steps of a definition
+ */
+export async function runFlowSteps(
+  flow: UserFlow,
+  page: Page,
+  definition: UserFlowDefinition,
+  onProgress?: (message: string) => void
+) {
+  for (let index = 0; index < definition.steps.length; index++) {
+    const step = definition.steps[index];
+    const name = step.name || `${step.type} ${index + 1}`;
+    onProgress?.(`Flow "${definition.name}" step ${index + 1}/${definition.steps.length}: ${name}`);
+
+    if (step.type === 'navigation') {
+      await flow.navigate(step.url || (() => runActions(page, step.actions)), { name });
+    } else if (step.type === 'timespan') {
+      await flow.startTimespan({ name });
+      await runActions(page, step.actions);
+      await flow.endTimespan();
+    } else {
+      await runActions(page, step.actions);
+      await flow.snapshot({ name });
+    }
+  }
+}
+
+/**
+ * Per-step category scores from a flow result
+ */
+export function summarizeFlowResult(result: FlowResult): FlowStepSummary[] {
+  return result.steps.map(step => {
+    const scores: FlowStepSummary['scores'] = {};
+    SCORE_CATEGORIES.forEach(category => {
+      const score = step.lhr.categories[category]?.score;
+      if (typeof score === 'number') scores[category] = Math.round(score * 100);
+    });
+    return { name: step.name, gatherMode: step.lhr.gatherMode, scores };
+  });
+}
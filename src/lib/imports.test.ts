@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyUrlOverride, buildImport, detectMapping, fieldForHeader, validateUrlOverrides } from './imports';
+import { ImportTable } from '@/types';
+
+const csv = (rows: string[][]): ImportTable => ({ format: 'csv', fileName: 'urls.csv', rows });
+
+describe('fieldForHeader', () => {
+  it('recognises header spellings', () => {
+    assert.equal(fieldForHeader('Page URL'), 'url');
+    assert.equal(fieldForHeader('Device'), 'formFactor');
+    assert.equal(fieldForHeader('Min Performance Score'), 'score:performance');
+    assert.equal(fieldForHeader('min. best practices'), 'score:best-practices');
+    assert.equal(fieldForHeader('Max LCP (ms)'), 'metric:lcp');
+    assert.equal(fieldForHeader('Page weight budget'), 'metric:totalByteWeight');
+    assert.equal(fieldForHeader('Notes'), null);
+  });
+});
+
+describe('detectMapping', () => {
+  it('reads named columns from a header row', () => {
+    const rows = [['Label', 'URL', 'Notes', 'Max LCP (ms)', 'Link'], ['Home', 'https://example.com/', 'x', '2500', '']];
+    assert.deepEqual(detectMapping(rows), { hasHeader: true, columns: ['label', 'url', null, 'metric:lcp', null] });
+  });
+
+  it('treats a first row without URLs as a header when later rows have them', () => {
+    const rows = [['Pages', 'Owner'], ['https://example.com/', 'web'], ['https://example.com/about', 'web']];
+    assert.deepEqual(detectMapping(rows), { hasHeader: true, columns: ['url', null] });
+  });
+
+  it('picks the column with the most URLs when there is no header', () => {
+    const rows = [['Home', 'https://example.com/'], ['https://example.com/a', 'https://example.com/about']];
+    assert.deepEqual(detectMapping(rows), { hasHeader: false, columns: [null, 'url'] });
+    assert.deepEqual(detectMapping([]), { hasHeader: false, columns: [] });
+  });
+
+  it('only takes a header from the first row', () => {
+    const rows = [['', ''], ['URL', 'Label'], ['https://example.com/', 'Home']];
+    assert.equal(detectMapping(rows).hasHeader, false);
+  });
+});
+
+describe('buildImport', () => {
+  const columns = detectMapping([['URL', 'Device', 'Group', 'Min Performance', 'Max CLS']]).columns;
+
+  it('reads URLs with their overrides and skips blank rows', () => {
+    const result = buildImport(csv([
+      ['URL', 'Device', 'Group', 'Min Performance', 'Max CLS'],
+      ['https://example.com', 'Mobile', 'Home', '80', '0.1'],
+      ['', ' ', '', '', ''],
+      ['https://example.com/about', '', '', '', '']
+    ]), { hasHeader: true, columns });
+
+    assert.deepEqual(result, {
+      targets: [
+        { url: 'https://example.com/', formFactor: 'mobile', group: 'Home', budget: { scores: { performance: 80 }, metrics: { cls: 0.1 } } },
+        { url: 'https://example.com/about' }
+      ],
+      errors: []
+    });
+  });
+
+  it('reports invalid rows by their row number in the file', () => {
+    const result = buildImport(csv([
+      ['URL', 'Device', 'Group', 'Min Performance', 'Max CLS'],
+      ['https://example.com/', '', '', '', ''],
+      ['example.com/pricing', '', '', '', ''],
+      ['https://example.com/a', 'tablet', '', '', ''],
+      ['https://example.com/b', '', '', '120', ''],
+      ['https://example.com/c', '', '', '', '-1'],
+      ['', 'desktop', 'Orphans', '', ''],
+      ['https://example.com', '', '', '', '']
+    ]), { hasHeader: true, columns });
+
+    assert.deepEqual(result.targets.map(target => target.url), ['https://example.com/']);
+    assert.deepEqual(result.errors, [
+      { row: 3, message: '"example.com/pricing" is not a valid http(s) URL' },
+      { row: 4, message: 'Form factor must be desktop or mobile, not "tablet"' },
+      { row: 5, message: 'Performance score must be a number between 0 and 100, not "120"' },
+      { row: 6, message: 'CLS must be a non-negative number, not "-1"' },
+      { row: 7, message: 'Missing URL' },
+      { row: 8, message: 'Duplicate of row 2' }
+    ]);
+  });
+
+  it('numbers JSON lists by item', () => {
+    const table: ImportTable = {
+      format: 'json',
+      fileName: 'urls.json',
+      rows: [['url', 'label'], ['https://example.com/', 'Home'], ['https://example.com/', 'Again']]
+    };
+    assert.deepEqual(buildImport(table, detectMapping(table.rows)).errors, [{ row: 2, message: 'Duplicate of item 1' }]);
+  });
+});
+
+describe('validateUrlOverrides', () => {
+  it('checks URLs, form factors and budgets', () => {
+    assert.throws(() => validateUrlOverrides({}), /must be a list/);
+    assert.throws(() => validateUrlOverrides([{ url: 'ftp://example.com/' }]), /URL override #1 needs a valid http\(s\) URL/);
+    assert.throws(
+      () => validateUrlOverrides([{ url: 'https://example.com/', budget: { metrics: { lcp: -1 } } }]),
+      /^ImportError: URL override for https:\/\/example.com\/: limit for "lcp" must be a non-negative number$/
+    );
+  });
+});
+
+describe('applyUrlOverride', () => {
+  it('adds the URL budget after the session budgets and switches form factor', () => {
+    const config = applyUrlOverride(
+      { formFactor: 'desktop', budgets: [{ path: '**', scores: { performance: 50 } }] },
+      { url: 'https://example.com/', formFactor: 'mobile', budget: { scores: { performance: 90 } } }
+    );
+    assert.equal(config.formFactor, 'mobile');
+    assert.deepEqual(config.budgets, [
+      { path: '**', scores: { performance: 50 } },
+      { path: 'https://example.com/', scores: { performance: 90 } }
+    ]);
+  });
+});
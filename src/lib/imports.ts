@@ -0,0 +1,253 @@
+import { BUDGET_METRICS, BudgetParseError, validateBudgets } from './budgets';
+import {
+  BudgetMetric,
+  ImportField,
+  ImportMapping,
+  ImportResult,
+  ImportRowError,
+  ImportTable,
+  LighthouseConfig,
+  ScoreCategory,
+  UrlOverride
+} from '@/types';
+
+/**
+ * Most rows one import may have
+ */
+export const MAX_IMPORT_ROWS = 10000;
+
+const SCORE_FIELDS: Array<[ScoreCategory, string]> = [
+  ['performance', 'Performance'],
+  ['accessibility', 'Accessibility'],
+  ['best-practices', 'Best Practices'],
+  ['seo', 'SEO']
+];
+
+/**
+ * Every field a column can be mapped to, with its label in the mapping step
+ */
+export const IMPORT_FIELDS: Array<{ value: ImportField; label: string }> = [
+  { value: 'url', label: 'URL' },
+  { value: 'formFactor', label: 'Form factor' },
+  { value: 'label', label: 'Label' },
+  { value: 'group', label: 'Group' },
+  ...SCORE_FIELDS.map(([category, label]) => ({ value: `score:${category}` as ImportField, label: `Min ${label} score` })),
+  ...(Object.keys(BUDGET_METRICS) as BudgetMetric[]).map(metric => ({
+    value: `metric:${metric}` as ImportField,
+    label: `Max ${BUDGET_METRICS[metric].label}`
+  }))
+];
+
+// Header names (lowercased, letters and digits only) recognised for each field
+const HEADER_ALIASES: Record<string, ImportField> = {
+  url: 'url', urls: 'url', link: 'url', href: 'url', address: 'url', page: 'url', pageurl: 'url', loc: 'url', website: 'url',
+  formfactor: 'formFactor', device: 'formFactor', strategy: 'formFactor',
+  label: 'label', name: 'label', title: 'label', description: 'label',
+  group: 'group', category: 'group', section: 'group', template: 'group',
+  performance: 'score:performance', perf: 'score:performance',
+  accessibility: 'score:accessibility', a11y: 'score:accessibility',
+  bestpractices: 'score:best-practices', bp: 'score:best-practices',
+  seo: 'score:seo',
+  lcp: 'metric:lcp', fcp: 'metric:fcp', tbt: 'metric:tbt', cls: 'metric:cls',
+  speedindex: 'metric:speedIndex', si: 'metric:speedIndex',
+  tti: 'metric:tti', interactive: 'metric:tti',
+  totalbyteweight: 'metric:totalByteWeight', pageweight: 'metric:totalByteWeight', totalsize: 'metric:totalByteWeight'
+};
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The field a header cell names, e.g. "Page URL", "Min Performance" or "Max LCP (ms)"
+ */
+export function fieldForHeader(header: string): ImportField | null {
+  const key = header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/^(min|max)/, '')
+    .replace(/(score|budget|ms)$/, '');
+  return HEADER_ALIASES[key] || null;
+}
+
+/**
+ * Guess whether the first row is a header and what each column holds. The
+ * first row is a header when it has no URL but names a field, or a later row
+ * has a URL; without named columns, the column with the most URLs is the URL column.
+ */
+export function detectMapping(rows: string[][]): ImportMapping {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const firstRow = rows.find(row => row.some(cell => cell.trim().length > 0)) || [];
+  const hasHeader = rows[0] === firstRow &&
+    !firstRow.some(isHttpUrl) &&
+    (firstRow.some(cell => fieldForHeader(cell) !== null) || rows.slice(1).some(row => row.some(isHttpUrl)));
+
+  const columns: Array<ImportField | null> = [];
+  for (let column = 0; column < width; column++) {
+    const field = hasHeader ? fieldForHeader(firstRow[column] || '') : null;
+    // Only the first column named for a field is mapped to it
+    columns.push(field && !columns.includes(field) ? field : null);
+  }
+
+  if (!columns.includes('url') && width > 0) {
+    const urlCounts = columns.map((_, column) => rows.filter(row => isHttpUrl(row[column] || '')).length);
+    const best = urlCounts.indexOf(Math.max(...urlCounts));
+    columns[best] = 'url';
+  }
+  return { hasHeader, columns };
+}
+
+function parseLimit(field: ImportField, value: string): number {
+  const number = Number(value.replace(/,/g, ''));
+  if (field.startsWith('score:')) {
+    if (!Number.isFinite(number) || number < 0 || number > 100) {
+      const [, label] = SCORE_FIELDS.find(([category]) => `score:${category}` === field)!;
+      throw new ImportError(`${label} score must be a number between 0 and 100, not "${value}"`);
+    }
+  } else if (!Number.isFinite(number) || number < 0) {
+    throw new ImportError(`${BUDGET_METRICS[field.slice(7) as BudgetMetric].label} must be a non-negative number, not "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Read one row into a URL and its overrides; throws ImportError when the row is invalid
+ */
+function parseRow(row: string[], columns: Array<ImportField | null>): UrlOverride {
+  const target: UrlOverride = { url: '' };
+  columns.forEach((field, column) => {
+    const value = (row[column] || '').trim();
+    if (!field || value.length === 0) return;
+
+    if (field === 'url') {
+      if (!isHttpUrl(value)) throw new ImportError(`"${value}" is not a valid http(s) URL`);
+      target.url = new URL(value).toString();
+    } else if (field === 'formFactor') {
+      const formFactor = value.toLowerCase();
+      if (formFactor !== 'desktop' && formFactor !== 'mobile') {
+        throw new ImportError(`Form factor must be desktop or mobile, not "${value}"`);
+      }
+      target.formFactor = formFactor;
+    } else if (field === 'label' || field === 'group') {
+      target[field] = value;
+    } else if (field.startsWith('score:')) {
+      target.budget = target.budget || {};
+      target.budget.scores = { ...target.budget.scores, [field.slice(6)]: parseLimit(field, value) };
+    } else {
+      target.budget = target.budget || {};
+      target.budget.metrics = { ...target.budget.metrics, [field.slice(7)]: parseLimit(field, value) };
+    }
+  });
+
+  if (!target.url) throw new ImportError('Missing URL');
+  return target;
+}
+
+/**
+ * Turn an import table into URLs with their per-row overrides. Blank rows are
+ * skipped; invalid and duplicate rows are reported by row number and left out.
+ */
+export function buildImport(table: ImportTable, mapping: ImportMapping): ImportResult {
+  const targets: UrlOverride[] = [];
+  const errors: ImportRowError[] = [];
+  const seen: Record<string, number> = {};
+  // JSON lists are numbered by item, and a list of objects gets a header row of keys
+  const firstNumber = table.format === 'json' && mapping.hasHeader ? 0 : 1;
+
+  table.rows.forEach((row, index) => {
+    if (index === 0 && mapping.hasHeader) return;
+    if (!row.some(cell => cell.trim().length > 0)) return;
+
+    const number = index + firstNumber;
+    try {
+      const target = parseRow(row, mapping.columns);
+      if (seen[target.url] !== undefined) {
+        throw new ImportError(`Duplicate of ${table.format === 'json' ? 'item' : 'row'} ${seen[target.url]}`);
+      }
+      seen[target.url] = number;
+      targets.push(target);
+    } catch (error) {
+      if (!(error instanceof ImportError)) throw error;
+      errors.push({ row: number, message: error.message });
+    }
+  });
+
+  return { targets, errors };
+}
+
+/**
+ * Validate an untrusted override list (request body, stored schedule)
+ */
+export function validateUrlOverrides(value: unknown): UrlOverride[] {
+  if (!Array.isArray(value)) {
+    throw new ImportError('URL overrides must be a list');
+  }
+
+  return value.map((item, index) => {
+    const raw = (item || {}) as Record<string, any>;
+    if (typeof raw.url !== 'string' || !isHttpUrl(raw.url)) {
+      throw new ImportError(`URL override #${index + 1} needs a valid http(s) URL`);
+    }
+    const where = `URL override for ${raw.url}`;
+    if (raw.formFactor !== undefined && raw.formFactor !== 'desktop' && raw.formFactor !== 'mobile') {
+      throw new ImportError(`${where}: form factor must be desktop or mobile`);
+    }
+    (['label', 'group'] as const).forEach(field => {
+      if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+        throw new ImportError(`${where}: ${field} must be a string`);
+      }
+    });
+
+    const override: UrlOverride = { url: raw.url, formFactor: raw.formFactor, label: raw.label, group: raw.group };
+    if (raw.budget !== undefined) {
+      try {
+        const [{ scores, metrics }] = validateBudgets([{ ...raw.budget, path: raw.url }]);
+        override.budget = { scores, metrics };
+      } catch (error) {
+        if (error instanceof BudgetParseError) {
+          throw new ImportError(`${where}: ${error.message.replace(/^Budget #1: /, '')}`);
+        }
+        throw error;
+      }
+    }
+    return override;
+  });
+}
+
+/**
+ * Overrides carrying more than a URL, as sent with an audit request
+ */
+export function compactOverrides(targets: UrlOverride[]): UrlOverride[] | undefined {
+  const overrides = targets.filter(target => target.formFactor || target.label || target.group || target.budget);
+  return overrides.length > 0 ? overrides : undefined;
+}
+
+/**
+ * The config one URL runs with: its budget is added after the session's so
+ * it wins, and its form factor applies unless the session compares variants
+ */
+export function applyUrlOverride(config: LighthouseConfig, override?: UrlOverride): LighthouseConfig {
+  if (!override) return config;
+
+  const budgets = override.budget
+    ? (config.budgets || []).concat({ path: override.url, ...override.budget })
+    : config.budgets;
+  if (!override.formFactor || config.variants || override.formFactor === config.formFactor) {
+    return { ...config, budgets };
+  }
+  // The session's profile belongs to the other form factor; use the default one
+  return { ...config, budgets, formFactor: override.formFactor, profile: undefined };
+}
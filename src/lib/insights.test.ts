@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkInputs, findUrlInsights, generateInsights, InsightInput, InsightsError, InsightsProvider, InsightsRequest } from './insights';
+import { createFakeProvider } from './llm';
+import { AuditResult } from '@/types';
+
+function result(url: string, performance: number, extra: Partial<AuditResult> = {}): AuditResult {
+  return {
+    url,
+    scores: { performance, accessibility: 95, 'best-practices': 92, seo: 100, pwa: 'N/A' },
+    metrics: { lcp: { value: 4200, score: 0.3 }, cls: { value: 0.01, score: 1 } },
+    opportunities: [
+      { title: 'Reduce unused JavaScript', displayValue: 'Est savings of 1.2 s' },
+      { title: 'Properly size images', displayValue: 'Est savings of 300 KiB' },
+      { title: 'Eliminate render-blocking resources' }
+    ],
+    ...extra
+  };
+}
+
+// The fake provider, recording every request it answers
+function recording(fixtures: unknown[] = []): { provider: InsightsProvider; requests: InsightsRequest[] } {
+  const fake = createFakeProvider(fixtures);
+  const requests: InsightsRequest[] = [];
+  return {
+    requests,
+    provider: { ...fake, complete: request => {
+      requests.push(request);
+      return fake.complete(request);
+    } }
+  };
+}
+
+const urlsReply = (urls: string[], fixes: unknown[] = []) => ({
+  summary: 'Needs work.',
+  urls: urls.map(url => ({ url, strengths: ['SEO is perfect'], fixes, redFlags: [] }))
+});
+
+describe('generateInsights', () => {
+  it('returns insights for every successful result in one request', async () => {
+    const { provider, requests } = recording();
+    const insights = await generateInsights([
+      result('https://example.com/', 42),
+      { url: 'https://example.com/broken', error: 'Timed out' },
+      result('https://example.com/about', 91)
+    ], provider, 'mobile');
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].kind, 'urls');
+    assert.match(requests[0].prompt, /audited on mobile devices/);
+    assert.deepEqual(insights.urls.map(item => item.url), ['https://example.com/', 'https://example.com/about']);
+    assert.deepEqual(insights.urls[0].fixes.map(fix => fix.impact), ['high', 'medium', 'low']);
+    assert.deepEqual(insights.urls[0].redFlags, ['LCP is poor (4.2 s)']);
+    assert.equal(insights.summary, '2 page(s) average 67 for performance; 1 score below 50.');
+    assert.deepEqual([insights.provider, insights.model, insights.chunks], ['fake', 'fixtures', 1]);
+  });
+
+  it('splits large batches and merges the part summaries', async () => {
+    const { provider, requests } = recording();
+    const results = Array.from({ length: 45 }, (_, index) => result(`https://example.com/page-${index}`, 30 + index));
+    const insights = await generateInsights(results, provider, 'desktop');
+
+    assert.deepEqual(requests.map(request => request.kind), ['urls', 'urls', 'urls', 'summary']);
+    assert.deepEqual(requests.slice(0, 3).map(request => request.inputs.length), [20, 20, 5]);
+    assert.deepEqual(requests[3].summaries.length, 3);
+    assert.equal(insights.chunks, 3);
+    assert.equal(insights.urls.length, 45);
+    assert.equal(insights.summary, requests[3].summaries.join(' '));
+  });
+
+  it('keys insights by profile when variants are compared', async () => {
+    const { provider, requests } = recording();
+    const desktop = result('https://example.com/', 90, { profile: 'Desktop' });
+    const mobile = result('https://example.com/', 55, { profile: 'Moto G' });
+    const insights = await generateInsights([desktop, mobile], provider, 'desktop');
+
+    assert.match(requests[0].prompt, /2 device profiles \(Desktop, Moto G\)/);
+    assert.equal(findUrlInsights(insights, mobile)?.profile, 'Moto G');
+    assert.equal(findUrlInsights(insights, desktop)?.profile, 'Desktop');
+  });
+
+  it('asks again when a reply is not valid JSON', async () => {
+    const { provider, requests } = recording([
+      'Here are your insights!',
+      `\`\`\`json\n${JSON.stringify(urlsReply(['https://example.com/']))}\n\`\`\``
+    ]);
+    const insights = await generateInsights([result('https://example.com/', 50)], provider, 'desktop');
+
+    assert.equal(requests.length, 2);
+    assert.match(requests[1].prompt, /Your previous reply was rejected \(.+\)/);
+    assert.equal(insights.summary, 'Needs work.');
+  });
+
+  it('asks again when a reply misses the expected shape', async () => {
+    const { provider, requests } = recording([
+      urlsReply(['https://example.com/'], [{ title: 'Cache assets', impact: 'urgent' }]),
+      urlsReply(['https://example.com/'], [
+        { title: 'Defer analytics', impact: 'low' },
+        { title: 'Preload the hero image', impact: 'HIGH', estimatedImpact: 'LCP -0.8 s' },
+        { title: 'Compress images', impact: 'medium' }
+      ])
+    ]);
+    const insights = await generateInsights([result('https://example.com/', 50)], provider, 'desktop');
+
+    assert.match(requests[1].prompt, /impact must be one of high, medium, low/);
+    assert.deepEqual(insights.urls[0].fixes, [
+      { title: 'Preload the hero image', impact: 'high', estimatedImpact: 'LCP -0.8 s' },
+      { title: 'Compress images', impact: 'medium', estimatedImpact: '' },
+      { title: 'Defer analytics', impact: 'low', estimatedImpact: '' }
+    ]);
+  });
+
+  it('gives up after a second invalid reply', async () => {
+    const urls = ['https://example.com/', 'https://example.com/about'];
+    const { provider, requests } = recording([
+      urlsReply(urls.slice(0, 1)),
+      urlsReply([urls[0], urls[0], urls[1]])
+    ]);
+
+    await assert.rejects(
+      generateInsights(urls.map(url => result(url, 50)), provider, 'desktop'),
+      (error: Error) => error instanceof InsightsError &&
+        error.message === 'Fake (offline fixtures) (fixtures) returned invalid insights: Duplicate entry for https://example.com/'
+    );
+    assert.match(requests[1].prompt, /Missing entries for https:\/\/example.com\/about/);
+  });
+
+  it('rejects entries for pages that were not audited', async () => {
+    const { provider } = recording([urlsReply(['https://other.example/']), urlsReply(['https://other.example/'])]);
+    await assert.rejects(
+      generateInsights([result('https://example.com/', 50)], provider, 'desktop'),
+      /Unexpected entry for https:\/\/other.example\//
+    );
+  });
+
+  it('needs at least one successful audit', async () => {
+    const { provider, requests } = recording();
+    await assert.rejects(
+      generateInsights([{ url: 'https://example.com/', error: 'Timed out' }], provider, 'desktop'),
+      /No successful audits to analyse/
+    );
+    assert.equal(requests.length, 0);
+  });
+});
+
+describe('chunkInputs', () => {
+  const input = (url: string, profile?: string): InsightInput => ({
+    url, profile, scores: {}, metrics: [], opportunities: [], budgetFailures: []
+  });
+
+  it('keeps the variants of a URL in one chunk', () => {
+    const inputs = [input('a', 'Desktop'), input('a', 'Moto G'), input('b', 'Desktop'), input('b', 'Moto G'), input('c', 'Desktop')];
+    const chunks = chunkInputs(inputs, 100000, 3);
+    assert.deepEqual(chunks.map(chunk => chunk.map(item => item.url)), [['a', 'a'], ['b', 'b', 'c']]);
+  });
+
+  it('starts a new chunk when the data would grow too large', () => {
+    const size = JSON.stringify(input('a')).length;
+    const chunks = chunkInputs([input('a'), input('b'), input('c')], size * 2, 20);
+    assert.deepEqual(chunks.map(chunk => chunk.length), [2, 1]);
+  });
+});
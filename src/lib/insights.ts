@@ -0,0 +1,355 @@
+import { describeBudgetFailure } from './budgets';
+import { LAB_METRICS, formatMetricValue } from './metrics';
+import {
+  AuditResult,
+  BatchInsights,
+  FixIssue,
+  InsightFix,
+  InsightImpact,
+  InsightsProviderName,
+  InsightsSettings,
+  LabMetric,
+  LighthouseConfig,
+  UrlInsights
+} from '@/types';
+
+/**
+ * Rough size of the audit data one model request may carry (about 4 characters per token)
+ */
+export const MAX_CHUNK_CHARS = 32000;
+
+/**
+ * Most URLs one model request covers, so the reply fits the output limit
+ */
+export const MAX_CHUNK_URLS = 20;
+
+/**
+ * Every insights provider, with its label in the dashboard, default model
+ * (Azure and OpenAI-compatible ones take theirs from the environment) and highest temperature
+ */
+export const INSIGHTS_PROVIDERS: Record<InsightsProviderName, { label: string; defaultModel?: string; maxTemperature: number }> = {
+  openai: { label: 'OpenAI', defaultModel: 'gpt-4o', maxTemperature: 2 },
+  azure: { label: 'Azure OpenAI', maxTemperature: 2 },
+  anthropic: { label: 'Anthropic', defaultModel: 'claude-sonnet-4-5', maxTemperature: 1 },
+  'openai-compatible': { label: 'OpenAI-compatible (Ollama, llama.cpp)', maxTemperature: 2 },
+  fake: { label: 'Fake (offline fixtures)', defaultModel: 'fixtures', maxTemperature: 2 }
+};
+
+/**
+ * Providers a session can pick. The fake provider is only offered when
+ * AI_FAKE_FIXTURES is set, so a server can't be asked for made-up insights.
+ */
+export function insightsProviderNames(): InsightsProviderName[] {
+  const names = Object.keys(INSIGHTS_PROVIDERS) as InsightsProviderName[];
+  return process.env.AI_FAKE_FIXTURES ? names : names.filter(name => name !== 'fake');
+}
+
+export const DEFAULT_TEMPERATURE = 0.2;
+
+export const IMPACTS: InsightImpact[] = ['high', 'medium', 'low'];
+export const LIMITS = { strengths: 3, fixes: 5, redFlags: 3 };
+
+export class InsightsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsightsError';
+  }
+}
+
+/**
+ * The facts about one result that the model sees
+ */
+export interface InsightInput {
+  url: string;
+  profile?: string; // Only set when the session compares variants
+  label?: string;
+  scores: Record<string, number>;
+  metrics: Array<{ name: string; value: string; rating: 'good' | 'needs improvement' | 'poor' | 'unscored' }>;
+  opportunities: Array<{ title: string; savings?: string }>;
+  budgetFailures: string[];
+}
+
+/**
+ * One model request. `inputs`, `summaries` and `issues` carry what the
+ * prompt describes, so fakes can answer without parsing it.
+ */
+export interface InsightsRequest {
+  kind: 'urls' | 'summary' | 'fixes';
+  system: string;
+  prompt: string;
+  inputs: InsightInput[];
+  summaries: string[];
+  issues: FixIssue[];
+}
+
+/**
+ * A model behind some API that answers insights requests with a JSON object
+ */
+export interface InsightsProvider {
+  name: InsightsProviderName;
+  model: string;
+  complete: (request: InsightsRequest) => Promise<string>;
+}
+
+/**
+ * Validate untrusted insights settings (request body, CLI flags)
+ */
+export function validateInsightsSettings(value: unknown): InsightsSettings {
+  const raw = (value || {}) as Record<string, unknown>;
+  const names = insightsProviderNames();
+  if (!names.includes(raw.provider as InsightsProviderName)) {
+    throw new InsightsError(`AI provider must be one of ${names.join(', ')}`);
+  }
+  const provider = raw.provider as InsightsProviderName;
+
+  if (raw.model !== undefined && (typeof raw.model !== 'string' || raw.model.length > 200)) {
+    throw new InsightsError('AI model must be a string of at most 200 characters');
+  }
+  const { maxTemperature } = INSIGHTS_PROVIDERS[provider];
+  if (raw.temperature !== undefined &&
+      (typeof raw.temperature !== 'number' || !Number.isFinite(raw.temperature) ||
+       raw.temperature < 0 || raw.temperature > maxTemperature)) {
+    throw new InsightsError(`AI temperature must be a number between 0 and ${maxTemperature} for ${INSIGHTS_PROVIDERS[provider].label}`);
+  }
+  return { provider, model: (raw.model as string | undefined)?.trim() || undefined, temperature: raw.temperature as number | undefined };
+}
+
+export const SYSTEM_PROMPT = 'You are a web performance expert. Reply with a single JSON object and nothing else.';
+
+const insightKey = (url: string, profile?: string) => `${url}\n${profile || ''}`;
+
+const rating = (score: number | null): InsightInput['metrics'][number]['rating'] =>
+  score === null ? 'unscored' : score >= 0.9 ? 'good' : score >= 0.5 ? 'needs improvement' : 'poor';
+
+function toInput(result: AuditResult, compared: boolean): InsightInput {
+  const { pwa, ...scores } = result.scores!;
+  return {
+    url: result.url,
+    profile: compared ? result.profile : undefined,
+    label: result.label,
+    scores,
+    metrics: (Object.keys(LAB_METRICS) as LabMetric[])
+      .filter(metric => result.metrics?.[metric])
+      .map(metric => ({
+        name: LAB_METRICS[metric].label,
+        value: formatMetricValue(metric, result.metrics![metric]!.value),
+        rating: rating(result.metrics![metric]!.score)
+      })),
+    opportunities: (result.opportunities || []).slice(0, 5).map(item => ({ title: item.title, savings: item.displayValue })),
+    budgetFailures: (result.budget?.checks || []).filter(check => !check.passed).map(describeBudgetFailure)
+  };
+}
+
+/**
+ * Split inputs into requests that fit the model. A URL's variants stay in
+ * one chunk so they can be compared.
+ */
+export function chunkInputs(inputs: InsightInput[], maxChars = MAX_CHUNK_CHARS, maxUrls = MAX_CHUNK_URLS): InsightInput[][] {
+  const groups: InsightInput[][] = [];
+  inputs.forEach(input => {
+    const group = groups.find(items => items[0].url === input.url);
+    if (group) group.push(input);
+    else groups.push([input]);
+  });
+
+  const chunks: InsightInput[][] = [];
+  let chunk: InsightInput[] = [];
+  let size = 0;
+  groups.forEach(group => {
+    const groupSize = group.reduce((total, input) => total + JSON.stringify(input).length, 0);
+    if (chunk.length > 0 && (size + groupSize > maxChars || chunk.length + group.length > maxUrls)) {
+      chunks.push(chunk);
+      chunk = [];
+      size = 0;
+    }
+    chunk = chunk.concat(group);
+    size += groupSize;
+  });
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+function urlsRequest(inputs: InsightInput[], audience: string, compared: boolean): InsightsRequest {
+  const prompt = `Below are Lighthouse audit results for ${inputs.length} page(s) audited on ${audience}.
+
+Reply with this JSON shape:
+{
+  "summary": "2-3 sentences on this batch: is it performing well or does it need significant work, and the advice that applies to most pages",
+  "urls": [
+    {
+      "url": "the url exactly as given",${compared ? `
+      "profile": "the profile exactly as given",` : ''}
+      "strengths": ["up to ${LIMITS.strengths} short strengths backed by the scores"],
+      "fixes": [{ "title": "one actionable fix", "impact": "high | medium | low", "estimatedImpact": "expected gain, e.g. \\"LCP -1.2 s\\" or \\"Performance +10\\"" }],
+      "redFlags": ["up to ${LIMITS.redFlags} serious problems, or none"]
+    }
+  ]
+}
+
+Give one "urls" entry per page${compared ? ' and profile' : ''}, with up to ${LIMITS.fixes} fixes ordered by impact. Base fixes on the opportunities, metrics and budget failures; avoid generic advice.${compared ? `
+Each URL was audited once per profile: point out in the fixes and red flags which problems only affect one profile.` : ''}
+
+Audit data (one JSON object per line):
+${inputs.map(input => JSON.stringify(input)).join('\n')}
+`;
+  return { kind: 'urls', system: SYSTEM_PROMPT, prompt, inputs, summaries: [], issues: [] };
+}
+
+function summaryRequest(inputs: InsightInput[], summaries: string[]): InsightsRequest {
+  const prompt = `A batch of ${inputs.length} Lighthouse audit results was reviewed in ${summaries.length} parts. The summaries of the parts are:
+
+${summaries.map((summary, index) => `${index + 1}. ${summary}`).join('\n')}
+
+Reply with {"summary": "..."}: 2-3 sentences on the whole batch, saying whether it performs well or needs significant work and which advice applies to most pages.
+`;
+  return { kind: 'summary', system: SYSTEM_PROMPT, prompt, inputs, summaries, issues: [] };
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function stringList(value: unknown, where: string, limit: number): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new InsightsError(`${where} must be a list of strings`);
+  }
+  return (value as string[]).map(item => item.trim()).filter(Boolean).slice(0, limit);
+}
+
+function validateFixes(value: unknown, where: string): InsightFix[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new InsightsError(`${where} must be a list`);
+
+  const fixes = value.map((item, index) => {
+    if (!isObject(item) || typeof item.title !== 'string' || !item.title.trim()) {
+      throw new InsightsError(`${where} #${index + 1} needs a title`);
+    }
+    const impact = typeof item.impact === 'string' ? item.impact.toLowerCase() : item.impact;
+    if (!IMPACTS.includes(impact as InsightImpact)) {
+      throw new InsightsError(`${where} #${index + 1}: impact must be one of ${IMPACTS.join(', ')}`);
+    }
+    if (item.estimatedImpact !== undefined && typeof item.estimatedImpact !== 'string') {
+      throw new InsightsError(`${where} #${index + 1}: estimatedImpact must be a string`);
+    }
+    return { title: item.title.trim(), impact: impact as InsightImpact, estimatedImpact: (item.estimatedImpact as string | undefined)?.trim() || '' };
+  });
+  // Highest impact first, keeping the model's order within a level
+  return fixes
+    .map((fix, index) => ({ fix, index }))
+    .sort((a, b) => IMPACTS.indexOf(a.fix.impact) - IMPACTS.indexOf(b.fix.impact) || a.index - b.index)
+    .map(item => item.fix)
+    .slice(0, LIMITS.fixes);
+}
+
+function validateSummary(value: Record<string, unknown>): string {
+  if (typeof value.summary !== 'string' || !value.summary.trim()) {
+    throw new InsightsError('"summary" must be a non-empty string');
+  }
+  return value.summary.trim();
+}
+
+/**
+ * Check a reply to a `urls` request: every page in the request must have
+ * exactly one entry, and nothing else may
+ */
+export function validateUrlInsights(value: unknown, inputs: InsightInput[]): { summary: string; urls: UrlInsights[] } {
+  if (!isObject(value)) throw new InsightsError('Reply must be a JSON object');
+  const summary = validateSummary(value);
+  if (!Array.isArray(value.urls)) throw new InsightsError('"urls" must be a list');
+
+  const expected = inputs.map(input => insightKey(input.url, input.profile));
+  const seen: string[] = [];
+  const urls = value.urls.map((item, index): UrlInsights => {
+    if (!isObject(item) || typeof item.url !== 'string') {
+      throw new InsightsError(`urls #${index + 1} needs a url`);
+    }
+    const profile = typeof item.profile === 'string' && item.profile ? item.profile : undefined;
+    const key = insightKey(item.url, profile);
+    const where = profile ? `${item.url} (${profile})` : item.url;
+    if (!expected.includes(key)) throw new InsightsError(`Unexpected entry for ${where}`);
+    if (seen.includes(key)) throw new InsightsError(`Duplicate entry for ${where}`);
+    seen.push(key);
+
+    return {
+      url: item.url,
+      profile,
+      strengths: stringList(item.strengths, `${where}: strengths`, LIMITS.strengths),
+      fixes: validateFixes(item.fixes, `${where}: fix`),
+      redFlags: stringList(item.redFlags, `${where}: redFlags`, LIMITS.redFlags)
+    };
+  });
+
+  const missing = inputs.filter(input => !seen.includes(insightKey(input.url, input.profile)));
+  if (missing.length > 0) {
+    throw new InsightsError(`Missing entries for ${missing.map(input => input.url).join(', ')}`);
+  }
+  return { summary, urls };
+}
+
+/**
+ * Send a request and validate the reply, asking once more when it doesn't parse or validate
+ */
+export async function completeValid<T>(provider: InsightsProvider, request: InsightsRequest, validate: (value: unknown) => T): Promise<T> {
+  let problem = '';
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const reply = await provider.complete(attempt === 0 ? request : {
+      ...request,
+      prompt: `${request.prompt}\nYour previous reply was rejected (${problem}). Follow the JSON shape exactly.`
+    });
+    try {
+      // Some models wrap JSON in a Markdown fence despite being asked not to
+      return validate(JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')));
+    } catch (error) {
+      if (!(error instanceof InsightsError) && !(error instanceof SyntaxError)) throw error;
+      problem = error.message;
+    }
+  }
+  throw new InsightsError(`${INSIGHTS_PROVIDERS[provider.name].label} (${provider.model}) returned invalid insights: ${problem}`);
+}
+
+/**
+ * Ask a provider for per-URL insights and a batch summary. Large batches are
+ * split into chunks whose summaries are merged by one more request.
+ */
+export async function generateInsights(
+  results: AuditResult[],
+  provider: InsightsProvider,
+  formFactor: LighthouseConfig['formFactor']
+): Promise<BatchInsights> {
+  // Sessions comparing variants audit each URL once per profile
+  const variants = results
+    .map(result => result.profile)
+    .filter((profile, index, all): profile is string => !!profile && all.indexOf(profile) === index);
+  const compared = variants.length > 1;
+  const audience = compared
+    ? `${variants.length} device profiles (${variants.join(', ')})`
+    : formFactor === 'mobile' ? 'mobile devices' : 'desktop';
+
+  const inputs = results.filter(result => result.scores).map(result => toInput(result, compared));
+  if (inputs.length === 0) throw new InsightsError('No successful audits to analyse');
+
+  const chunks = chunkInputs(inputs);
+  const summaries: string[] = [];
+  let urls: UrlInsights[] = [];
+  for (const chunk of chunks) {
+    const reply = await completeValid(provider, urlsRequest(chunk, audience, compared), value => validateUrlInsights(value, chunk));
+    summaries.push(reply.summary);
+    urls = urls.concat(reply.urls);
+  }
+
+  const summary = summaries.length === 1
+    ? summaries[0]
+    : await completeValid(provider, summaryRequest(inputs, summaries), value => {
+      if (!isObject(value)) throw new InsightsError('Reply must be a JSON object');
+      return validateSummary(value);
+    });
+
+  return { summary, urls, provider: provider.name, model: provider.model, chunks: chunks.length, generatedAt: new Date().toISOString() };
+}
+
+/**
+ * The insights for one result; entries without a profile cover every profile
+ */
+export function findUrlInsights(insights: BatchInsights | undefined, result: AuditResult): UrlInsights | undefined {
+  return insights?.urls.find(item => item.url === result.url && (!item.profile || item.profile === result.profile));
+}
@@ -0,0 +1,88 @@
+import { BrowserManager } from '@/lib/browser';
+import { LighthouseConfig } from '@/types';
+
+export type AuditStopReason = 'pause' | 'cancel';
+
+/**
+ * In-memory handle on an audit being processed by this server
+ */
+export interface AuditJob {
+  /** Full config including secrets, kept so a paused session can resume with them */
+  config: LighthouseConfig;
+  controller: AbortController;
+  browsers: BrowserManager[];
+  running: boolean;
+  stopReason?: AuditStopReason;
+}
+
+// Shared across separately bundled API routes, like the repository
+const globalJobs = globalThis as typeof globalThis & { __auditJobs?: Map<string, AuditJob> };
+
+function getJobs(): Map<string, AuditJob> {
+  if (!globalJobs.__auditJobs) {
+    globalJobs.__auditJobs = new Map();
+  }
+  return globalJobs.__auditJobs;
+}
+
+/**
+ * Register a (re)started audit, replacing any paused job for the session
+ */
+export function startAuditJob(sessionId: string, config: LighthouseConfig): AuditJob {
+  const job: AuditJob = {
+    config,
+    controller: new AbortController(),
+    browsers: [],
+    running: true
+  };
+  getJobs().set(sessionId, job);
+  return job;
+}
+
+export function getAuditJob(sessionId: string): AuditJob | undefined {
+  return getJobs().get(sessionId);
+}
+
+/**
+ * Ask a running audit to stop. Pausing lets in-flight URLs finish; cancelling
+ * kills Chrome so they fail immediately. A pause can be escalated to a cancel.
+ * Returns false when there is nothing running to stop.
+ */
+export function stopAuditJob(sessionId: string, reason: AuditStopReason): boolean {
+  const job = getJobs().get(sessionId);
+  if (!job || !job.running || job.stopReason === 'cancel' || job.stopReason === reason) {
+    return false;
+  }
+
+  job.stopReason = reason;
+  job.controller.abort();
+
+  if (reason === 'cancel') {
+    job.browsers.forEach(browser => {
+      browser.close().catch(error => console.error('Failed to close browser:', error));
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Mark an audit as no longer running. A paused job is kept for its config;
+ * anything else is dropped. A job already replaced by a resume is left alone.
+ */
+export function endAuditJob(sessionId: string, job: AuditJob, paused: boolean) {
+  const jobs = getJobs();
+  if (jobs.get(sessionId) !== job) return;
+
+  job.running = false;
+  if (!paused) {
+    jobs.delete(sessionId);
+  }
+}
+
+/**
+ * Forget a paused session's job, e.g. once it has been cancelled
+ */
+export function discardAuditJob(sessionId: string) {
+  getJobs().delete(sessionId);
+}
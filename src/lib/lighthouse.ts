@@ -1,124 +1,86 @@
-import puppeteer from 'puppeteer';
-import lighthouse from 'lighthouse';
-import * as chromeLauncher from 'chrome-launcher';
+import lighthouse, { startFlow, type RunnerResult } from 'lighthouse';
 import fs from 'fs/promises';
 import path from 'path';
-import OpenAI from 'openai/index.mjs';
 import { generateTimestamp, createUrlSlug } from './utils';
-import { AuditResult, LighthouseConfig } from '@/types';
+import { extractScores, extractOpportunities } from './reports';
+import { evaluateBudgets, extractBudgetMetrics } from './budgets';
+import { extractLabMetrics } from './metrics';
+import { resolveConcurrency, runPool } from './pool';
+import { BrowserManager } from './browser';
+import { AuthSession } from './auth';
+import { runFlowSteps, summarizeFlowResult } from './flows';
+import { applyRequestCustomization } from './requests';
+import { computeScoreSpread, selectMedianRun } from './median';
+import { resolveProfile } from './profiles';
+import { expandAuditTargets, labelResult } from './variants';
+import { generateInsights, InsightsError, InsightsProvider } from './insights';
+import { AuditResult, BatchInsights, AuthConfig, FlowAuditResult, LighthouseConfig, UserFlowDefinition } from '@/types';
 
 /**
  * Lighthouse audit service that adapts the original scripts for web app usage
  */
 export class LighthouseService {
-  private openai: OpenAI | null = null;
+  private insightsProvider: InsightsProvider | null;
+  // One auth session per config, so a batch logs in once
+  private authSessions = new WeakMap<AuthConfig, AuthSession>();
+  // Storage state files may live outside AUTH_STATE_DIR (the CLI's local files)
+  private localAuthFiles: boolean;
 
-  constructor(apiKey?: string) {
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
-    }
+  constructor(insightsProvider?: InsightsProvider | null, localAuthFiles = false) {
+    this.insightsProvider = insightsProvider || null;
+    this.localAuthFiles = localAuthFiles;
   }
 
   /**
-   * Run Lighthouse audit on a single URL
+   * Run Lighthouse audit on a single URL. Pass a `browserManager` to reuse
+   * its Chrome; otherwise a browser is launched just for this audit.
    */
   async auditUrl(
     url: string, 
     config: LighthouseConfig, 
     reportsDir: string,
-    onProgress?: (message: string) => void
+    onProgress?: (message: string) => void,
+    browserManager?: BrowserManager
   ): Promise<AuditResult> {
     const urlSlug = createUrlSlug(url);
     const timestamp = generateTimestamp();
     const deviceSuffix = config.formFactor === 'mobile' ? '-mobile' : '';
-    const filenameBase = `${urlSlug}${deviceSuffix}-${timestamp}`;
+    // Parallel workers can audit the same host within one millisecond
+    const uniqueSuffix = Math.random().toString(36).slice(2, 6);
+    const filenameBase = `${urlSlug}${deviceSuffix}-${timestamp}-${uniqueSuffix}`;
     const jsonOutputPath = path.join(reportsDir, `${filenameBase}.json`);
     const htmlOutputPath = path.join(reportsDir, `${filenameBase}.html`);
 
     onProgress?.(` Processing ${config.formFactor} audit for: ${url}`);
 
-    let chrome: any = null;
-    let browser: any = null;
+    const manager = browserManager || new BrowserManager();
 
     try {
-      // Launch Chrome with Vercel-compatible flags
-      chrome = await chromeLauncher.launch({
-        chromeFlags: [
-          '--headless',
-          '--disable-gpu',
-          '--no-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-setuid-sandbox',
-          '--no-first-run',
-          '--no-zygote',
-          '--single-process',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding'
-        ],
-        // Use system Chrome on Vercel
-        chromePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined
-      });
-
-      // Connect Puppeteer to Chrome
-      browser = await puppeteer.connect({
-        browserURL: `http://localhost:${chrome.port}`
-      });
+      const runCount = Math.max(1, config.runs || 1);
+      const runs: RunnerResult[] = [];
+      let lastError: unknown;
 
-      const page = await browser.newPage();
-      
-      // Set viewport based on form factor
-      if (config.formFactor === 'mobile') {
-        await page.setViewport({ width: 375, height: 812, isMobile: true });
-      } else {
-        await page.setViewport({ width: 1350, height: 940 });
-      }
-
-      // Set headers if bypass token is provided
-      if (config.bypassToken) {
-        await page.setExtraHTTPHeaders({
-          'x-vercel-protection-bypass': config.bypassToken
-        });
+      for (let run = 1; run <= runCount; run++) {
+        if (runCount > 1) onProgress?.(`Run ${run} of ${runCount} for ${url}`);
+        try {
+          runs.push(await this.runLighthouse(url, config, manager, onProgress));
+        } catch (runError) {
+          // A failed run is tolerated as long as another run succeeds
+          lastError = runError;
+          onProgress?.(`Run ${run} failed: ${runError instanceof Error ? runError.message : String(runError)}`);
+        }
       }
 
-      // Load page with robust error handling
-      onProgress?.(`Loading page: ${url}`);
-      try {
-        await page.goto(url, { 
-          waitUntil: 'domcontentloaded',
-          timeout: 45000 
-        });
-        
-        // Wait for dynamic content
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        onProgress?.(`Successfully loaded: ${url}`);
-      } catch (loadError) {
-        const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
-        onProgress?.(`Page load had issues, continuing with Lighthouse: ${errorMessage}`);
+      if (runs.length === 0) {
+        throw lastError;
       }
 
-      // Configure Lighthouse based on form factor
-      const lighthouseConfig = this.getLighthouseConfig(config, chrome.port);
-      
-      onProgress?.(`Running Lighthouse ${config.formFactor} audit...`);
-      const result = await lighthouse(url, lighthouseConfig);
-      
-      if (!result) {
-        throw new Error('Lighthouse returned no result');
-      }
-      
-      const { lhr, report } = result;
+      // Report the median run; the others only contribute to the spread
+      const lhrs = runs.map(run => run.lhr);
+      const { lhr, report } = runs[selectMedianRun(lhrs)];
 
       // Calculate scores
-      const scores = {
-        performance: Math.round((lhr.categories.performance?.score || 0) * 100),
-        accessibility: Math.round((lhr.categories.accessibility?.score || 0) * 100),
-        'best-practices': Math.round((lhr.categories['best-practices']?.score || 0) * 100),
-        seo: Math.round((lhr.categories.seo?.score || 0) * 100),
-        pwa: lhr.categories.pwa?.score !== undefined && lhr.categories.pwa?.score !== null 
-          ? Math.round(lhr.categories.pwa.score * 100) 
-          : 'N/A' as const
-      };
+      const scores = extractScores(lhr);
 
       // Save reports
       await fs.writeFile(jsonOutputPath, JSON.stringify(lhr, null, 2));
@@ -126,23 +88,31 @@ export class LighthouseService {
       onProgress?.(`Reports saved for ${url}`);
 
       // Extract opportunities
-      const opportunities = Object.values(lhr.audits)
-        .filter((audit: any) => audit.details && audit.details.type === 'opportunity')
-        .sort((a: any, b: any) => (b.numericValue || 0) - (a.numericValue || 0))
-        .map((opportunity: any) => ({
-          title: opportunity.title,
-          displayValue: opportunity.displayValue,
-          numericValue: opportunity.numericValue
-        }));
+      const opportunities = extractOpportunities(lhr);
+
+      // Keep the headline metrics so they don't have to be dug out of the LHR
+      const metrics = extractLabMetrics(lhr);
+
+      // Check against any budgets matching this URL
+      const budget = config.budgets && config.budgets.length > 0
+        ? evaluateBudgets(url, scores, extractBudgetMetrics(lhr), config.budgets)
+        : undefined;
 
       return {
         url,
+        formFactor: config.formFactor,
+        profile: resolveProfile(config).name,
+        auditedAt: new Date().toISOString(),
         scores,
         opportunities,
+        metrics,
         reportPaths: {
           json: jsonOutputPath,
           html: htmlOutputPath
-        }
+        },
+        budget,
+        runs: runs.length,
+        spread: runs.length > 1 ? computeScoreSpread(lhrs) : undefined
       };
 
     } catch (error) {
@@ -164,19 +134,154 @@ export class LighthouseService {
       
       return {
         url,
+        formFactor: config.formFactor,
+        profile: resolveProfile(config).name,
         error: errorMessage
       };
     } finally {
-      if (browser) await browser.disconnect();
-      if (chrome) await chrome.kill();
+      if (!browserManager) await manager.close();
+    }
+  }
+
+  /**
+   * Run a single Lighthouse pass in a fresh browser context
+   */
+  private async runLighthouse(
+    url: string,
+    config: LighthouseConfig,
+    manager: BrowserManager,
+    onProgress?: (message: string) => void
+  ): Promise<RunnerResult> {
+    return manager.withPage(async ({ page, port }) => {
+      // Match the viewport to the emulation profile
+      const { screen, formFactor } = resolveProfile(config);
+      await page.setViewport({
+        width: screen.width,
+        height: screen.height,
+        deviceScaleFactor: screen.deviceScaleFactor,
+        isMobile: formFactor === 'mobile'
+      });
+
+      // Bypass token, custom headers, basic auth and cookies; Lighthouse drives this page, so they apply to its run too
+      await applyRequestCustomization(page, config, url);
+
+      // Log in (or load saved cookies) inside this context before the page loads
+      if (config.auth) {
+        await this.getAuthSession(config.auth).authenticate(page, onProgress);
+      }
+
+      // Load page with robust error handling
+      onProgress?.(`Loading page: ${url}`);
+      try {
+        await page.goto(url, { 
+          waitUntil: 'domcontentloaded',
+          timeout: 45000 
+        });
+        
+        // Wait for dynamic content
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        onProgress?.(`Successfully loaded: ${url}`);
+      } catch (loadError) {
+        const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
+        onProgress?.(`Page load had issues, continuing with Lighthouse: ${errorMessage}`);
+      }
+
+      // Configure Lighthouse based on form factor
+      const lighthouseConfig = this.getLighthouseConfig(config, port);
+      
+      // Lighthouse drives the same page, so it stays inside the isolated context
+      onProgress?.(`Running Lighthouse audit (${resolveProfile(config).name})...`);
+      const result = await lighthouse(url, lighthouseConfig, undefined, page as any);
+      
+      if (!result) {
+        throw new Error('Lighthouse returned no result');
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Run a multi-step user flow (navigations, timespans and snapshots) and save
+   * the flow report. Pass a `browserManager` to reuse its Chrome.
+   */
+  async auditFlow(
+    definition: UserFlowDefinition,
+    config: LighthouseConfig,
+    reportsDir: string,
+    onProgress?: (message: string) => void,
+    browserManager?: BrowserManager
+  ): Promise<FlowAuditResult> {
+    const flowSlug = definition.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'flow';
+    const deviceSuffix = config.formFactor === 'mobile' ? '-mobile' : '';
+    const uniqueSuffix = Math.random().toString(36).slice(2, 6);
+    const filenameBase = `flow-${flowSlug}${deviceSuffix}-${generateTimestamp()}-${uniqueSuffix}`;
+    const jsonOutputPath = path.join(reportsDir, `${filenameBase}.json`);
+    const htmlOutputPath = path.join(reportsDir, `${filenameBase}.html`);
+
+    onProgress?.(`Running user flow ${definition.name} (${resolveProfile(config).name})`);
+
+    // Credentials and default cookie domains follow the flow's first navigation
+    const firstStep = definition.steps[0];
+    const startUrl = firstStep?.type === 'navigation' ? firstStep.url : undefined;
+    const manager = browserManager || new BrowserManager();
+
+    try {
+      return await manager.withPage(async ({ page, port }) => {
+        await applyRequestCustomization(page, config, startUrl);
+        if (config.auth) {
+          await this.getAuthSession(config.auth).authenticate(page, onProgress);
+        }
+
+        const flow = await startFlow(page as any, {
+          name: definition.name,
+          flags: this.getLighthouseConfig(config, port)
+        });
+        await runFlowSteps(flow, page, definition, onProgress);
+
+        const flowResult = await flow.createFlowResult();
+        await fs.writeFile(jsonOutputPath, JSON.stringify(flowResult, null, 2));
+        await fs.writeFile(htmlOutputPath, await flow.generateReport());
+        onProgress?.(`Flow report saved for ${definition.name}`);
+
+        return {
+          name: definition.name,
+          formFactor: config.formFactor,
+          profile: resolveProfile(config).name,
+          auditedAt: new Date().toISOString(),
+          steps: summarizeFlowResult(flowResult),
+          reportPaths: {
+            json: jsonOutputPath,
+            html: htmlOutputPath
+          }
+        };
+      });
+    } catch (error) {
+      console.error(`Error running flow ${definition.name}:`, error);
+      return {
+        name: definition.name,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    } finally {
+      if (!browserManager) await manager.close();
     }
   }
 
+  private getAuthSession(auth: AuthConfig): AuthSession {
+    let session = this.authSessions.get(auth);
+    if (!session) {
+      session = new AuthSession(auth, this.localAuthFiles);
+      this.authSessions.set(auth, session);
+    }
+    return session;
+  }
+
   /**
-   * Generate Lighthouse configuration based on form factor
+   * Generate Lighthouse configuration from the audit's emulation profile
    */
   private getLighthouseConfig(config: LighthouseConfig, port: number) {
-    const baseConfig = {
+    const profile = resolveProfile(config);
+
+    return {
       port,
       output: ['json', 'html'] as ('json' | 'html')[],
       logLevel: 'info' as const,
@@ -187,117 +292,43 @@ export class LighthouseService {
       cpuQuietThresholdMs: 1000,
       blockedUrlPatterns: [],
       skipAudits: [],
-      extraHeaders: {} as Record<string, string>
+      // Clearing storage would log an authenticated audit back out and drop custom cookies
+      disableStorageReset: !!config.auth || !!config.request?.cookies?.length,
+      preset: profile.formFactor,
+      formFactor: profile.formFactor,
+      throttlingMethod: profile.throttlingMethod,
+      throttling: { ...profile.throttling },
+      screenEmulation: {
+        mobile: profile.formFactor === 'mobile',
+        ...profile.screen,
+        disabled: false
+      },
+      // Request headers are added per request by applyRequestCustomization
+      extraHeaders: {
+        'User-Agent': profile.userAgent
+      }
     };
-
-    // Add bypass token if provided
-    if (config.bypassToken) {
-      baseConfig.extraHeaders['x-vercel-protection-bypass'] = config.bypassToken;
-    }
-
-    if (config.formFactor === 'mobile') {
-      return {
-        ...baseConfig,
-        preset: 'mobile' as const,
-        formFactor: 'mobile' as const,
-        throttlingMethod: 'simulate' as const,
-        throttling: {
-          rttMs: 150,
-          throughputKbps: 1638.4,
-          cpuSlowdownMultiplier: 4,
-          requestLatencyMs: 150,
-          downloadThroughputKbps: 1638.4,
-          uploadThroughputKbps: 750
-        },
-        screenEmulation: {
-          mobile: true,
-          width: 375,
-          height: 812,
-          deviceScaleFactor: 2,
-          disabled: false
-        },
-        extraHeaders: {
-          ...baseConfig.extraHeaders,
-          'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.2 Mobile/15E148 Safari/604.1'
-        }
-      };
-    } else {
-      return {
-        ...baseConfig,
-        preset: 'desktop' as const,
-        formFactor: 'desktop' as const,
-        throttling: {
-          rttMs: 40,
-          throughputKbps: 10240,
-          cpuSlowdownMultiplier: 1,
-          requestLatencyMs: 0,
-          downloadThroughputKbps: 0,
-          uploadThroughputKbps: 0
-        },
-        screenEmulation: {
-          mobile: false,
-          width: 1350,
-          height: 940,
-          deviceScaleFactor: 1,
-          disabled: false
-        },
-        extraHeaders: {
-          ...baseConfig.extraHeaders,
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-        }
-      };
-    }
   }
 
   /**
-   * Generate AI insights from audit results
+   * Whether this service can generate AI insights
    */
-  async generateAIInsights(results: AuditResult[], formFactor: string): Promise<string> {
-    if (!this.openai) {
-      return 'AI insights not available (no API key provided)';
-    }
-
-    const deviceType = formFactor === 'mobile' ? 'mobile devices' : 'desktop';
-    const prompt = `
-You are a web performance expert. Below is a batch of Lighthouse audit results for multiple URLs on ${deviceType}.
-
-For each URL:
-- Briefly summarize the strengths based on scores (not more than 2–3 sentences)
-- Mention top 2–3 actionable suggestions from opportunities (not more than 1–2 sentences each)  
-- Note any red flags if present (make this short and concise)
-
-At the end, provide:
-- A short overall assessment of this batch (short and concise)
-- General performance optimization advice applicable to most pages (focus on important aspects and avoid generic advice)
-- Clearly state if the pages are performing well or need significant improvements
-
-Audit Data:
-${results.map(r => `
-URL: ${r.url}
-Scores: ${JSON.stringify(r.scores)}
-Top Opportunities: ${r.opportunities?.slice(0, 3).map(o => `- ${o.title} (${o.displayValue || 'N/A'})`).join('\n') || 'N/A'}
-`).join('\n')}
-`;
-
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: 'You are a web performance expert.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7
-      });
+  get insightsEnabled(): boolean {
+    return this.insightsProvider !== null;
+  }
 
-      return completion.choices[0].message.content?.trim() || 'No insights generated';
-    } catch (error) {
-      console.error('AI insight generation failed:', error);
-      return 'Error generating AI insights';
+  /**
+   * Generate structured per-URL AI insights from audit results
+   */
+  async generateAIInsights(results: AuditResult[], formFactor: LighthouseConfig['formFactor']): Promise<BatchInsights> {
+    if (!this.insightsProvider) {
+      throw new InsightsError('AI insights not available (no AI provider configured)');
     }
+    return generateInsights(results, this.insightsProvider, formFactor);
   }
 
   /**
-   * Run audits on multiple URLs with progress tracking
+   * Run audits on multiple URLs in parallel with progress tracking
    */
   async auditUrls(
     urls: string[], 
@@ -308,32 +339,31 @@ Top Opportunities: ${r.opportunities?.slice(0, 3).map(o => `- ${o.title} (${o.di
     // Ensure reports directory exists
     await fs.mkdir(reportsDir, { recursive: true });
 
-    const results: AuditResult[] = [];
-    
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      onProgress?.(url, i, urls.length);
-      
-      const result = await this.auditUrl(
-        url, 
-        config, 
-        reportsDir,
-        (message) => console.log(message)
-      );
-      
-      results.push(result);
-    }
+    // Run URLs (once per variant, if any) across parallel workers, each
+    // reusing its own Chrome; onProgress reports how many have finished
+    let completed = 0;
+    const targets = expandAuditTargets(urls, config);
+    const concurrency = resolveConcurrency(config, targets.length);
+    const browsers = Array.from({ length: concurrency }, () => new BrowserManager());
 
-    // Generate AI insights if API key is available
-    if (this.openai) {
-      try {
-        const insights = await this.generateAIInsights(results, config.formFactor);
-        const insightsPath = path.join(reportsDir, `lighthouse-ai-insights-${config.formFactor}-${generateTimestamp()}.txt`);
-        await fs.writeFile(insightsPath, insights);
-        console.log(`AI insights saved to: ${insightsPath}`);
-      } catch (error) {
-        console.error('Failed to generate AI insights:', error);
-      }
+    let results: AuditResult[];
+    try {
+      results = await runPool(targets, concurrency, async ({ url, config: targetConfig, override }, _index, workerId) => {
+        onProgress?.(config.variants ? `${url} (${resolveProfile(targetConfig).name})` : url, completed, targets.length);
+
+        const result = await this.auditUrl(
+          url, 
+          targetConfig, 
+          reportsDir,
+          (message) => console.log(message),
+          browsers[workerId]
+        );
+        
+        completed++;
+        return labelResult(result, override);
+      });
+    } finally {
+      await Promise.all(browsers.map(browser => browser.close()));
     }
 
     return results;
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { InsightsError, InsightsRequest, validateInsightsSettings } from './insights';
+import { createInsightsProvider, serverApiKey } from './llm';
+
+const ENV_KEYS = [
+  'OPENAI_API_KEY',
+  'AZURE_OPENAI_ENDPOINT',
+  'AZURE_OPENAI_API_KEY',
+  'AZURE_OPENAI_DEPLOYMENT',
+  'ANTHROPIC_API_KEY',
+  'OPENAI_COMPATIBLE_BASE_URL',
+  'OPENAI_COMPATIBLE_MODEL',
+  'OPENAI_COMPATIBLE_API_KEY',
+  'AI_FAKE_FIXTURES',
+  'AI_ALLOW_SERVER_KEYS'
+];
+
+const summaryRequest: InsightsRequest = {
+  kind: 'summary',
+  system: '',
+  prompt: '',
+  inputs: [],
+  summaries: ['First part.', 'Second part.'],
+  issues: []
+};
+
+describe('createInsightsProvider', () => {
+  let saved: Record<string, string | undefined>;
+  beforeEach(() => {
+    saved = {};
+    ENV_KEYS.forEach(key => {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    });
+  });
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    });
+  });
+
+  it('has no provider without settings or an API key', () => {
+    assert.equal(createInsightsProvider({}), null);
+  });
+
+  it('uses OpenAI when only an API key is given', () => {
+    const provider = createInsightsProvider({ apiKey: 'sk-test' });
+    assert.deepEqual([provider?.name, provider?.model], ['openai', 'gpt-4o']);
+  });
+
+  it('only falls back to server keys when the server allows it', () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'anthropic' } }), /^InsightsError: Anthropic needs an API key$/);
+    assert.equal(serverApiKey('anthropic'), 'sk-ant-test');
+    assert.equal(serverApiKey('openai'), undefined);
+    assert.equal(serverApiKey('fake'), undefined);
+
+    process.env.AI_ALLOW_SERVER_KEYS = 'true';
+    const provider = createInsightsProvider({ insights: { provider: 'anthropic', model: 'claude-haiku-4-5' } });
+    assert.deepEqual([provider?.name, provider?.model], ['anthropic', 'claude-haiku-4-5']);
+    assert.equal(createInsightsProvider({ insights: { provider: 'anthropic' } })?.model, 'claude-sonnet-4-5');
+  });
+
+  it('reports missing keys and server settings', () => {
+    process.env.AI_ALLOW_SERVER_KEYS = 'true';
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'openai' } }), /OPENAI_API_KEY/);
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'anthropic' } }), /ANTHROPIC_API_KEY/);
+    assert.throws(() => createInsightsProvider({ apiKey: 'key', insights: { provider: 'azure' } }), /AZURE_OPENAI_ENDPOINT/);
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    assert.throws(() => createInsightsProvider({ apiKey: 'key', insights: { provider: 'azure' } }), /AZURE_OPENAI_DEPLOYMENT/);
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'openai-compatible' } }), /OPENAI_COMPATIBLE_BASE_URL/);
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'nope' as any } }), InsightsError);
+  });
+
+  it('takes endpoints and models for Azure and OpenAI-compatible servers from the environment', () => {
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    process.env.AZURE_OPENAI_DEPLOYMENT = 'gpt-4o-prod';
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+    process.env.OPENAI_COMPATIBLE_MODEL = 'llama3.1';
+
+    assert.equal(createInsightsProvider({ apiKey: 'azure-key', insights: { provider: 'azure' } })?.model, 'gpt-4o-prod');
+    assert.equal(createInsightsProvider({ insights: { provider: 'openai-compatible' } })?.model, 'llama3.1');
+    assert.equal(createInsightsProvider({ insights: { provider: 'openai-compatible', model: 'qwen2.5' } })?.model, 'qwen2.5');
+  });
+
+  it('only offers the fake provider with AI_FAKE_FIXTURES', () => {
+    assert.throws(() => validateInsightsSettings({ provider: 'fake' }), /AI provider must be one of openai, azure, anthropic, openai-compatible$/);
+    assert.throws(() => createInsightsProvider({ insights: { provider: 'fake' } }), /only available with AI_FAKE_FIXTURES/);
+    process.env.AI_FAKE_FIXTURES = path.join(os.tmpdir(), 'fixtures.json');
+    assert.deepEqual(validateInsightsSettings({ provider: 'fake' }), { provider: 'fake', model: undefined, temperature: undefined });
+  });
+
+  it('answers from AI_FAKE_FIXTURES in order, then from the request data', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'insights-'));
+    try {
+      process.env.AI_FAKE_FIXTURES = path.join(dir, 'fixtures.json');
+      await fs.writeFile(process.env.AI_FAKE_FIXTURES, JSON.stringify(['not json', { summary: 'From a fixture.' }]));
+      const provider = createInsightsProvider({ insights: { provider: 'fake' } })!;
+
+      assert.deepEqual([provider.name, provider.model], ['fake', 'fixtures']);
+      assert.equal(await provider.complete(summaryRequest), 'not json');
+      assert.equal(await provider.complete(summaryRequest), '{"summary":"From a fixture."}');
+      assert.equal(await provider.complete(summaryRequest), '{"summary":"First part. Second part."}');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects fixture files that are not a list', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'insights-'));
+    try {
+      process.env.AI_FAKE_FIXTURES = path.join(dir, 'fixtures.json');
+      await fs.writeFile(process.env.AI_FAKE_FIXTURES, '{"summary": "x"}');
+      const provider = createInsightsProvider({ insights: { provider: 'fake' } })!;
+      await assert.rejects(provider.complete(summaryRequest), /must hold a JSON list of replies/);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import OpenAI, { AzureOpenAI } from 'openai/index.mjs';
+import {
+  DEFAULT_TEMPERATURE,
+  IMPACTS,
+  INSIGHTS_PROVIDERS,
+  InsightsError,
+  InsightsProvider,
+  InsightsRequest,
+  LIMITS
+} from './insights';
+import { InsightsProviderName, InsightsSettings, LighthouseConfig } from '@/types';
+
+const AZURE_API_VERSION = '2024-10-21';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 8192;
+const REQUEST_TIMEOUT_MS = 120000;
+
+interface ProviderOptions {
+  model: string;
+  temperature: number;
+  apiKey?: string;
+}
+
+/**
+ * Chat completions through the OpenAI SDK, in JSON mode. Serves OpenAI,
+ * Azure OpenAI and OpenAI-compatible servers such as Ollama or llama.cpp.
+ */
+function chatCompletionsProvider(name: InsightsProviderName, client: OpenAI, { model, temperature }: ProviderOptions): InsightsProvider {
+  return {
+    name,
+    model,
+    complete: async ({ system, prompt }) => {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt }
+        ],
+        response_format: { type: 'json_object' },
+        temperature
+      });
+      return completion.choices[0]?.message.content || '';
+    }
+  };
+}
+
+/**
+ * Anthropic's Messages API over fetch. It has no JSON mode, so the reply is
+ * started with `{` for the model to continue.
+ */
+function anthropicProvider({ model, temperature, apiKey }: ProviderOptions): InsightsProvider {
+  return {
+    name: 'anthropic',
+    model,
+    complete: async ({ system, prompt }) => {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': apiKey!,
+          'anthropic-version': ANTHROPIC_VERSION
+        },
+        body: JSON.stringify({
+          model,
+          system,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          temperature,
+          messages: [
+            { role: 'user', content: prompt },
+            { role: 'assistant', content: '{' }
+          ]
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new InsightsError(`Anthropic request failed (HTTP ${response.status}): ${body?.error?.message || response.statusText}`);
+      }
+      const text = (body?.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      return `{${text}`;
+    }
+  };
+}
+
+/**
+ * The reply a model might give, made up from the audit data alone
+ */
+function generatedReply(request: InsightsRequest): string {
+  if (request.kind === 'summary') {
+    return JSON.stringify({ summary: request.summaries.join(' ') });
+  }
+  if (request.kind === 'fixes') {
+    return JSON.stringify({
+      suggestions: request.issues.map(issue => ({
+        auditId: issue.auditId,
+        explanation: `${issue.title}${issue.displayValue ? ` (${issue.displayValue})` : ''}: ${issue.items.length} flagged item(s).`,
+        snippets: [{
+          language: 'text',
+          code: issue.items.length > 0
+            ? issue.items.map(item => Object.values(item).join(' | ')).join('\n')
+            : issue.stackAdvice || issue.title
+        }]
+      }))
+    });
+  }
+
+  const urls = request.inputs.map(input => ({
+    url: input.url,
+    profile: input.profile,
+    strengths: Object.keys(input.scores)
+      .filter(category => input.scores[category] >= 90)
+      .map(category => `${category} scores ${input.scores[category]}`),
+    fixes: input.opportunities.slice(0, LIMITS.fixes).map((opportunity, index) => ({
+      title: opportunity.title,
+      impact: IMPACTS[Math.min(index, IMPACTS.length - 1)],
+      estimatedImpact: opportunity.savings || ''
+    })),
+    redFlags: input.budgetFailures
+      .map(failure => `Over budget: ${failure}`)
+      .concat(input.metrics.filter(metric => metric.rating === 'poor').map(metric => `${metric.name} is poor (${metric.value})`))
+  }));
+  const performance = request.inputs.map(input => input.scores.performance);
+  const average = Math.round(performance.reduce((total, score) => total + score, 0) / performance.length);
+  return JSON.stringify({
+    summary: `${request.inputs.length} page(s) average ${average} for performance; ${
+      performance.filter(score => score < 50).length} score below 50.`,
+    urls
+  });
+}
+
+/**
+ * An offline provider for tests and demos. It answers with the fixture
+ * replies in order (strings as-is, anything else as JSON), then with
+ * replies made up from the audit data, so the same input always gives the same insights.
+ */
+export function createFakeProvider(fixtures: unknown[] = []): InsightsProvider {
+  let next = 0;
+  return {
+    name: 'fake',
+    model: INSIGHTS_PROVIDERS.fake.defaultModel!,
+    complete: async request => {
+      if (next < fixtures.length) {
+        const fixture = fixtures[next++];
+        return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+      }
+      return generatedReply(request);
+    }
+  };
+}
+
+// Fixture replies for the fake provider, from the JSON list at AI_FAKE_FIXTURES
+function fakeProviderFromFile(fixturesPath: string): InsightsProvider {
+  let fixtures: Promise<InsightsProvider> | null = null;
+  const load = () => fs.readFile(fixturesPath, 'utf-8').then(text => {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new InsightsError(`${fixturesPath} must hold a JSON list of replies`);
+    return createFakeProvider(parsed);
+  });
+  return {
+    name: 'fake',
+    model: INSIGHTS_PROVIDERS.fake.defaultModel!,
+    complete: async request => {
+      fixtures = fixtures || load();
+      return (await fixtures).complete(request);
+    }
+  };
+}
+
+const required = (value: string | undefined, message: string): string => {
+  if (!value) throw new InsightsError(message);
+  return value;
+};
+
+// Server variables holding the providers' paid API keys
+const SERVER_KEY_VARIABLES: Partial<Record<InsightsProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+};
+
+/**
+ * A provider's API key from the server environment, for trusted callers
+ * (the scheduler and CLI) to pass on as the session's `apiKey`
+ */
+export function serverApiKey(provider: InsightsProviderName): string | undefined {
+  const variable = SERVER_KEY_VARIABLES[provider];
+  return (variable && process.env[variable]) || undefined;
+}
+
+/**
+ * The provider a session's insights come from, or null when it has none.
+ * Sessions without insights settings use OpenAI when they carry an API key.
+ * Keys only fall back to the server's with AI_ALLOW_SERVER_KEYS=true, since
+ * anyone who can reach the dashboard would spend them; endpoints only come from the server.
+ */
+export function createInsightsProvider(config: Pick<LighthouseConfig, 'apiKey' | 'insights'>): InsightsProvider | null {
+  const settings: InsightsSettings | undefined = config.insights || (config.apiKey ? { provider: 'openai' } : undefined);
+  if (!settings) return null;
+
+  const { provider } = settings;
+  const temperature = settings.temperature ?? DEFAULT_TEMPERATURE;
+  const env = process.env;
+  const serverKeys = env.AI_ALLOW_SERVER_KEYS === 'true';
+  const key = (label: string) => required(
+    config.apiKey || (serverKeys ? serverApiKey(provider) : undefined),
+    `${label} needs an API key${serverKeys ? ` (or ${SERVER_KEY_VARIABLES[provider]} on the server)` : ''}`
+  );
+  switch (provider) {
+    case 'openai': {
+      const apiKey = key('OpenAI');
+      const model = settings.model || INSIGHTS_PROVIDERS.openai.defaultModel!;
+      return chatCompletionsProvider(provider, new OpenAI({ apiKey }), { model, temperature });
+    }
+    case 'azure': {
+      const endpoint = required(env.AZURE_OPENAI_ENDPOINT, 'Azure OpenAI needs AZURE_OPENAI_ENDPOINT on the server');
+      const apiKey = key('Azure OpenAI');
+      const model = required(settings.model || env.AZURE_OPENAI_DEPLOYMENT, 'Azure OpenAI needs a deployment name (or AZURE_OPENAI_DEPLOYMENT on the server)');
+      const client = new AzureOpenAI({ endpoint, apiKey, deployment: model, apiVersion: env.AZURE_OPENAI_API_VERSION || AZURE_API_VERSION });
+      return chatCompletionsProvider(provider, client, { model, temperature });
+    }
+    case 'anthropic': {
+      const apiKey = key('Anthropic');
+      return anthropicProvider({ model: settings.model || INSIGHTS_PROVIDERS.anthropic.defaultModel!, temperature, apiKey });
+    }
+    case 'openai-compatible': {
+      const baseURL = required(env.OPENAI_COMPATIBLE_BASE_URL, 'OpenAI-compatible insights need OPENAI_COMPATIBLE_BASE_URL on the server');
+      const model = required(settings.model || env.OPENAI_COMPATIBLE_MODEL, 'OpenAI-compatible insights need a model (or OPENAI_COMPATIBLE_MODEL on the server)');
+      // The key belongs to the server's own endpoint; local servers usually
+      // ignore it, but the SDK requires one
+      const apiKey = config.apiKey || env.OPENAI_COMPATIBLE_API_KEY || 'not-needed';
+      return chatCompletionsProvider(provider, new OpenAI({ baseURL, apiKey }), { model, temperature });
+    }
+    case 'fake':
+      return fakeProviderFromFile(required(env.AI_FAKE_FIXTURES, 'The fake AI provider is only available with AI_FAKE_FIXTURES on the server'));
+    default:
+      throw new InsightsError(`Unknown AI provider "${provider}"`);
+  }
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Result as LighthouseResult } from 'lighthouse';
+import { computeScoreSpread, median, selectMedianRun } from './median';
+
+// A run with the given performance score and, optionally, FCP and TTI in ms
+function run(performance: number, fcp?: number, tti?: number): LighthouseResult {
+  const audits: Record<string, { numericValue: number }> = {};
+  if (fcp !== undefined) audits['first-contentful-paint'] = { numericValue: fcp };
+  if (tti !== undefined) audits.interactive = { numericValue: tti };
+  return { categories: { performance: { score: performance / 100 } }, audits } as unknown as LighthouseResult;
+}
+
+describe('median', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    assert.equal(median([3, 1, 2]), 2);
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+    assert.equal(median([7]), 7);
+  });
+});
+
+describe('selectMedianRun', () => {
+  it('picks the run with the median score', () => {
+    assert.equal(selectMedianRun([run(70), run(90), run(80)]), 2);
+    assert.equal(selectMedianRun([run(55)]), 0);
+    assert.throws(() => selectMedianRun([]), /No runs provided/);
+  });
+
+  it('picks a run next to the middle for even run counts', () => {
+    // Median score 75: 70 and 80 are equally close, so timings decide
+    assert.equal(selectMedianRun([run(60, 1000, 3000), run(70, 1500, 4000), run(80, 1100, 3100), run(90, 900, 2900)]), 2);
+    assert.equal(selectMedianRun([run(70, 1050, 3050), run(60, 1000, 3000), run(90, 900, 2900), run(80, 1500, 4000)]), 0);
+  });
+
+  it('breaks score ties by distance to the median FCP and TTI', () => {
+    assert.equal(selectMedianRun([run(80, 2000, 5000), run(80, 1200, 3300), run(80, 1000, 3000)]), 1);
+  });
+
+  it('then prefers the lowest TTI', () => {
+    // Medians are FCP 1000 and TTI 3000; both runs scoring 80 are 100 ms away
+    assert.equal(selectMedianRun([run(80, 1000, 3100), run(80, 1000, 2900), run(70, 1000, 3000)]), 1);
+  });
+
+  it('ranks runs missing timings last among equal scores', () => {
+    assert.equal(selectMedianRun([run(80), run(80, 1000, 3000), run(80, 1100, 3200)]), 1);
+    assert.equal(selectMedianRun([run(80), run(80)]), 0);
+  });
+});
+
+describe('computeScoreSpread', () => {
+  it('reports min, max and population standard deviation per category', () => {
+    const spread = computeScoreSpread([run(70), run(80), run(90)]);
+    assert.deepEqual(spread.performance, { min: 70, max: 90, stddev: 8.2 });
+    assert.deepEqual(spread.seo, { min: 0, max: 0, stddev: 0 });
+  });
+});
@@ -0,0 +1,83 @@
+import type { Result as LighthouseResult } from 'lighthouse';
+import { ScoreCategory, ScoreSpread } from '@/types';
+
+/**
+ * Upper bound on repeated runs per URL
+ */
+export const MAX_RUNS = 9;
+
+const SPREAD_CATEGORIES: ScoreCategory[] = ['performance', 'accessibility', 'best-practices', 'seo'];
+
+const numericValue = (lhr: LighthouseResult, auditId: string) => lhr.audits[auditId]?.numericValue ?? NaN;
+
+const categoryScore = (lhr: LighthouseResult, category: ScoreCategory) =>
+  Math.round((lhr.categories[category]?.score || 0) * 100);
+
+/**
+ * Middle value, or the mean of the two middle values for even counts
+ */
+export function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  if (sorted.length % 2 === 1) return sorted[(sorted.length - 1) / 2];
+  return (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2;
+}
+
+/**
+ * Pick the representative run out of several audits of the same URL.
+ *
+ * Runs are ranked by distance to the median performance score. Ties are
+ * broken the way Lighthouse's `computeMedianRun` picks runs: Euclidean
+ * distance to the median FCP and TTI, then the lowest TTI. Runs missing those
+ * metrics sort last among equal scores.
+ */
+export function selectMedianRun(runs: LighthouseResult[]): number {
+  if (runs.length === 0) throw new Error('No runs provided');
+  if (runs.length === 1) return 0;
+
+  const medianScore = median(runs.map(run => categoryScore(run, 'performance')));
+  const medianFcp = median(runs.map(run => numericValue(run, 'first-contentful-paint')));
+  const medianTti = median(runs.map(run => numericValue(run, 'interactive')));
+
+  const timingDistance = (run: LighthouseResult) => {
+    const fcp = medianFcp - numericValue(run, 'first-contentful-paint');
+    const tti = medianTti - numericValue(run, 'interactive');
+    const distance = fcp * fcp + tti * tti;
+    return Number.isNaN(distance) ? Infinity : distance;
+  };
+  const tti = (run: LighthouseResult) => {
+    const value = numericValue(run, 'interactive');
+    return Number.isNaN(value) ? Infinity : value;
+  };
+
+  const ranked = runs
+    .map((run, index) => ({ run, index }))
+    .sort((a, b) =>
+      Math.abs(categoryScore(a.run, 'performance') - medianScore) -
+        Math.abs(categoryScore(b.run, 'performance') - medianScore) ||
+      timingDistance(a.run) - timingDistance(b.run) ||
+      tti(a.run) - tti(b.run)
+    );
+
+  return ranked[0].index;
+}
+
+/**
+ * Min, max and standard deviation of each category score across runs
+ */
+export function computeScoreSpread(runs: LighthouseResult[]): Partial<Record<ScoreCategory, ScoreSpread>> {
+  const spread: Partial<Record<ScoreCategory, ScoreSpread>> = {};
+
+  SPREAD_CATEGORIES.forEach(category => {
+    const scores = runs.map(run => categoryScore(run, category));
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const variance = scores.reduce((sum, score) => sum + (score - mean) * (score - mean), 0) / scores.length;
+
+    spread[category] = {
+      min: Math.min(...scores),
+      max: Math.max(...scores),
+      stddev: Math.round(Math.sqrt(variance) * 10) / 10
+    };
+  });
+
+  return spread;
+}
@@ -0,0 +1,44 @@
+import type { Result as LighthouseResult } from 'lighthouse';
+import { formatDuration } from './utils';
+import { LabMetric, MetricValue } from '@/types';
+
+/**
+ * Lab metrics kept on every result and the Lighthouse audit each one is read from
+ */
+export const LAB_METRICS: Record<LabMetric, { auditId: string; label: string; unit: 'ms' | 'unitless' }> = {
+  lcp: { auditId: 'largest-contentful-paint', label: 'LCP', unit: 'ms' },
+  fcp: { auditId: 'first-contentful-paint', label: 'FCP', unit: 'ms' },
+  tbt: { auditId: 'total-blocking-time', label: 'TBT', unit: 'ms' },
+  cls: { auditId: 'cumulative-layout-shift', label: 'CLS', unit: 'unitless' },
+  speedIndex: { auditId: 'speed-index', label: 'Speed Index', unit: 'ms' },
+  tti: { auditId: 'interactive', label: 'TTI', unit: 'ms' },
+  serverResponseTime: { auditId: 'server-response-time', label: 'Server Response', unit: 'ms' }
+};
+
+/**
+ * Read the lab metric values and their 0-1 scores out of an LHR
+ */
+export function extractLabMetrics(lhr: LighthouseResult): Partial<Record<LabMetric, MetricValue>> {
+  const metrics: Partial<Record<LabMetric, MetricValue>> = {};
+  (Object.keys(LAB_METRICS) as LabMetric[]).forEach(metric => {
+    const audit = lhr.audits[LAB_METRICS[metric].auditId];
+    if (!audit || typeof audit.numericValue !== 'number') return;
+
+    metrics[metric] = {
+      // CLS is a small unitless number; everything else is whole milliseconds
+      value: LAB_METRICS[metric].unit === 'ms'
+        ? Math.round(audit.numericValue)
+        : Math.round(audit.numericValue * 1000) / 1000,
+      score: typeof audit.score === 'number' ? audit.score : null
+    };
+  });
+  return metrics;
+}
+
+/**
+ * Format a metric value for display, e.g. "1.8 s", "120 ms" or "0.052"
+ */
+export function formatMetricValue(metric: LabMetric, value: number): string {
+  if (LAB_METRICS[metric].unit === 'unitless') return value.toFixed(3);
+  return formatDuration(value);
+}
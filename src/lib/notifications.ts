@@ -0,0 +1,273 @@
+import { compareSessions, DEFAULT_REGRESSION_THRESHOLD } from './compare';
+import { describeBudgetFailure } from './budgets';
+import { getAuditRepository } from './storage';
+import { deliverWebhook, getWebhookStore } from './webhooks';
+import {
+  AuditSession,
+  Notification,
+  NotificationEventType,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookFormat
+} from '@/types';
+
+/**
+ * Score drop (in points) since the previous run that triggers `regression.detected`
+ */
+export const NOTIFY_REGRESSION_THRESHOLD =
+  parseFloat(process.env.NOTIFY_REGRESSION_THRESHOLD || '') || DEFAULT_REGRESSION_THRESHOLD;
+
+// Chat messages list at most this many URLs; the JSON payload has them all
+const MAX_DETAIL_LINES = 10;
+
+const SCORE_LABELS: Array<[keyof NonNullable<Notification['results'][number]['scores']>, string]> = [
+  ['performance', 'Perf'],
+  ['accessibility', 'A11y'],
+  ['best-practices', 'BP'],
+  ['seo', 'SEO']
+];
+
+function sessionLink(sessionId: string): string | undefined {
+  const baseUrl = process.env.APP_BASE_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/?sessionId=${encodeURIComponent(sessionId)}` : undefined;
+}
+
+const urlLabel = (item: { url: string; profile?: string }) => item.profile ? `${item.url} (${item.profile})` : item.url;
+
+/**
+ * Most recent earlier completed session auditing any of the same URLs; for a
+ * scheduled session, the schedule's previous completed run
+ */
+async function findBaselineSession(session: AuditSession): Promise<AuditSession | null> {
+  const repository = getAuditRepository();
+  // The whole history, newest first: a schedule's last run may be far behind a busy server's recent sessions
+  const candidates = (await repository.listSessions(Infinity)).filter(summary =>
+    summary.sessionId !== session.sessionId &&
+    summary.status === 'completed' &&
+    summary.createdAt < session.createdAt &&
+    (!session.schedule || summary.schedule?.id === session.schedule.id)
+  );
+
+  for (let i = 0; i < candidates.length; i++) {
+    const candidate = await repository.getSession(candidates[i].sessionId);
+    if (candidate && candidate.results.some(result => session.urls.includes(result.url))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Notifications for a finished session: completed or errored, plus budget
+ * failures and regressions against the previous run when asked for
+ */
+export async function buildSessionNotifications(
+  session: AuditSession,
+  events: NotificationEventType[]
+): Promise<Notification[]> {
+  const scheduleSuffix = session.schedule ? ` (${session.schedule.name})` : '';
+  const base = {
+    sessionId: session.sessionId,
+    status: session.status,
+    schedule: session.schedule,
+    link: sessionLink(session.sessionId),
+    results: session.results.map(({ url, profile, scores, error }) => ({ url, profile, scores, error })),
+    budgetFailures: [],
+    regressions: []
+  };
+  const notifications: Notification[] = [];
+
+  if (session.status === 'error') {
+    notifications.push({
+      ...base,
+      event: 'session.errored',
+      title: `Lighthouse audit failed${scheduleSuffix}`,
+      summary: session.error || 'The audit stopped with an error'
+    });
+    return notifications;
+  }
+
+  if (session.status !== 'completed') return notifications;
+
+  const failed = session.results.filter(result => result.error).length;
+  notifications.push({
+    ...base,
+    event: 'session.completed',
+    title: `Lighthouse audit completed${scheduleSuffix}`,
+    summary: `${session.results.length - failed} of ${session.total} audit(s) succeeded${failed > 0 ? `, ${failed} failed` : ''}`
+  });
+
+  const budgetFailures = session.results
+    .filter(result => result.budget && !result.budget.passed)
+    .map(result => ({
+      url: result.url,
+      profile: result.profile,
+      failures: result.budget!.checks.filter(check => !check.passed).map(describeBudgetFailure)
+    }));
+  if (budgetFailures.length > 0) {
+    notifications.push({
+      ...base,
+      event: 'budget.failed',
+      title: `Performance budget failed${scheduleSuffix}`,
+      summary: `${budgetFailures.length} URL(s) missed their performance budget`,
+      budgetFailures
+    });
+  }
+
+  // Comparing reads every saved report, so only do it for a subscriber
+  if (events.includes('regression.detected')) {
+    const baseline = await findBaselineSession(session);
+    if (baseline) {
+      const comparison = await compareSessions(baseline, session, NOTIFY_REGRESSION_THRESHOLD);
+      const regressions = comparison.comparisons
+        .filter(item => item.regression)
+        .map(item => ({
+          url: item.url,
+          profile: item.profile,
+          baseSessionId: baseline.sessionId,
+          categories: item.categories.filter(category => category.regression)
+        }));
+      if (regressions.length > 0) {
+        notifications.push({
+          ...base,
+          event: 'regression.detected',
+          title: `Score regression detected${scheduleSuffix}`,
+          summary: `${regressions.length} URL(s) dropped ${NOTIFY_REGRESSION_THRESHOLD}+ points since session ${baseline.sessionId}`,
+          regressions
+        });
+      }
+    }
+  }
+
+  return notifications;
+}
+
+/**
+ * One line per URL for chat messages, relevant to the event
+ */
+function detailLines(notification: Notification): Array<{ title: string; value: string }> {
+  let lines: Array<{ title: string; value: string }>;
+  if (notification.event === 'budget.failed') {
+    lines = notification.budgetFailures.map(item => ({ title: urlLabel(item), value: item.failures.join('; ') }));
+  } else if (notification.event === 'regression.detected') {
+    lines = notification.regressions.map(item => ({
+      title: urlLabel(item),
+      value: item.categories.map(c => `${c.category} ${c.base} → ${c.head} (${c.delta})`).join('; ')
+    }));
+  } else {
+    lines = notification.results.map(result => ({
+      title: urlLabel(result),
+      value: result.error
+        ? `Error: ${result.error}`
+        : result.scores ? SCORE_LABELS.map(([key, label]) => `${label} ${result.scores![key]}`).join(' · ') : 'No scores'
+    }));
+  }
+
+  if (lines.length > MAX_DETAIL_LINES) {
+    const more = lines.length - MAX_DETAIL_LINES;
+    lines = lines.slice(0, MAX_DETAIL_LINES).concat({ title: '…', value: `and ${more} more` });
+  }
+  return lines;
+}
+
+function slackPayload(notification: Notification) {
+  const lines = detailLines(notification);
+  const blocks: unknown[] = [
+    { type: 'header', text: { type: 'plain_text', text: notification.title } },
+    { type: 'section', text: { type: 'mrkdwn', text: notification.summary } }
+  ];
+  if (lines.length > 0) {
+    blocks.push({
+      type: 'section',
+      // Slack caps a section's text at 3000 characters
+      text: { type: 'mrkdwn', text: lines.map(line => `*${line.title}*\n${line.value}`).join('\n').slice(0, 3000) }
+    });
+  }
+  if (notification.link) {
+    blocks.push({
+      type: 'actions',
+      elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open in dashboard' }, url: notification.link }]
+    });
+  }
+  return { text: `${notification.title}: ${notification.summary}`, blocks };
+}
+
+// Adaptive card, as accepted by Teams Workflows ("When a Teams webhook request is received")
+function teamsPayload(notification: Notification) {
+  const lines = detailLines(notification);
+  const body: unknown[] = [
+    { type: 'TextBlock', size: 'Large', weight: 'Bolder', text: notification.title, wrap: true },
+    { type: 'TextBlock', text: notification.summary, wrap: true }
+  ];
+  if (lines.length > 0) {
+    body.push({ type: 'FactSet', facts: lines });
+  }
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body,
+        actions: notification.link ? [{ type: 'Action.OpenUrl', title: 'Open in dashboard', url: notification.link }] : []
+      }
+    }]
+  };
+}
+
+/**
+ * Render a notification in a webhook's format
+ */
+export function formatPayload(format: WebhookFormat, notification: Notification): unknown {
+  if (format === 'slack') return slackPayload(notification);
+  if (format === 'teams') return teamsPayload(notification);
+  return { ...notification, timestamp: new Date().toISOString() };
+}
+
+async function send(webhook: WebhookEndpoint, notification: Notification): Promise<WebhookDelivery> {
+  const delivery = await deliverWebhook(webhook, notification.event, formatPayload(webhook.format, notification));
+  if (!delivery.ok) {
+    console.error(`Webhook "${webhook.name}" ${notification.event} delivery failed after ${delivery.attempts} attempt(s): ${delivery.error}`);
+  }
+  await getWebhookStore().updateWebhook(webhook.id, { lastDelivery: delivery });
+  return delivery;
+}
+
+/**
+ * Send a finished session's notifications to every enabled webhook subscribed to them
+ */
+export async function notifySession(sessionId: string): Promise<void> {
+  const webhooks = (await getWebhookStore().listWebhooks()).filter(webhook => webhook.enabled);
+  if (webhooks.length === 0) return;
+
+  const session = await getAuditRepository().getSession(sessionId);
+  if (!session) return;
+
+  const events = webhooks.reduce<NotificationEventType[]>((all, webhook) => all.concat(webhook.events), []);
+  const notifications = await buildSessionNotifications(session, events);
+
+  await Promise.all(webhooks.map(async webhook => {
+    // One webhook's notifications go out in order; retries hold up only that webhook
+    const subscribed = notifications.filter(notification => webhook.events.includes(notification.event));
+    for (let i = 0; i < subscribed.length; i++) {
+      await send(webhook, subscribed[i]);
+    }
+  }));
+}
+
+/**
+ * Send a `ping` so a new webhook can be checked end to end
+ */
+export function sendTestNotification(webhook: WebhookEndpoint): Promise<WebhookDelivery> {
+  return send(webhook, {
+    event: 'ping',
+    title: 'Lighthouse Checker test notification',
+    summary: `Webhook "${webhook.name}" is set up correctly`,
+    results: [],
+    budgetFailures: [],
+    regressions: []
+  });
+}
@@ -0,0 +1,59 @@
+import os from 'os';
+import { LighthouseConfig } from '@/types';
+
+/**
+ * Hard upper bound on parallel audits, whatever the config asks for
+ */
+export const MAX_CONCURRENCY = 16;
+
+/**
+ * Pick a safe default number of parallel audits for this machine. Each
+ * Lighthouse run wants roughly two cores and 1GB of memory to itself;
+ * starving it skews the CPU-bound parts of simulated throttling and makes
+ * scores drift, so the default deliberately leaves headroom.
+ */
+export function defaultConcurrency(): number {
+  const cpus = os.cpus().length || 1;
+  const memoryGb = os.totalmem() / (1024 * 1024 * 1024);
+  return Math.max(1, Math.min(Math.floor(cpus / 2), Math.floor(memoryGb), 4));
+}
+
+/**
+ * Resolve the number of workers for a batch of `itemCount` URLs
+ */
+export function resolveConcurrency(config: Pick<LighthouseConfig, 'concurrency'>, itemCount: number): number {
+  const requested = config.concurrency ?? defaultConcurrency();
+  return Math.max(1, Math.min(requested, MAX_CONCURRENCY, itemCount));
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Workers pull the next item as soon as they finish, so results complete
+ * out of order, but the returned array matches the input order. Once
+ * `signal` aborts no new items are started; calls already in flight finish
+ * and items never started are left as holes in the result.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, workerId: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async (workerId: number) => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index, workerId);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let workerId = 0; workerId < Math.min(concurrency, items.length); workerId++) {
+    workers.push(runWorker(workerId));
+  }
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,267 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getDataDir } from './storage';
+import { EmulationProfile, LighthouseConfig, ThrottlingMethod, ThrottlingSettings } from '@/types';
+
+const THROTTLING_METHODS: ThrottlingMethod[] = ['simulate', 'devtools', 'provided'];
+
+const THROTTLING_FIELDS: Array<keyof ThrottlingSettings> = [
+  'rttMs',
+  'throughputKbps',
+  'requestLatencyMs',
+  'downloadThroughputKbps',
+  'uploadThroughputKbps',
+  'cpuSlowdownMultiplier'
+];
+
+const IPHONE_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.2 Mobile/15E148 Safari/604.1';
+const MOTO_G_USER_AGENT = 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Mobile Safari/537.36';
+const DESKTOP_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Lighthouse's default mobile network (DevTools' classic "Fast 3G" numbers)
+const SLOW_4G: ThrottlingSettings = {
+  rttMs: 150,
+  throughputKbps: 1638.4,
+  requestLatencyMs: 562.5,
+  downloadThroughputKbps: 1474.56,
+  uploadThroughputKbps: 675,
+  cpuSlowdownMultiplier: 4
+};
+
+/**
+ * Profiles shipped with the app. The two defaults reproduce the settings
+ * audits used before profiles existed, so runs without a profile compare cleanly.
+ */
+export const PROFILE_PRESETS: EmulationProfile[] = [
+  {
+    id: 'default-mobile',
+    name: 'Mobile (default)',
+    formFactor: 'mobile',
+    screen: { width: 375, height: 812, deviceScaleFactor: 2 },
+    userAgent: IPHONE_USER_AGENT,
+    throttlingMethod: 'simulate',
+    throttling: {
+      rttMs: 150,
+      throughputKbps: 1638.4,
+      requestLatencyMs: 150,
+      downloadThroughputKbps: 1638.4,
+      uploadThroughputKbps: 750,
+      cpuSlowdownMultiplier: 4
+    },
+    preset: true
+  },
+  {
+    id: 'default-desktop',
+    name: 'Desktop (default)',
+    formFactor: 'desktop',
+    screen: { width: 1350, height: 940, deviceScaleFactor: 1 },
+    userAgent: DESKTOP_USER_AGENT,
+    throttlingMethod: 'simulate',
+    throttling: {
+      rttMs: 40,
+      throughputKbps: 10240,
+      requestLatencyMs: 0,
+      downloadThroughputKbps: 0,
+      uploadThroughputKbps: 0,
+      cpuSlowdownMultiplier: 1
+    },
+    preset: true
+  },
+  {
+    id: 'slow-4g-moto-g',
+    name: 'Slow 4G Moto G',
+    formFactor: 'mobile',
+    screen: { width: 412, height: 823, deviceScaleFactor: 1.75 },
+    userAgent: MOTO_G_USER_AGENT,
+    throttlingMethod: 'simulate',
+    throttling: SLOW_4G,
+    preset: true
+  },
+  {
+    // Same network as Slow 4G, but applied in the browser rather than simulated
+    id: 'fast-3g',
+    name: 'Fast 3G',
+    formFactor: 'mobile',
+    screen: { width: 412, height: 823, deviceScaleFactor: 1.75 },
+    userAgent: MOTO_G_USER_AGENT,
+    throttlingMethod: 'devtools',
+    throttling: SLOW_4G,
+    preset: true
+  },
+  {
+    id: 'unthrottled-desktop',
+    name: 'Unthrottled desktop',
+    formFactor: 'desktop',
+    screen: { width: 1350, height: 940, deviceScaleFactor: 1 },
+    userAgent: DESKTOP_USER_AGENT,
+    throttlingMethod: 'provided',
+    throttling: {
+      rttMs: 0,
+      throughputKbps: 0,
+      requestLatencyMs: 0,
+      downloadThroughputKbps: 0,
+      uploadThroughputKbps: 0,
+      cpuSlowdownMultiplier: 1
+    },
+    preset: true
+  }
+];
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+/**
+ * Profile an audit runs with: its own, or the default for its form factor
+ */
+export function resolveProfile(config: LighthouseConfig): EmulationProfile {
+  return config.profile || PROFILE_PRESETS.find(profile => profile.id === `default-${config.formFactor}`)!;
+}
+
+const isPositiveNumber = (value: unknown, allowZero = false): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && (allowZero ? value >= 0 : value > 0);
+
+/**
+ * Validate an untrusted value (request body, profile editor) as a profile
+ */
+export function validateProfile(value: unknown): EmulationProfile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ProfileError('Profile must be an object');
+  }
+
+  const raw = value as Record<string, any>;
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    throw new ProfileError('Profile needs a name');
+  }
+  const name = raw.name.trim();
+
+  if (raw.formFactor !== 'desktop' && raw.formFactor !== 'mobile') {
+    throw new ProfileError(`Profile "${name}" form factor must be desktop or mobile`);
+  }
+
+  const screen = raw.screen || {};
+  if (!Number.isInteger(screen.width) || !Number.isInteger(screen.height) || screen.width < 1 || screen.height < 1) {
+    throw new ProfileError(`Profile "${name}" screen width and height must be positive integers`);
+  }
+  if (!isPositiveNumber(screen.deviceScaleFactor)) {
+    throw new ProfileError(`Profile "${name}" device pixel ratio must be a positive number`);
+  }
+
+  if (typeof raw.userAgent !== 'string' || raw.userAgent.trim().length === 0) {
+    throw new ProfileError(`Profile "${name}" needs a user agent`);
+  }
+
+  if (!THROTTLING_METHODS.includes(raw.throttlingMethod)) {
+    throw new ProfileError(`Profile "${name}" throttling method must be one of ${THROTTLING_METHODS.join(', ')}`);
+  }
+
+  const throttling = raw.throttling || {};
+  THROTTLING_FIELDS.forEach(field => {
+    if (!isPositiveNumber(throttling[field], field !== 'cpuSlowdownMultiplier')) {
+      throw new ProfileError(`Profile "${name}" throttling "${field}" must be a ${field === 'cpuSlowdownMultiplier' ? 'positive' : 'non-negative'} number`);
+    }
+  });
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : slugifyProfileName(name),
+    name,
+    formFactor: raw.formFactor,
+    screen: { width: screen.width, height: screen.height, deviceScaleFactor: screen.deviceScaleFactor },
+    userAgent: raw.userAgent.trim(),
+    throttlingMethod: raw.throttlingMethod,
+    throttling: THROTTLING_FIELDS.reduce(
+      (settings, field) => ({ ...settings, [field]: throttling[field] }),
+      {} as ThrottlingSettings
+    )
+  };
+}
+
+export function slugifyProfileName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+}
+
+/**
+ * User-defined profiles, kept in `<dataDir>/profiles.json` next to the
+ * audit history. Presets are never written there.
+ */
+export class FileProfileStore {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'profiles.json');
+  }
+
+  /**
+   * Presets first, then saved profiles by name
+   */
+  async listProfiles(): Promise<EmulationProfile[]> {
+    const custom = await this.readCustom();
+    return [...PROFILE_PRESETS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  async getProfile(id: string): Promise<EmulationProfile | null> {
+    return (await this.listProfiles()).find(profile => profile.id === id) || null;
+  }
+
+  /**
+   * Create or replace a saved profile, matched by id
+   */
+  async saveProfile(profile: EmulationProfile): Promise<EmulationProfile> {
+    if (PROFILE_PRESETS.some(preset => preset.id === profile.id)) {
+      throw new ProfileError(`"${profile.name}" is a built-in preset; save it under a new name`);
+    }
+
+    await this.update(custom => [...custom.filter(existing => existing.id !== profile.id), profile]);
+    return profile;
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    let removed = false;
+    await this.update(custom => {
+      removed = custom.some(profile => profile.id === id);
+      return custom.filter(profile => profile.id !== id);
+    });
+    return removed;
+  }
+
+  private async readCustom(): Promise<EmulationProfile[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private update(change: (custom: EmulationProfile[]) => EmulationProfile[]): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const updated = change(await this.readCustom());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(updated, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __profileStore?: FileProfileStore;
+};
+
+/**
+ * Get the process-wide profile store
+ */
+export function getProfileStore(): FileProfileStore {
+  if (!globalStore.__profileStore) {
+    globalStore.__profileStore = new FileProfileStore(getDataDir());
+  }
+  return globalStore.__profileStore;
+}
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Result as LighthouseResult } from 'lighthouse';
+import { AuditResult } from '@/types';
+
+/**
+ * Directory that generated reports are written to and served from
+ */
+export const PUBLIC_REPORTS_DIR = path.join(process.cwd(), 'public', 'reports');
+
+/**
+ * Turn an absolute report path into the `/reports/...` path served to the browser
+ */
+export function toPublicReportPath(filePath: string): string {
+  return filePath.replace(PUBLIC_REPORTS_DIR, '/reports');
+}
+
+export class ReportPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportPathError';
+  }
+}
+
+/**
+ * Resolve a `/reports/...` web path back to a file, refusing anything outside the reports directory
+ */
+export function resolveReportFile(reportPath: string): string {
+  const relative = reportPath.replace(/^\/reports\/?/, '');
+  const resolved = path.resolve(PUBLIC_REPORTS_DIR, relative);
+
+  if (!resolved.startsWith(PUBLIC_REPORTS_DIR + path.sep)) {
+    throw new ReportPathError(`Report path outside reports directory: ${reportPath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Load the raw LHR JSON saved for an audit result
+ */
+export async function readLhr(reportPath: string): Promise<LighthouseResult> {
+  const raw = await fs.readFile(resolveReportFile(reportPath), 'utf-8');
+  return JSON.parse(raw);
+}
+
+/**
+ * Calculate rounded category scores from an LHR
+ */
+export function extractScores(lhr: LighthouseResult): NonNullable<AuditResult['scores']> {
+  return {
+    performance: Math.round((lhr.categories.performance?.score || 0) * 100),
+    accessibility: Math.round((lhr.categories.accessibility?.score || 0) * 100),
+    'best-practices': Math.round((lhr.categories['best-practices']?.score || 0) * 100),
+    seo: Math.round((lhr.categories.seo?.score || 0) * 100),
+    pwa: lhr.categories.pwa?.score !== undefined && lhr.categories.pwa?.score !== null
+      ? Math.round(lhr.categories.pwa.score * 100)
+      : 'N/A' as const
+  };
+}
+
+/**
+ * Extract opportunity audits from an LHR, largest savings first
+ */
+export function extractOpportunities(lhr: LighthouseResult): NonNullable<AuditResult['opportunities']> {
+  return Object.values(lhr.audits)
+    .filter((audit: any) => audit.details && audit.details.type === 'opportunity')
+    .sort((a: any, b: any) => (b.numericValue || 0) - (a.numericValue || 0))
+    .map((opportunity: any) => ({
+      title: opportunity.title,
+      displayValue: opportunity.displayValue,
+      numericValue: opportunity.numericValue
+    }));
+}
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  buildRequestHeaders,
+  hasMaskedSecrets,
+  hostMatches,
+  MASKED_VALUE,
+  maskRequestConfig,
+  validateRequestConfig
+} from './requests';
+import { RequestCustomization } from '@/types';
+
+const request: RequestCustomization = {
+  basicAuth: { username: 'preview', password: 'hunter2' },
+  headers: [
+    { name: 'X-Debug', value: '1' },
+    { name: 'X-Api-Key', value: 'key' },
+    { name: 'X-Preview', value: 'on', secret: true }
+  ],
+  cookies: [{ name: 'session', value: 'abc' }],
+  hostRules: [
+    { host: 'staging.example.com', headers: [{ name: 'X-Env', value: 'staging' }] },
+    { host: '*.cdn.example.com', headers: [{ name: 'X-Cdn-Token', value: 'cdn' }] }
+  ]
+};
+const config = { bypassToken: 'bypass', request };
+const audited = 'https://staging.example.com/pricing';
+
+describe('buildRequestHeaders', () => {
+  it('sends credentials and secret headers to the audited origin', () => {
+    assert.deepEqual(buildRequestHeaders(config, 'https://staging.example.com/app.js', audited), {
+      'x-vercel-protection-bypass': 'bypass',
+      Authorization: `Basic ${Buffer.from('preview:hunter2').toString('base64')}`,
+      'X-Debug': '1',
+      'X-Api-Key': 'key',
+      'X-Preview': 'on',
+      'X-Env': 'staging'
+    });
+  });
+
+  it('keeps credentials and secret headers from third parties', () => {
+    [
+      'https://www.google-analytics.com/collect',
+      'http://staging.example.com/insecure.js',
+      'https://staging.example.com:8443/other-port',
+      'https://api.staging.example.com/',
+      'data:image/png;base64,AAAA'
+    ].forEach(url => {
+      const headers = buildRequestHeaders(config, url, audited);
+      ['x-vercel-protection-bypass', 'Authorization', 'X-Api-Key', 'X-Preview'].forEach(name => {
+        assert.equal(headers[name], undefined, `${name} sent to ${url}`);
+      });
+      assert.equal(headers['X-Debug'], '1');
+    });
+  });
+
+  it('applies host rules to matching hosts only', () => {
+    assert.equal(buildRequestHeaders(config, 'https://img.cdn.example.com/a.png', audited)['X-Cdn-Token'], 'cdn');
+    assert.equal(buildRequestHeaders(config, 'https://cdn.example.com/a.png', audited)['X-Cdn-Token'], undefined);
+    assert.equal(buildRequestHeaders(config, 'https://www.example.com/', audited)['X-Env'], undefined);
+  });
+
+  it('treats the request itself as first party when no audited URL is given', () => {
+    assert.equal(buildRequestHeaders(config, 'https://other.example/')['x-vercel-protection-bypass'], 'bypass');
+    assert.deepEqual(buildRequestHeaders(config), { 'X-Debug': '1' });
+  });
+});
+
+describe('hostMatches', () => {
+  it('matches exact hosts and subdomain wildcards', () => {
+    assert.equal(hostMatches('example.com', 'EXAMPLE.com'), true);
+    assert.equal(hostMatches('example.com', 'www.example.com'), false);
+    assert.equal(hostMatches('*.example.com', 'a.b.example.com'), true);
+    assert.equal(hostMatches('*.example.com', 'example.com'), false);
+    assert.equal(hostMatches('*.example.com', 'badexample.com'), false);
+  });
+});
+
+describe('maskRequestConfig', () => {
+  it('masks cookie values, the basic auth password and secret headers', () => {
+    const masked = maskRequestConfig(request);
+    assert.deepEqual(masked.headers!.map(header => header.value), ['1', MASKED_VALUE, MASKED_VALUE]);
+    assert.equal(masked.cookies![0].value, MASKED_VALUE);
+    assert.deepEqual(masked.basicAuth, { username: 'preview', password: MASKED_VALUE });
+    assert.deepEqual(masked.hostRules!.map(rule => rule.headers[0].value), ['staging', MASKED_VALUE]);
+    assert.equal(request.basicAuth!.password, 'hunter2');
+  });
+});
+
+describe('hasMaskedSecrets', () => {
+  it('detects masked values anywhere in the customization', () => {
+    assert.equal(hasMaskedSecrets(undefined), false);
+    assert.equal(hasMaskedSecrets(request), false);
+    assert.equal(hasMaskedSecrets(maskRequestConfig(request)), true);
+    assert.equal(hasMaskedSecrets({ basicAuth: { username: 'u', password: MASKED_VALUE } }), true);
+    assert.equal(hasMaskedSecrets({ cookies: [{ name: 'a', value: MASKED_VALUE }] }), true);
+    assert.equal(hasMaskedSecrets({ hostRules: [{ host: 'a.com', headers: [{ name: 'X-Token', value: MASKED_VALUE }] }] }), true);
+  });
+});
+
+describe('validateRequestConfig', () => {
+  it('rejects header injection and malformed entries', () => {
+    assert.throws(() => validateRequestConfig({ headers: [{ name: 'X-A', value: 'a\r\nX-B: b' }] }), /single-line/);
+    assert.throws(() => validateRequestConfig({ headers: [{ name: 'Bad Name', value: 'a' }] }), /invalid header name/);
+    assert.throws(() => validateRequestConfig({ basicAuth: { username: 'a:b', password: 'c' } }), /without ":"/);
+    assert.deepEqual(validateRequestConfig({ hostRules: [{ host: 'Example.COM', headers: [] }] }), {
+      hostRules: [{ host: 'example.com', headers: [] }]
+    });
+  });
+});
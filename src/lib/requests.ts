@@ -0,0 +1,267 @@
+import type { CookieData, Page } from 'puppeteer';
+import {
+  CookieEntry,
+  HeaderEntry,
+  HostHeaderRule,
+  LighthouseConfig,
+  RequestCustomization
+} from '@/types';
+
+/**
+ * Stand-in for secret values in stored sessions
+ */
+export const MASKED_VALUE = '********';
+
+// Header names that always carry credentials
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-vercel-protection-bypass'];
+const SENSITIVE_HEADER_PATTERN = /token|secret|key|password|auth/i;
+
+// RFC 7230 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export class RequestConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestConfigError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function validateHeaders(value: unknown, where: string): HeaderEntry[] {
+  if (!Array.isArray(value)) {
+    throw new RequestConfigError(`${where} must be a list of headers`);
+  }
+
+  return value.map((entry, index) => {
+    if (!isObject(entry)) {
+      throw new RequestConfigError(`${where} #${index + 1} must be an object`);
+    }
+    const { name, value: headerValue, secret } = entry;
+    if (typeof name !== 'string' || !HEADER_NAME_PATTERN.test(name)) {
+      throw new RequestConfigError(`${where} #${index + 1} has an invalid header name "${name}"`);
+    }
+    if (typeof headerValue !== 'string' || /[\r\n]/.test(headerValue)) {
+      throw new RequestConfigError(`Header "${name}" needs a single-line string value`);
+    }
+    if (secret !== undefined && typeof secret !== 'boolean') {
+      throw new RequestConfigError(`Header "${name}" "secret" must be true or false`);
+    }
+    return { name, value: headerValue, secret };
+  });
+}
+
+function validateCookies(value: unknown): CookieEntry[] {
+  if (!Array.isArray(value)) {
+    throw new RequestConfigError('Cookies must be a list');
+  }
+
+  return value.map((entry, index) => {
+    if (!isObject(entry)) {
+      throw new RequestConfigError(`Cookie #${index + 1} must be an object`);
+    }
+    const { name, value: cookieValue, domain, path } = entry;
+    if (typeof name !== 'string' || name.length === 0 || /[\s;=]/.test(name)) {
+      throw new RequestConfigError(`Cookie #${index + 1} has an invalid name "${name}"`);
+    }
+    if (typeof cookieValue !== 'string' || /[\r\n;]/.test(cookieValue)) {
+      throw new RequestConfigError(`Cookie "${name}" needs a string value without ";"`);
+    }
+    if (domain !== undefined && (typeof domain !== 'string' || domain.length === 0)) {
+      throw new RequestConfigError(`Cookie "${name}" domain must be a hostname`);
+    }
+    if (path !== undefined && (typeof path !== 'string' || !path.startsWith('/'))) {
+      throw new RequestConfigError(`Cookie "${name}" path must start with "/"`);
+    }
+    return { name, value: cookieValue, domain, path };
+  });
+}
+
+function validateHostRules(value: unknown): HostHeaderRule[] {
+  if (!Array.isArray(value)) {
+    throw new RequestConfigError('Host rules must be a list');
+  }
+
+  return value.map((rule, index) => {
+    if (!isObject(rule) || typeof rule.host !== 'string' || rule.host.length === 0) {
+      throw new RequestConfigError(`Host rule #${index + 1} needs a "host"`);
+    }
+    return { host: rule.host.toLowerCase(), headers: validateHeaders(rule.headers, `Host rule "${rule.host}" header`) };
+  });
+}
+
+/**
+ * Validate an untrusted value (request body, CLI flags) as request customization
+ */
+export function validateRequestConfig(value: unknown): RequestCustomization {
+  if (!isObject(value)) {
+    throw new RequestConfigError('Request customization must be an object');
+  }
+
+  const request: RequestCustomization = {};
+  if (value.headers !== undefined) request.headers = validateHeaders(value.headers, 'Header');
+  if (value.cookies !== undefined) request.cookies = validateCookies(value.cookies);
+  if (value.hostRules !== undefined) request.hostRules = validateHostRules(value.hostRules);
+
+  if (value.basicAuth !== undefined) {
+    const { username, password } = isObject(value.basicAuth) ? value.basicAuth : ({} as Record<string, unknown>);
+    if (typeof username !== 'string' || username.length === 0 || username.includes(':')) {
+      throw new RequestConfigError('Basic auth needs a username without ":"');
+    }
+    if (typeof password !== 'string') {
+      throw new RequestConfigError('Basic auth needs a password');
+    }
+    request.basicAuth = { username, password };
+  }
+
+  return request;
+}
+
+/**
+ * Drop blank rows left in the editor; undefined when nothing is configured
+ */
+export function compactRequestConfig(request: RequestCustomization): RequestCustomization | undefined {
+  const headers = (request.headers || []).filter(header => header.name.trim());
+  const cookies = (request.cookies || []).filter(cookie => cookie.name.trim());
+  const hostRules = (request.hostRules || [])
+    .map(rule => ({ ...rule, headers: rule.headers.filter(header => header.name.trim()) }))
+    .filter(rule => rule.host.trim() && rule.headers.length > 0);
+  const basicAuth = request.basicAuth?.username ? request.basicAuth : undefined;
+
+  if (!headers.length && !cookies.length && !hostRules.length && !basicAuth) return undefined;
+  return {
+    headers: headers.length ? headers : undefined,
+    cookies: cookies.length ? cookies : undefined,
+    basicAuth,
+    hostRules: hostRules.length ? hostRules : undefined
+  };
+}
+
+const isSecretHeader = (header: HeaderEntry) =>
+  header.secret || SENSITIVE_HEADERS.includes(header.name.toLowerCase()) || SENSITIVE_HEADER_PATTERN.test(header.name);
+
+const maskHeaders = (headers: HeaderEntry[]) =>
+  headers.map(header => (isSecretHeader(header) ? { ...header, value: MASKED_VALUE } : header));
+
+/**
+ * Copy of the customization with secret header values, cookie values and the
+ * basic auth password replaced by MASKED_VALUE, for storing in history
+ */
+export function maskRequestConfig(request: RequestCustomization): RequestCustomization {
+  return {
+    ...request,
+    headers: request.headers && maskHeaders(request.headers),
+    cookies: request.cookies?.map(cookie => ({ ...cookie, value: MASKED_VALUE })),
+    basicAuth: request.basicAuth && { ...request.basicAuth, password: MASKED_VALUE },
+    hostRules: request.hostRules?.map(rule => ({ ...rule, headers: maskHeaders(rule.headers) }))
+  };
+}
+
+/**
+ * Whether a (stored) customization still holds masked secrets, so it can't be replayed
+ */
+export function hasMaskedSecrets(request: RequestCustomization | undefined): boolean {
+  if (!request) return false;
+  const headers = [...(request.headers || []), ...(request.hostRules || []).reduce<HeaderEntry[]>((all, rule) => all.concat(rule.headers), [])];
+  return headers.some(header => header.value === MASKED_VALUE) ||
+    (request.cookies || []).some(cookie => cookie.value === MASKED_VALUE) ||
+    request.basicAuth?.password === MASKED_VALUE;
+}
+
+export function hostMatches(pattern: string, hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.slice(1);
+    return host.endsWith(suffix) && host.length > suffix.length;
+  }
+  return host === pattern;
+}
+
+const originOf = (url: string | undefined) => {
+  try {
+    return url ? new URL(url).origin : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Headers for a request to `url` made while auditing `auditedUrl` (by default
+ * `url` itself): the bypass token, basic auth, global headers, then host rules
+ * matching `url`'s host (later entries win). The bypass token, basic auth and
+ * secret global headers only go to the audited origin, never to third parties.
+ */
+export function buildRequestHeaders(
+  config: Pick<LighthouseConfig, 'bypassToken' | 'request'>,
+  url?: string,
+  auditedUrl = url
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const request = config.request || {};
+  const origin = originOf(url);
+  const firstParty = !!origin && origin !== 'null' && origin === originOf(auditedUrl);
+
+  if (firstParty && config.bypassToken) {
+    headers['x-vercel-protection-bypass'] = config.bypassToken;
+  }
+
+  if (firstParty && request.basicAuth) {
+    const credentials = `${request.basicAuth.username}:${request.basicAuth.password}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  (request.headers || [])
+    .filter(header => firstParty || !isSecretHeader(header))
+    .forEach(header => {
+      headers[header.name] = header.value;
+    });
+
+  const hostname = origin ? new URL(url!).hostname : undefined;
+  if (hostname) {
+    (request.hostRules || [])
+      .filter(rule => hostMatches(rule.host, hostname))
+      .forEach(rule => rule.headers.forEach(header => {
+        headers[header.name] = header.value;
+      }));
+  }
+
+  return headers;
+}
+
+/**
+ * Add the configured headers to each of the page's requests and set cookies
+ * on its browser context before it loads `url`. Headers are chosen per
+ * request, so credentials meant for `url`'s origin don't reach the third
+ * parties it loads and host rules apply to every host the page talks to.
+ */
+export async function applyRequestCustomization(page: Page, config: LighthouseConfig, url?: string) {
+  const request = config.request || {};
+  if (config.bypassToken || request.basicAuth || request.headers?.length || request.hostRules?.length) {
+    await page.setRequestInterception(true);
+    page.on('request', intercepted => {
+      if (intercepted.isInterceptResolutionHandled()) return;
+      const headers = intercepted.headers();
+      const extra = buildRequestHeaders(config, intercepted.url(), url);
+      // Request headers come lower-cased; match them so nothing is sent twice
+      Object.keys(extra).forEach(name => {
+        headers[name.toLowerCase()] = extra[name];
+      });
+      intercepted.continue({ headers }).catch(() => undefined);
+    });
+  }
+
+  const cookies = config.request?.cookies || [];
+  if (cookies.length > 0) {
+    const defaultDomain = url ? new URL(url).hostname : undefined;
+    const cookieData: CookieData[] = cookies
+      .filter(cookie => cookie.domain || defaultDomain)
+      .map(cookie => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain || defaultDomain!,
+        path: cookie.path || '/'
+      }));
+    await page.browserContext().setCookie(...cookieData);
+  }
+}
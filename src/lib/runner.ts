@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import path from 'path';
+import { LighthouseService } from './lighthouse';
+import { AuthConfigError, resolveStorageStatePath, validateAuthConfig } from './auth';
+import { BudgetParseError, validateBudgets } from './budgets';
+import { FlowParseError, validateUserFlows } from './flows';
+import { publishAuditEvent, publishAuditLog, publishSessionProgress } from './events';
+import { ProfileError, resolveProfile, validateProfile } from './profiles';
+import { RequestConfigError, validateRequestConfig } from './requests';
+import { PUBLIC_REPORTS_DIR, toPublicReportPath } from './reports';
+import { BrowserManager } from './browser';
+import { endAuditJob, startAuditJob } from './jobs';
+import { notifySession } from './notifications';
+import { MAX_RUNS } from './median';
+import { MAX_CONCURRENCY, resolveConcurrency, runPool } from './pool';
+import { ImportError, validateUrlOverrides } from './imports';
+import { InsightsError, InsightsProvider, validateInsightsSettings } from './insights';
+import { createInsightsProvider } from './llm';
+import { getAuditRepository, sanitizeConfig } from './storage';
+import { placeResults } from './utils';
+import { expandAuditTargets, labelResult, validateVariants, VariantError } from './variants';
+import { LighthouseConfig, AuditResult, AuditSession, BatchInsights, FlowAuditResult, ScheduleRef } from '@/types';
+
+export class AuditConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditConfigError';
+  }
+}
+
+// Validation errors of the config's parts, reported as AuditConfigError
+const CONFIG_ERRORS = [ProfileError, VariantError, BudgetParseError, FlowParseError, AuthConfigError, RequestConfigError, ImportError, InsightsError];
+
+/**
+ * Generate unique session ID
+ */
+function generateSessionId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Validate an untrusted audit request (API body, stored schedule) in place and
+ * return the URLs that parse, without duplicates; throws AuditConfigError for anything invalid
+ */
+export function validateAuditRequest(urls: unknown, config: LighthouseConfig): string[] {
+  if (!Array.isArray(urls) || (urls.length === 0 && !config?.flows?.length)) {
+    throw new AuditConfigError('URLs array is required');
+  }
+
+  if (!config || !config.formFactor) {
+    throw new AuditConfigError('Configuration with formFactor is required');
+  }
+
+  try {
+    if (config.profile !== undefined) {
+      config.profile = validateProfile(config.profile);
+      // File names and history are split by form factor, so it follows the profile
+      config.formFactor = config.profile.formFactor;
+    }
+
+    if (config.variants !== undefined) {
+      const variants = validateVariants(config.variants);
+      // The first variant is the baseline; flows and file names follow it
+      config.formFactor = variants[0].formFactor;
+      config.profile = variants[0].profile;
+      config.variants = variants.length > 1 ? variants : undefined;
+    }
+
+    if (config.budgets !== undefined) {
+      config.budgets = validateBudgets(config.budgets);
+    }
+
+    if (config.flows !== undefined) {
+      config.flows = validateUserFlows(config.flows);
+    }
+
+    if (config.auth !== undefined) {
+      config.auth = validateAuthConfig(config.auth);
+      // Only files under AUTH_STATE_DIR may be read on the server
+      if (config.auth.storageState) resolveStorageStatePath(config.auth.storageState);
+    }
+
+    if (config.request !== undefined) {
+      config.request = validateRequestConfig(config.request);
+    }
+
+    if (config.overrides !== undefined) {
+      config.overrides = validateUrlOverrides(config.overrides);
+    }
+
+    if (config.insights !== undefined) {
+      config.insights = validateInsightsSettings(config.insights);
+    }
+    // Reports missing keys and server settings for the chosen provider up front
+    createInsightsProvider(config);
+  } catch (error) {
+    if (CONFIG_ERRORS.some(ErrorClass => error instanceof ErrorClass)) {
+      throw new AuditConfigError((error as Error).message);
+    }
+    throw error;
+  }
+
+  if (config.concurrency !== undefined &&
+      (!Number.isInteger(config.concurrency) || config.concurrency < 1 || config.concurrency > MAX_CONCURRENCY)) {
+    throw new AuditConfigError(`Concurrency must be an integer between 1 and ${MAX_CONCURRENCY}`);
+  }
+
+  if (config.runs !== undefined &&
+      (!Number.isInteger(config.runs) || config.runs < 1 || config.runs > MAX_RUNS)) {
+    throw new AuditConfigError(`Runs must be an integer between 1 and ${MAX_RUNS}`);
+  }
+
+  const validUrls = urls.filter((url, index): url is string => {
+    // Results and AI insights are keyed by URL, so each one is audited once
+    if (urls.indexOf(url) !== index) return false;
+    try {
+      new URL(url);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  if (validUrls.length === 0 && !config.flows?.length) {
+    throw new AuditConfigError('No valid URLs provided');
+  }
+  return validUrls;
+}
+
+/**
+ * Create a session for validated URLs and config and start auditing it in the
+ * background; resolves with the session ID once the session is stored
+ */
+export async function startAuditSession(
+  urls: string[],
+  config: LighthouseConfig,
+  schedule?: ScheduleRef
+): Promise<string> {
+  const sessionId = generateSessionId();
+  const flowCount = config.flows?.length || 0;
+  const variantCount = config.variants?.length || 1;
+
+  const now = new Date().toISOString();
+  await getAuditRepository().createSession({
+    sessionId,
+    status: 'processing',
+    config: sanitizeConfig(config),
+    urls,
+    results: [],
+    flowResults: [],
+    progress: 0,
+    total: urls.length * variantCount + flowCount,
+    schedule,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  processAuditAsync(sessionId, urls, config);
+  return sessionId;
+}
+
+/**
+ * Process audit asynchronously. Results already in `previousResults` and
+ * `previousFlowResults` (from a paused run) are kept and their URLs and flows skipped.
+ */
+export async function processAuditAsync(
+  sessionId: string, 
+  urls: string[], 
+  config: LighthouseConfig,
+  previousResults: AuditResult[] = [],
+  previousFlowResults: FlowAuditResult[] = []
+) {
+  const repository = getAuditRepository();
+  const job = startAuditJob(sessionId, config);
+  let paused = false;
+
+  // Persist a session change and push the new progress to stream subscribers
+  const updateSession = async (patch: Partial<Omit<AuditSession, 'sessionId'>>) => {
+    const updated = await repository.updateSession(sessionId, patch);
+    if (updated) publishSessionProgress(updated);
+  };
+
+  // Webhooks go out in the background so a slow receiver never holds up the session
+  const notify = () => {
+    notifySession(sessionId).catch(error => console.error('Failed to send notifications:', error));
+  };
+
+  const log = (message: string, url?: string) => {
+    console.log(`Session ${sessionId}: ${message}`);
+    publishAuditLog(sessionId, message, url);
+  };
+
+  try {
+    // Audits still run when the provider can't be set up, e.g. a key removed while paused
+    let insightsProvider: InsightsProvider | null = null;
+    try {
+      insightsProvider = createInsightsProvider(config);
+    } catch (error) {
+      log(`AI insights disabled: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const lighthouseService = new LighthouseService(insightsProvider);
+    const reportsDir = PUBLIC_REPORTS_DIR;
+    const flows = config.flows || [];
+    // One audit per URL, or per URL and variant when comparing variants
+    const targets = expandAuditTargets(urls, config);
+    const total = targets.length + flows.length;
+    
+    // Process URLs in parallel workers; completed results are kept in input order
+    const completed = placeResults(urls, previousResults, config.variants).slice(0, targets.length);
+    const pending = targets.map((_, index) => index).filter(index => !completed[index]);
+    // Flow names are unique, so finished flows are matched by name
+    const completedFlows = flows.map(flow => previousFlowResults.find(result => result.name === flow.name));
+    const pendingFlows = flows.map((_, index) => index).filter(index => !completedFlows[index]);
+    const activeUrls: string[] = [];
+    let completedCount = total - pending.length - pendingFlows.length;
+    const concurrency = resolveConcurrency(config, pending.length + pendingFlows.length);
+    if (completedCount > 0) {
+      log(`Resuming with ${pending.length + pendingFlows.length} of ${total} audit(s) left`);
+    }
+    log(`Auditing ${pending.length} ${config.variants ? `URL/variant pair(s) (${config.variants.length} variants)` : 'URL(s)'}${flows.length > 0 ? ` and ${pendingFlows.length} user flow(s)` : ''} with ${concurrency} worker(s)`);
+
+    const browsers = Array.from({ length: concurrency }, () => new BrowserManager());
+    job.browsers = browsers;
+
+    const collectResults = () => completed.filter((item): item is AuditResult => item !== undefined);
+    const collectFlowResults = () => completedFlows.filter((item): item is FlowAuditResult => item !== undefined);
+
+    // Track what each worker is on, run the audit, and record it unless cancelled
+    const runTracked = async <R>(label: string, audit: () => Promise<R>, record: (result: R) => Promise<void>) => {
+      activeUrls.push(label);
+      await updateSession({
+        currentUrl: label,
+        activeUrls: [...activeUrls]
+      });
+
+      const result = await audit();
+      activeUrls.splice(activeUrls.indexOf(label), 1);
+
+      // Chrome was killed under this audit; leave it unaudited
+      if (job.stopReason === 'cancel') return;
+
+      completedCount++;
+      await record(result);
+    };
+
+    try {
+      await runPool(pending, concurrency, (index, _, workerId) => {
+        const { url, config: targetConfig, override } = targets[index];
+        const label = config.variants ? `${url} (${resolveProfile(targetConfig).name})` : url;
+        return runTracked(label, async () => {
+          try {
+            const result = await lighthouseService.auditUrl(
+              url,
+              targetConfig,
+              reportsDir,
+              (message) => log(message, url),
+              browsers[workerId]
+            );
+
+            // Make report paths relative to public directory for web access
+            if (result.reportPaths) {
+              result.reportPaths.json = toPublicReportPath(result.reportPaths.json);
+              result.reportPaths.html = toPublicReportPath(result.reportPaths.html);
+            }
+            return labelResult(result, override);
+          } catch (error) {
+            console.error(`Error processing ${url}:`, error);
+            return labelResult({
+              url,
+              formFactor: targetConfig.formFactor,
+              profile: resolveProfile(targetConfig).name,
+              error: error instanceof Error ? error.message : 'Unknown error occurred'
+            }, override);
+          }
+        }, async (result) => {
+          completed[index] = result;
+          publishAuditEvent(sessionId, { type: 'result', index, result });
+
+          // Update session with partial results
+          await updateSession({
+            results: collectResults(),
+            progress: completedCount,
+            currentUrl: activeUrls[activeUrls.length - 1],
+            activeUrls: [...activeUrls]
+          });
+        });
+      }, job.controller.signal);
+
+      await runPool(pendingFlows, concurrency, (index, _, workerId) => {
+        const flow = flows[index];
+        return runTracked(`Flow: ${flow.name}`, async () => {
+          const result = await lighthouseService.auditFlow(
+            flow,
+            config,
+            reportsDir,
+            (message) => log(message),
+            browsers[workerId]
+          );
+          if (result.reportPaths) {
+            result.reportPaths.json = toPublicReportPath(result.reportPaths.json);
+            result.reportPaths.html = toPublicReportPath(result.reportPaths.html);
+          }
+          return result;
+        }, async (result) => {
+          completedFlows[index] = result;
+          publishAuditEvent(sessionId, { type: 'flowResult', index, result });
+
+          await updateSession({
+            flowResults: collectFlowResults(),
+            progress: completedCount,
+            currentUrl: activeUrls[activeUrls.length - 1],
+            activeUrls: [...activeUrls]
+          });
+        });
+      }, job.controller.signal);
+    } finally {
+      await Promise.all(browsers.map(browser => browser.close()));
+    }
+
+    const results = collectResults();
+    const flowResults = collectFlowResults();
+    const finished = results.length + flowResults.length;
+
+    // A pause that lands after the last audit started simply lets the run complete
+    if (job.stopReason === 'cancel' || (job.stopReason === 'pause' && finished < total)) {
+      paused = job.stopReason === 'pause';
+      log(paused
+        ? `Paused with ${finished} of ${total} audit(s) done`
+        : `Cancelled with ${finished} of ${total} audit(s) done`);
+      await updateSession({
+        status: paused ? 'paused' : 'cancelled',
+        results,
+        flowResults,
+        currentUrl: undefined,
+        activeUrls: [],
+        progress: finished
+      });
+      return;
+    }
+
+    // Generate AI insights if API key is provided
+    let insightsFile: string | undefined;
+    let insights: BatchInsights | undefined;
+    if (lighthouseService.insightsEnabled && results.some(result => result.scores)) {
+      try {
+        log('Generating AI insights...');
+        insights = await lighthouseService.generateAIInsights(results, config.formFactor);
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const insightsFilename = `lighthouse-ai-insights-${config.formFactor}-${timestamp}.json`;
+        const insightsPath = path.join(reportsDir, insightsFilename);
+
+        await import('fs/promises').then(fs => fs.writeFile(insightsPath, JSON.stringify(insights, null, 2)));
+        insightsFile = `/reports/${insightsFilename}`;
+
+        log(`AI insights saved for ${insights.urls.length} URL(s)${insights.chunks > 1 ? ` in ${insights.chunks} parts` : ''}`);
+      } catch (error) {
+        console.error('Failed to generate AI insights:', error);
+        log(`AI insights failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Update session with final results
+    await updateSession({
+      status: 'completed',
+      results,
+      flowResults,
+      currentUrl: undefined,
+      activeUrls: [],
+      progress: total,
+      insightsFile,
+      insights
+    });
+    notify();
+
+  } catch (error) {
+    console.error('Audit processing error:', error);
+    await updateSession({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+    notify();
+  } finally {
+    endAuditJob(sessionId, job, paused);
+  }
+}
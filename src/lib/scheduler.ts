@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { CronError, nextCronTime, parseCron } from './cron';
+import { serverApiKey } from './llm';
+import { hasMaskedSecrets, maskRequestConfig } from './requests';
+import { AuditConfigError, startAuditSession, validateAuditRequest } from './runner';
+import { getAuditRepository, getDataDir, sanitizeConfig } from './storage';
+import { AuditSchedule, LighthouseConfig } from '@/types';
+
+// Due schedules are checked this often; cron has minute resolution
+const TICK_INTERVAL_MS = 30 * 1000;
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+/**
+ * Editable part of a schedule, as sent by the schedules API
+ */
+export type ScheduleInput = Pick<AuditSchedule, 'name' | 'cron' | 'urls' | 'enabled'> & { config: LighthouseConfig };
+
+/**
+ * Validate an untrusted value as a schedule. The config goes through the same
+ * checks as an audit request and is stored without secrets.
+ */
+export function validateSchedule(value: unknown): ScheduleInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ScheduleError('Schedule must be an object');
+  }
+
+  const raw = value as Record<string, any>;
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    throw new ScheduleError('Schedule needs a name');
+  }
+  const name = raw.name.trim();
+
+  if (typeof raw.cron !== 'string') {
+    throw new ScheduleError(`Schedule "${name}" needs a cron expression`);
+  }
+  try {
+    parseCron(raw.cron);
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduleError(`Schedule "${name}": ${error.message}`);
+    throw error;
+  }
+
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new ScheduleError(`Schedule "${name}" "enabled" must be true or false`);
+  }
+
+  // Runs take the AI key from the environment, so the provider is checked with it
+  const config = { ...raw.config } as LighthouseConfig;
+  config.apiKey = serverApiKey(config.insights?.provider || 'openai');
+  let urls: string[];
+  try {
+    urls = validateAuditRequest(raw.urls, config);
+  } catch (error) {
+    if (error instanceof AuditConfigError) throw new ScheduleError(`Schedule "${name}": ${error.message}`);
+    throw error;
+  }
+  delete config.apiKey;
+
+  // Stored schedules can't keep secrets, and a masked value would be sent as is
+  if (config.request && hasMaskedSecrets(maskRequestConfig(config.request))) {
+    throw new ScheduleError(`Schedule "${name}" can't store cookies, basic auth or secret headers; use a login recipe instead`);
+  }
+
+  return { name, cron: raw.cron.trim(), urls, enabled: raw.enabled !== false, config };
+}
+
+/**
+ * When an enabled schedule next fires, from `now`
+ */
+export function withNextRun(schedule: AuditSchedule, now = new Date()): AuditSchedule {
+  const next = schedule.enabled ? nextCronTime(schedule.cron, now) : null;
+  return { ...schedule, nextRunAt: next ? next.toISOString() : undefined };
+}
+
+function generateScheduleId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Schedules, kept in `<dataDir>/schedules.json` next to the audit history
+ */
+export class FileScheduleStore {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'schedules.json');
+  }
+
+  /**
+   * All schedules by name
+   */
+  async listSchedules(): Promise<AuditSchedule[]> {
+    const schedules = await this.read();
+    return schedules.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSchedule(id: string): Promise<AuditSchedule | null> {
+    return (await this.read()).find(schedule => schedule.id === id) || null;
+  }
+
+  async createSchedule(input: ScheduleInput): Promise<AuditSchedule> {
+    const now = new Date().toISOString();
+    const schedule: AuditSchedule = {
+      id: generateScheduleId(),
+      ...input,
+      config: sanitizeConfig(input.config),
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.update(schedules => [...schedules, schedule]);
+    return schedule;
+  }
+
+  /**
+   * Replace a schedule's settings (or patch its run bookkeeping); null when it doesn't exist
+   */
+  async updateSchedule(
+    id: string,
+    patch: Partial<Omit<AuditSchedule, 'id' | 'createdAt'>>
+  ): Promise<AuditSchedule | null> {
+    let updated: AuditSchedule | null = null;
+    await this.update(schedules => schedules.map(schedule => {
+      if (schedule.id !== id) return schedule;
+      updated = { ...schedule, ...patch, updatedAt: new Date().toISOString() };
+      return updated;
+    }));
+    return updated;
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    let removed = false;
+    await this.update(schedules => {
+      removed = schedules.some(schedule => schedule.id === id);
+      return schedules.filter(schedule => schedule.id !== id);
+    });
+    return removed;
+  }
+
+  private async read(): Promise<AuditSchedule[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private update(change: (schedules: AuditSchedule[]) => AuditSchedule[]): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const updated = change(await this.read());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(updated, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * Fires due schedules through the normal audit pipeline. Runs missed while
+ * the server was down are not caught up.
+ */
+export class AuditScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private lastTick = new Date();
+  private ticking = false;
+
+  constructor(private readonly store: FileScheduleStore) {}
+
+  start() {
+    if (this.timer) return;
+    this.lastTick = new Date();
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Scheduler tick failed:', error));
+    }, TICK_INTERVAL_MS);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+    console.log('Audit scheduler started');
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Run every enabled schedule whose cron matched since the previous tick
+   */
+  async tick(now = new Date()) {
+    // A slow tick must not overlap the next one and fire schedules twice
+    if (this.ticking) return;
+    this.ticking = true;
+    const since = this.lastTick;
+    this.lastTick = now;
+
+    try {
+      const schedules = await this.store.listSchedules();
+      for (let i = 0; i < schedules.length; i++) {
+        const schedule = schedules[i];
+        const due = schedule.enabled && nextCronTime(schedule.cron, since);
+        if (due && due <= now) {
+          await this.runSchedule(schedule);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Start an audit for the schedule unless its previous run is still going
+   * (running, or paused and waiting to be resumed or cancelled).
+   * Returns the updated schedule with the outcome in `lastRunStatus`.
+   */
+  async runSchedule(schedule: AuditSchedule): Promise<AuditSchedule> {
+    const previous = schedule.lastSessionId ? await getAuditRepository().getSession(schedule.lastSessionId) : null;
+    if (previous && (previous.status === 'processing' || previous.status === 'paused')) {
+      const state = previous.status === 'paused' ? 'paused' : 'still running';
+      console.log(`Schedule "${schedule.name}": skipped, session ${previous.sessionId} is ${state}`);
+      return this.record(schedule, {
+        lastRunStatus: 'skipped',
+        lastRunMessage: `Skipped: session ${previous.sessionId} was ${state}`
+      });
+    }
+
+    try {
+      // Secrets come from the environment, as for the CLI
+      const config: LighthouseConfig = {
+        ...schedule.config,
+        apiKey: serverApiKey(schedule.config.insights?.provider || 'openai'),
+        bypassToken: process.env.VERCEL_BYPASS_TOKEN || undefined
+      };
+      const urls = validateAuditRequest(schedule.urls, config);
+      const sessionId = await startAuditSession(urls, config, { id: schedule.id, name: schedule.name });
+
+      console.log(`Schedule "${schedule.name}": started session ${sessionId}`);
+      return this.record(schedule, {
+        lastRunStatus: 'started',
+        lastRunMessage: undefined,
+        lastSessionId: sessionId
+      });
+    } catch (error) {
+      console.error(`Schedule "${schedule.name}" failed to start:`, error);
+      return this.record(schedule, {
+        lastRunStatus: 'error',
+        lastRunMessage: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  }
+
+  private async record(schedule: AuditSchedule, patch: Partial<AuditSchedule>): Promise<AuditSchedule> {
+    const updated = await this.store.updateSchedule(schedule.id, { ...patch, lastRunAt: new Date().toISOString() });
+    return updated || schedule;
+  }
+}
+
+// Shared across separately bundled API routes and the instrumentation hook
+const globalScheduler = globalThis as typeof globalThis & {
+  __scheduleStore?: FileScheduleStore;
+  __auditScheduler?: AuditScheduler;
+};
+
+/**
+ * Get the process-wide schedule store
+ */
+export function getScheduleStore(): FileScheduleStore {
+  if (!globalScheduler.__scheduleStore) {
+    globalScheduler.__scheduleStore = new FileScheduleStore(getDataDir());
+  }
+  return globalScheduler.__scheduleStore;
+}
+
+/**
+ * Get the process-wide scheduler; call `start()` to begin firing schedules
+ */
+export function getScheduler(): AuditScheduler {
+  if (!globalScheduler.__auditScheduler) {
+    globalScheduler.__auditScheduler = new AuditScheduler(getScheduleStore());
+  }
+  return globalScheduler.__auditScheduler;
+}
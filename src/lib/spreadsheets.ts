@@ -0,0 +1,147 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { parse } from 'csv-parse/sync';
+import { ImportError, MAX_IMPORT_ROWS } from './imports';
+import { ImportFormat, ImportTable } from '@/types';
+
+/**
+ * File extensions a URL list can be imported from
+ */
+export const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.xlsx': 'xlsx',
+  '.txt': 'text',
+  '.json': 'json'
+};
+
+/**
+ * The import format of a file name, or null when it isn't supported
+ */
+export function importFormatOf(fileName: string): ImportFormat | null {
+  return IMPORT_EXTENSIONS[path.extname(fileName).toLowerCase()] || null;
+}
+
+const stripBom = (text: string) => text.replace(/^\uFEFF/, '');
+
+function readCsv(text: string): string[][] {
+  try {
+    // Spreadsheet apps in many locales export with `;`; empty rows are kept so row numbers match the file
+    return parse(stripBom(text), {
+      columns: false,
+      delimiter: [',', ';', '\t'],
+      relax_column_count: true,
+      skip_empty_lines: false
+    }).map((row: string[]) => row.map(cell => cell.trim()));
+  } catch (error) {
+    throw new ImportError(`Invalid CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// One URL per line; `#` comments become blank rows to keep line numbers
+function readText(text: string): string[][] {
+  return stripBom(text).split(/\r?\n/).map(line => {
+    const value = line.trim();
+    return value.length === 0 || value.startsWith('#') ? [] : [value];
+  });
+}
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * A list of URL strings, a list of objects (whose keys become a header row),
+ * or either one under a `urls` key
+ */
+function readJson(text: string): string[][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripBom(text));
+  } catch (error) {
+    throw new ImportError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'urls' in parsed
+    ? (parsed as { urls: unknown }).urls
+    : parsed;
+  if (!Array.isArray(list)) {
+    throw new ImportError('JSON must be a list of URLs or objects (or an object with a "urls" list)');
+  }
+
+  if (!list.some(item => item && typeof item === 'object' && !Array.isArray(item))) {
+    return list.map(item => [cellText(item)]);
+  }
+
+  const keys: string[] = [];
+  list.forEach(item => {
+    Object.keys(item && typeof item === 'object' ? item : {}).forEach(key => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+  return [keys].concat(list.map(item =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? keys.map(key => cellText((item as Record<string, unknown>)[key]).trim())
+      : [cellText(item)]
+  ));
+}
+
+/**
+ * The first worksheet with data. Linked cells read as their link when the
+ * shown text isn't a URL itself.
+ */
+async function readXlsx(buffer: Buffer): Promise<{ sheet: string; rows: string[][] }> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch (error) {
+    throw new ImportError(`Invalid XLSX file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const worksheet = workbook.worksheets.find(sheet => sheet.actualRowCount > 0);
+  if (!worksheet) return { sheet: workbook.worksheets[0]?.name || '', rows: [] };
+  if (worksheet.rowCount > MAX_IMPORT_ROWS) {
+    throw new ImportError(`The file has more than ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      const cell = row.getCell(column);
+      const text = cell.text.trim();
+      cells.push(cell.hyperlink && !/^https?:\/\//i.test(text) ? cell.hyperlink : text);
+    }
+    rows.push(cells);
+  }
+  return { sheet: worksheet.name, rows };
+}
+
+/**
+ * Read an uploaded URL list into rows of cells; throws ImportError for
+ * unsupported, unreadable or oversized files
+ */
+export async function readImportFile(buffer: Buffer, fileName: string): Promise<ImportTable> {
+  const format = importFormatOf(fileName);
+  if (!format) {
+    throw new ImportError(`Unsupported file type; use one of ${Object.keys(IMPORT_EXTENSIONS).join(', ')}`);
+  }
+
+  let table: ImportTable;
+  if (format === 'xlsx') {
+    table = { format, fileName, ...await readXlsx(buffer) };
+  } else {
+    const text = buffer.toString('utf-8');
+    const rows = format === 'csv' ? readCsv(text) : format === 'json' ? readJson(text) : readText(text);
+    table = { format, fileName, rows };
+  }
+
+  // Trailing blank lines carry no rows worth numbering
+  while (table.rows.length > 0 && table.rows[table.rows.length - 1].every(cell => cell.length === 0)) {
+    table.rows.pop();
+  }
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`The file has more than ${MAX_IMPORT_ROWS} rows`);
+  }
+  return table;
+}
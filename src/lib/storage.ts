@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  AuditSession,
+  AuditSessionSummary,
+  LighthouseConfig,
+  StoredLighthouseConfig,
+  UrlHistoryPoint
+} from '@/types';
+import { maskRequestConfig } from './requests';
+
+/**
+ * Persistence contract for audit sessions. API routes only talk to this
+ * interface so the file-backed store can be swapped for a database later.
+ */
+export interface AuditRepository {
+  createSession(session: AuditSession): Promise<AuditSession>;
+  getSession(sessionId: string): Promise<AuditSession | null>;
+  updateSession(sessionId: string, patch: Partial<Omit<AuditSession, 'sessionId'>>): Promise<AuditSession | null>;
+  listSessions(limit?: number): Promise<AuditSessionSummary[]>;
+  listAuditedUrls(): Promise<string[]>;
+  getUrlHistory(url: string): Promise<UrlHistoryPoint[]>;
+  failInterruptedSessions(): Promise<number>;
+}
+
+/**
+ * Strip secrets from a config before it is persisted; request customization
+ * is kept with its secret values masked
+ */
+export function sanitizeConfig(config: LighthouseConfig): StoredLighthouseConfig {
+  const { apiKey, bypassToken, ...stored } = config;
+  if (stored.request) stored.request = maskRequestConfig(stored.request);
+  return stored;
+}
+
+/**
+ * Build the list entry shown for a session in history views
+ */
+export function summarizeSession(session: AuditSession): AuditSessionSummary {
+  return {
+    sessionId: session.sessionId,
+    status: session.status,
+    formFactor: session.config.formFactor,
+    total: session.total,
+    completed: session.results.filter(result => !result.error).length,
+    failed: session.results.filter(result => result.error).length,
+    schedule: session.schedule,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
+/**
+ * Embedded JSON store: one file per session under `<dataDir>/sessions`.
+ * Sessions are cached in memory and every write goes through a per-session
+ * queue and an atomic rename, so concurrent progress updates never interleave.
+ */
+export class FileAuditRepository implements AuditRepository {
+  private readonly sessionsDir: string;
+  private sessions = new Map<string, AuditSession>();
+  private writeQueues = new Map<string, Promise<void>>();
+  private ready: Promise<void> | null = null;
+
+  constructor(dataDir: string) {
+    this.sessionsDir = path.join(dataDir, 'sessions');
+  }
+
+  async createSession(session: AuditSession): Promise<AuditSession> {
+    await this.init();
+    this.sessions.set(session.sessionId, session);
+    await this.persist(session.sessionId);
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<AuditSession | null> {
+    await this.init();
+    return this.sessions.get(sessionId) || null;
+  }
+
+  async updateSession(
+    sessionId: string,
+    patch: Partial<Omit<AuditSession, 'sessionId'>>
+  ): Promise<AuditSession | null> {
+    await this.init();
+    const existing = this.sessions.get(sessionId);
+    if (!existing) return null;
+
+    const updated: AuditSession = {
+      ...existing,
+      ...patch,
+      updatedAt: new Date().toISOString()
+    };
+    this.sessions.set(sessionId, updated);
+    await this.persist(sessionId);
+    return updated;
+  }
+
+  async listSessions(limit = 50): Promise<AuditSessionSummary[]> {
+    await this.init();
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(summarizeSession);
+  }
+
+  async listAuditedUrls(): Promise<string[]> {
+    await this.init();
+    const urls = new Set<string>();
+    this.sessions.forEach(session => {
+      session.results.forEach(result => {
+        if (result.scores) urls.add(result.url);
+      });
+    });
+    return Array.from(urls).sort();
+  }
+
+  async getUrlHistory(url: string): Promise<UrlHistoryPoint[]> {
+    await this.init();
+    const points: UrlHistoryPoint[] = [];
+
+    this.sessions.forEach(session => {
+      session.results.forEach(result => {
+        if (result.url !== url || !result.scores) return;
+        points.push({
+          sessionId: session.sessionId,
+          // Results stored before these fields existed fall back to the session
+          auditedAt: result.auditedAt || session.createdAt,
+          formFactor: result.formFactor || session.config.formFactor,
+          scores: result.scores,
+          reportPaths: result.reportPaths
+        });
+      });
+    });
+
+    return points.sort((a, b) => a.auditedAt.localeCompare(b.auditedAt));
+  }
+
+  /**
+   * Mark sessions left `processing` by a previous server as errored, since
+   * they can never finish. Only the server calls this, on startup: other
+   * processes sharing the data directory (the CLI) would break live sessions.
+   */
+  async failInterruptedSessions(): Promise<number> {
+    await this.init();
+    const interrupted: string[] = [];
+    this.sessions.forEach(session => {
+      if (session.status === 'processing') interrupted.push(session.sessionId);
+    });
+
+    await Promise.all(interrupted.map(sessionId => this.updateSession(sessionId, {
+      status: 'error',
+      error: 'Audit was interrupted by a server restart',
+      currentUrl: undefined,
+      activeUrls: []
+    })));
+    return interrupted.length;
+  }
+
+  /**
+   * Load every stored session once per process
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load() {
+    await fs.mkdir(this.sessionsDir, { recursive: true });
+    const files = (await fs.readdir(this.sessionsDir)).filter(file => file.endsWith('.json'));
+
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(this.sessionsDir, file), 'utf-8');
+        const session: AuditSession = JSON.parse(raw);
+        this.sessions.set(session.sessionId, session);
+      } catch (error) {
+        console.error(`Skipping unreadable session file ${file}:`, error);
+      }
+    }
+  }
+
+  private persist(sessionId: string): Promise<void> {
+    const previous = this.writeQueues.get(sessionId) || Promise.resolve();
+    const next = previous.then(async () => {
+      const session = this.sessions.get(sessionId);
+      if (!session) return;
+
+      const filePath = path.join(this.sessionsDir, `${sessionId}.json`);
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(session, null, 2));
+      await fs.rename(tmpPath, filePath);
+    }).catch(error => {
+      console.error(`Failed to persist session ${sessionId}:`, error);
+    });
+
+    this.writeQueues.set(sessionId, next);
+    return next;
+  }
+}
+
+// API routes are bundled separately by Next.js, so the repository lives on
+// globalThis to keep a single cache and write queue per process
+const globalStore = globalThis as typeof globalThis & {
+  __auditRepository?: AuditRepository;
+};
+
+/**
+ * Directory for the audit history and other app data
+ */
+export function getDataDir(): string {
+  return process.env.AUDIT_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Get the process-wide audit repository
+ */
+export function getAuditRepository(): AuditRepository {
+  if (!globalStore.__auditRepository) {
+    globalStore.__auditRepository = new FileAuditRepository(getDataDir());
+  }
+  return globalStore.__auditRepository;
+}
@@ -0,0 +1,266 @@
+import { describeBudgetFailure } from './budgets';
+import { INSIGHTS_PROVIDERS } from './insights';
+import { median } from './median';
+import { formatMetricValue, LAB_METRICS } from './metrics';
+import { AuditResult, AuditSession, BatchInsights, LabMetric, ScoreCategory } from '@/types';
+
+export const SCORE_CATEGORIES: Array<[ScoreCategory, string]> = [
+  ['performance', 'Performance'],
+  ['accessibility', 'Accessibility'],
+  ['best-practices', 'Best Practices'],
+  ['seo', 'SEO']
+];
+
+/**
+ * Averages, score bands and median metrics across a session's results
+ */
+export interface ResultStats {
+  audited: number;
+  errored: number;
+  budgetsChecked: number;
+  budgetsFailed: number;
+  averages: Partial<Record<ScoreCategory, number>>;
+  // Lighthouse's bands: good is 90+, poor is below 50
+  bands: Record<ScoreCategory, { good: number; average: number; poor: number }>;
+  medians: Partial<Record<LabMetric, number>>;
+}
+
+export function summarizeResults(results: AuditResult[]): ResultStats {
+  const scored = results.filter(result => result.scores);
+  const stats: ResultStats = {
+    audited: scored.length,
+    errored: results.filter(result => result.error).length,
+    budgetsChecked: results.filter(result => result.budget).length,
+    budgetsFailed: results.filter(result => result.budget && !result.budget.passed).length,
+    averages: {},
+    bands: {} as ResultStats['bands'],
+    medians: {}
+  };
+
+  SCORE_CATEGORIES.forEach(([category]) => {
+    const scores = scored.map(result => result.scores![category]);
+    stats.bands[category] = {
+      good: scores.filter(score => score >= 90).length,
+      average: scores.filter(score => score >= 50 && score < 90).length,
+      poor: scores.filter(score => score < 50).length
+    };
+    if (scores.length > 0) {
+      stats.averages[category] = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    }
+  });
+
+  (Object.keys(LAB_METRICS) as LabMetric[]).forEach(metric => {
+    const values = results
+      .map(result => result.metrics?.[metric]?.value)
+      .filter((value): value is number => typeof value === 'number');
+    if (values.length > 0) stats.medians[metric] = median(values);
+  });
+  return stats;
+}
+
+// Most URLs drawn in the performance chart, worst first; the table lists them all
+const CHART_LIMIT = 30;
+const SUMMARY_METRICS: LabMetric[] = ['lcp', 'fcp', 'tbt', 'cls', 'speedIndex'];
+const COLORS = { good: '#0cce6b', average: '#ffa400', poor: '#ff4e42', track: '#e5e7eb' };
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const band = (score: number) => (score >= 90 ? 'good' : score >= 50 ? 'average' : 'poor');
+
+const resultName = (result: AuditResult) =>
+  [result.label || result.url, result.profile].filter(Boolean).join(' · ');
+
+function gauge(label: string, score: number | undefined): string {
+  const circumference = 2 * Math.PI * 36;
+  const filled = score === undefined ? 0 : (score / 100) * circumference;
+  const color = score === undefined ? COLORS.track : COLORS[band(score)];
+  return `<figure class="gauge">
+    <svg viewBox="0 0 90 90" width="110" height="110" role="img" aria-label="${escapeHtml(label)} ${score ?? 'n/a'}">
+      <circle cx="45" cy="45" r="36" fill="none" stroke="${COLORS.track}" stroke-width="8"/>
+      <circle cx="45" cy="45" r="36" fill="none" stroke="${color}" stroke-width="8" stroke-linecap="round"
+        stroke-dasharray="${filled.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 45 45)"/>
+      <text x="45" y="52" text-anchor="middle" font-size="22" font-weight="700" fill="${color}">${score ?? '–'}</text>
+    </svg>
+    <figcaption>${escapeHtml(label)}</figcaption>
+  </figure>`;
+}
+
+// One stacked bar per category showing how many URLs are good, average and poor
+function bandChart(stats: ResultStats): string {
+  if (stats.audited === 0) return '';
+  const width = 420;
+  const rows = SCORE_CATEGORIES.map(([category, label], index) => {
+    const counts = stats.bands[category];
+    const y = index * 30;
+    let x = 130;
+    const segments = (['good', 'average', 'poor'] as const).map(key => {
+      const segment = (counts[key] / stats.audited) * (width - 130);
+      const rect = segment > 0
+        ? `<rect x="${x.toFixed(1)}" y="${y}" width="${segment.toFixed(1)}" height="20" fill="${COLORS[key]}"><title>${counts[key]} ${key}</title></rect>`
+        : '';
+      x += segment;
+      return rect;
+    }).join('');
+    return `<text x="0" y="${y + 15}" font-size="12">${label}</text>${segments}`;
+  }).join('');
+  return `<svg viewBox="0 0 ${width} 120" width="100%" role="img" aria-label="Score bands by category">${rows}</svg>
+    <p class="legend"><span style="background:${COLORS.good}"></span>90–100 <span style="background:${COLORS.average}"></span>50–89 <span style="background:${COLORS.poor}"></span>0–49</p>`;
+}
+
+function performanceChart(results: AuditResult[]): string {
+  const scored = results
+    .filter(result => result.scores)
+    .sort((a, b) => a.scores!.performance - b.scores!.performance)
+    .slice(0, CHART_LIMIT);
+  if (scored.length === 0) return '';
+
+  const rowHeight = 22;
+  const bars = scored.map((result, index) => {
+    const score = result.scores!.performance;
+    const y = index * rowHeight;
+    const name = resultName(result);
+    const shortName = name.length > 48 ? `${name.slice(0, 47)}…` : name;
+    return `<text x="0" y="${y + 14}" font-size="11">${escapeHtml(shortName)}<title>${escapeHtml(name)}</title></text>
+      <rect x="300" y="${y + 3}" width="${(score / 100) * 250}" height="14" fill="${COLORS[band(score)]}"/>
+      <text x="${300 + (score / 100) * 250 + 6}" y="${y + 14}" font-size="11">${score}</text>`;
+  }).join('');
+  return `<svg viewBox="0 0 580 ${scored.length * rowHeight}" width="100%" role="img" aria-label="Performance score by URL">${bars}</svg>`;
+}
+
+function scoreCell(score: number | undefined): string {
+  return score === undefined ? '<td>–</td>' : `<td class="score ${band(score)}">${score}</td>`;
+}
+
+function resultsTable(results: AuditResult[]): string {
+  const rows = results.map(result => `<tr>
+    <td class="url">${result.label ? `<strong>${escapeHtml(result.label)}</strong><br>` : ''}${escapeHtml(result.url)}${
+      result.profile ? `<br><small>${escapeHtml(result.profile)}</small>` : ''}${
+      result.group ? ` <small>· ${escapeHtml(result.group)}</small>` : ''}</td>
+    ${SCORE_CATEGORIES.map(([category]) => scoreCell(result.scores?.[category])).join('')}
+    ${SUMMARY_METRICS.map(metric => {
+      const value = result.metrics?.[metric]?.value;
+      return `<td class="metric">${value === undefined ? '–' : escapeHtml(formatMetricValue(metric, value))}</td>`;
+    }).join('')}
+    <td>${result.error ? '<span class="poor-text">Error</span>' : result.budget ? (result.budget.passed ? 'Pass' : '<span class="poor-text">Fail</span>') : '–'}</td>
+  </tr>`).join('');
+
+  return `<table>
+    <thead><tr>
+      <th>URL</th>${SCORE_CATEGORIES.map(([, label]) => `<th>${label}</th>`).join('')}
+      ${SUMMARY_METRICS.map(metric => `<th>${LAB_METRICS[metric].label}</th>`).join('')}<th>Budget</th>
+    </tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+function issuesList(results: AuditResult[]): string {
+  const items = results
+    .filter(result => result.error || (result.budget && !result.budget.passed))
+    .map(result => `<li><strong>${escapeHtml(resultName(result))}</strong>: ${escapeHtml(
+      result.error || result.budget!.checks.filter(check => !check.passed).map(describeBudgetFailure).join('; ')
+    )}</li>`);
+  return items.length > 0 ? `<h2>Budget failures and errors</h2><ul class="issues">${items.join('')}</ul>` : '';
+}
+
+function insightsSection(insights: BatchInsights | undefined, results: AuditResult[]): string {
+  if (!insights) return '';
+  const items = insights.urls.map(item => {
+    const result = results.find(entry => entry.url === item.url && (!item.profile || entry.profile === item.profile));
+    const name = result ? resultName(result) : [item.url, item.profile].filter(Boolean).join(' · ');
+    const lines = item.redFlags.map(flag => `<li class="poor-text">${escapeHtml(flag)}</li>`)
+      .concat(item.fixes.map(fix => `<li><span class="impact ${fix.impact}">${fix.impact}</span> ${escapeHtml(fix.title)}${
+        fix.estimatedImpact ? ` <small>(${escapeHtml(fix.estimatedImpact)})</small>` : ''}</li>`));
+    return `<li><strong>${escapeHtml(name)}</strong>${lines.length > 0 ? `<ul>${lines.join('')}</ul>` : ''}</li>`;
+  });
+  return `<h2>AI insights</h2>
+  <p class="insight-summary">${escapeHtml(insights.summary)}</p>
+  <ul class="insights">${items.join('')}</ul>
+  <p class="meta">Generated by ${escapeHtml(INSIGHTS_PROVIDERS[insights.provider]?.label || insights.provider)} (${escapeHtml(insights.model)}) on ${escapeHtml(new Date(insights.generatedAt).toUTCString())}</p>`;
+}
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; padding: 32px; max-width: 1100px; margin: 0 auto; }
+  h1 { font-size: 26px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; }
+  .meta { color: #6b7280; font-size: 13px; margin: 0; }
+  .gauges { display: flex; flex-wrap: wrap; gap: 24px; margin-top: 24px; }
+  .gauge { margin: 0; text-align: center; font-size: 13px; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px 14px; min-width: 120px; }
+  .card b { display: block; font-size: 20px; }
+  .card span { color: #6b7280; font-size: 12px; }
+  .legend { font-size: 12px; color: #6b7280; }
+  .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; border-radius: 2px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: right; vertical-align: top; }
+  th:first-child, td.url { text-align: left; }
+  td.url { word-break: break-all; max-width: 320px; }
+  td.score { font-weight: 700; }
+  .good { color: #018642; } .average { color: #c33300; } .poor, .poor-text { color: #eb0f00; }
+  small { color: #6b7280; }
+  .issues { font-size: 13px; padding-left: 18px; }
+  .insight-summary { font-size: 14px; }
+  .insights { font-size: 13px; padding-left: 18px; } .insights li { margin-bottom: 6px; } .insights ul { padding-left: 18px; margin-top: 4px; }
+  .impact { display: inline-block; min-width: 52px; font-size: 11px; font-weight: 700; text-transform: uppercase; }
+  .impact.high { color: #eb0f00; } .impact.medium { color: #c33300; } .impact.low { color: #6b7280; }
+  footer { margin-top: 32px; color: #9ca3af; font-size: 12px; }
+  tr { page-break-inside: avoid; }
+  @media print { body { padding: 0; } h2 { page-break-after: avoid; } }
+`;
+
+/**
+ * A standalone HTML executive summary of a session: average score gauges,
+ * score bands, the worst performers, any AI insights, and every result.
+ * Inline styles and SVG only, so it can be mailed or printed without the app.
+ */
+export function renderSummaryHtml(session: AuditSession): string {
+  const stats = summarizeResults(session.results);
+  const created = new Date(session.createdAt);
+  const setup = session.config.variants
+    ? session.config.variants.map(variant => variant.profile?.name || variant.formFactor).join(' vs ')
+    : session.config.profile?.name || session.config.formFactor;
+  const scoredCount = session.results.filter(result => result.scores).length;
+
+  const cards = [
+    [String(stats.audited), 'URLs audited'],
+    [String(stats.errored), 'errors'],
+    ...(stats.budgetsChecked > 0 ? [[`${stats.budgetsFailed}/${stats.budgetsChecked}`, 'budgets failed']] : []),
+    ...SUMMARY_METRICS
+      .filter(metric => stats.medians[metric] !== undefined)
+      .map(metric => [formatMetricValue(metric, stats.medians[metric]!), `median ${LAB_METRICS[metric].label}`])
+  ].map(([value, label]) => `<div class="card"><b>${escapeHtml(value)}</b><span>${escapeHtml(label)}</span></div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Lighthouse summary – ${escapeHtml(created.toISOString().slice(0, 10))}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>Lighthouse audit summary</h1>
+  <p class="meta">${escapeHtml(created.toUTCString())} · ${escapeHtml(setup)}${
+    session.schedule ? ` · ${escapeHtml(session.schedule.name)}` : ''} · session ${escapeHtml(session.sessionId)}${
+    session.status !== 'completed' ? ` · ${escapeHtml(session.status)}` : ''}</p>
+
+  <div class="gauges">${SCORE_CATEGORIES.map(([category, label]) => gauge(label, stats.averages[category])).join('')}</div>
+  <p class="meta">Average scores across ${stats.audited} audited URL(s)</p>
+  <div class="cards">${cards}</div>
+
+  ${stats.audited > 0 ? `<h2>Score bands</h2>${bandChart(stats)}` : ''}
+  ${scoredCount > 0 ? `<h2>Performance by URL${scoredCount > CHART_LIMIT ? ` (worst ${CHART_LIMIT} of ${scoredCount})` : ''}</h2>${performanceChart(session.results)}` : ''}
+  ${issuesList(session.results)}
+  ${insightsSection(session.insights, session.results)}
+
+  <h2>All results</h2>
+  ${resultsTable(session.results)}
+
+  <footer>Generated by Lighthouse Checker on ${escapeHtml(new Date().toUTCString())}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveProfile } from './profiles';
+import { auditSlotKeys, filterUrls, matchesUrlPattern, placeResults } from './utils';
+import { AuditVariant } from '@/types';
+
+const urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+const variants: AuditVariant[] = [
+  { formFactor: 'desktop', profile: resolveProfile({ formFactor: 'desktop' }) },
+  { formFactor: 'mobile', profile: resolveProfile({ formFactor: 'mobile' }) }
+];
+const desktop = variants[0].profile!.name;
+const mobile = variants[1].profile!.name;
+
+describe('placeResults', () => {
+  it('fills the slots of completed URLs and leaves the rest to audit', () => {
+    const slots = placeResults(urls, [{ url: urls[0] }, { url: urls[2], error: 'Timed out' }]);
+    assert.equal(slots.length, 3);
+    assert.deepEqual(Array.from(slots, slot => slot?.url), [urls[0], undefined, urls[2]]);
+  });
+
+  it('places repeated URLs in input order', () => {
+    const repeated = [urls[0], urls[1], urls[0]];
+    const slots = placeResults(repeated, [{ url: urls[1] }, { url: urls[0], label: 'second' }]);
+    assert.deepEqual(Array.from(slots, slot => slot?.label ?? slot?.url), [undefined, urls[1], 'second']);
+  });
+
+  it('matches results to variants by profile', () => {
+    assert.deepEqual(auditSlotKeys(urls.slice(0, 2), variants), [
+      `${urls[0]}\n${desktop}`, `${urls[0]}\n${mobile}`, `${urls[1]}\n${desktop}`, `${urls[1]}\n${mobile}`
+    ]);
+    const slots = placeResults(urls.slice(0, 2), [
+      { url: urls[0], profile: mobile },
+      { url: urls[1], profile: desktop }
+    ], variants);
+    assert.deepEqual(Array.from(slots, slot => slot && `${slot.url} ${slot.profile}`), [
+      undefined, `${urls[0]} ${mobile}`, `${urls[1]} ${desktop}`, undefined
+    ]);
+  });
+
+  it('keeps results that match no slot at the end', () => {
+    const slots = placeResults(urls.slice(0, 1), [{ url: urls[0] }, { url: 'https://other.example/' }]);
+    assert.deepEqual(Array.from(slots, slot => slot?.url), [urls[0], 'https://other.example/']);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('matches path patterns against the path and others against the whole URL', () => {
+    assert.equal(matchesUrlPattern('https://example.com/blog/post', '/blog/*'), true);
+    assert.equal(matchesUrlPattern('https://example.com/blog/2026/post', '/blog/*'), false);
+    assert.equal(matchesUrlPattern('https://example.com/blog/2026/post', '/blog/**'), true);
+    assert.equal(matchesUrlPattern('https://example.com/blog?page=2', 'https://example.com/blog?page=*'), true);
+    assert.equal(matchesUrlPattern('https://example.com/a.b', '/a?b'), false);
+    assert.equal(matchesUrlPattern('not a url', '/blog/*'), false);
+  });
+});
+
+describe('filterUrls', () => {
+  it('keeps included URLs that are not excluded', () => {
+    assert.deepEqual(filterUrls(urls), urls);
+    assert.deepEqual(filterUrls(urls, ['/a', '/b'], ['**/b']), [urls[0]]);
+  });
+});
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { AuditResult, AuditVariant } from '@/types';
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -45,6 +46,14 @@ export function formatBytes(bytes: number, decimals = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
 
+/**
+ * Format milliseconds as "850 ms" or "2.4 s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.round(ms)} ms`;
+}
+
 /**
  * Generate a timestamp string for file naming
  */
@@ -61,4 +70,79 @@ export function createUrlSlug(url: string): string {
   } catch {
     return 'invalid-url';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a glob pattern to a RegExp: `**` matches anything, `*` stays within a path segment
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Match a URL against a glob; patterns starting with `/` are matched against the path only
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === '**') return true;
+  try {
+    const target = pattern.startsWith('/') ? new URL(url).pathname : url;
+    return globToRegExp(pattern).test(target);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep URLs matching any `include` glob (all when there are none) and no `exclude` glob
+ */
+export function filterUrls(urls: string[], include: string[] = [], exclude: string[] = []): string[] {
+  return urls.filter(url =>
+    (include.length === 0 || include.some(pattern => matchesUrlPattern(url, pattern))) &&
+    !exclude.some(pattern => matchesUrlPattern(url, pattern))
+  );
+}
+
+/**
+ * Slot keys of a session in input order: one per URL, or one per URL and
+ * variant (URL-major) when the session compares variants
+ */
+export function auditSlotKeys(urls: string[], variants?: AuditVariant[]): string[] {
+  if (!variants || variants.length === 0) return urls;
+  return urls.reduce<string[]>(
+    (keys, url) => keys.concat(variants.map(variant => `${url}\n${variant.profile?.name}`)),
+    []
+  );
+}
+
+/**
+ * Map stored results (completed ones, in input order) back onto their input slots
+ */
+export function placeResults(
+  urls: string[],
+  results: AuditResult[],
+  variants?: AuditVariant[]
+): Array<AuditResult | undefined> {
+  const keys = auditSlotKeys(urls, variants);
+  const keyOf = (result: AuditResult) =>
+    variants && variants.length > 0 ? `${result.url}\n${result.profile}` : result.url;
+
+  const slots: Array<AuditResult | undefined> = new Array(keys.length);
+  let cursor = 0;
+  results.forEach(result => {
+    const key = keyOf(result);
+    while (cursor < keys.length && keys[cursor] !== key) cursor++;
+    if (cursor < keys.length) {
+      slots[cursor++] = result;
+    } else {
+      slots.push(result);
+    }
+  });
+  return slots;
+}
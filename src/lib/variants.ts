@@ -0,0 +1,100 @@
+import { applyUrlOverride } from './imports';
+import { resolveProfile, ProfileError, validateProfile } from './profiles';
+import { AuditResult, AuditVariant, LighthouseConfig, UrlOverride } from '@/types';
+
+export interface AuditTarget {
+  url: string;
+  config: LighthouseConfig;
+  override?: UrlOverride;
+}
+
+/**
+ * Most variants one session may compare
+ */
+export const MAX_VARIANTS = 4;
+
+export class VariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VariantError';
+  }
+}
+
+/**
+ * Validate an untrusted variant list. Every variant comes back with a full
+ * profile (its form factor's default if none was given) so results can be
+ * told apart by profile name.
+ */
+export function validateVariants(value: unknown): AuditVariant[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new VariantError('Variants must be a non-empty list');
+  }
+  if (value.length > MAX_VARIANTS) {
+    throw new VariantError(`At most ${MAX_VARIANTS} variants can be compared`);
+  }
+
+  const variants = value.map((item, index): AuditVariant => {
+    const { formFactor, profile } = (item || {}) as Record<string, unknown>;
+    if (formFactor !== 'desktop' && formFactor !== 'mobile') {
+      throw new VariantError(`Variant #${index + 1} form factor must be desktop or mobile`);
+    }
+    try {
+      const resolved = profile !== undefined
+        ? validateProfile(profile)
+        : resolveProfile({ formFactor });
+      return { formFactor: resolved.formFactor, profile: resolved };
+    } catch (error) {
+      if (error instanceof ProfileError) {
+        throw new VariantError(`Variant #${index + 1}: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  const names = variants.map(variant => variant.profile!.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new VariantError(`Profile "${duplicate}" is selected twice; each variant needs its own profile`);
+  }
+
+  return variants;
+}
+
+/**
+ * The config one variant runs with
+ */
+export function variantConfig(config: LighthouseConfig, variant: AuditVariant): LighthouseConfig {
+  return { ...config, formFactor: variant.formFactor, profile: variant.profile, variants: undefined };
+}
+
+/**
+ * Every audit a session runs, URL-major: each URL once, or once per variant,
+ * with the URL's overrides applied
+ */
+export function expandAuditTargets(urls: string[], config: LighthouseConfig): AuditTarget[] {
+  const overrides: Record<string, UrlOverride> = {};
+  (config.overrides || []).forEach(override => {
+    overrides[override.url] = override;
+  });
+
+  const variants = config.variants;
+  if (!variants || variants.length === 0) {
+    return urls.map(url => ({ url, config: applyUrlOverride(config, overrides[url]), override: overrides[url] }));
+  }
+  return urls.reduce<AuditTarget[]>(
+    (targets, url) => targets.concat(variants.map(variant => ({
+      url,
+      config: variantConfig(applyUrlOverride(config, overrides[url]), variant),
+      override: overrides[url]
+    }))),
+    []
+  );
+}
+
+/**
+ * Copy an override's label and group onto the result of its URL
+ */
+export function labelResult(result: AuditResult, override?: UrlOverride): AuditResult {
+  if (!override || (!override.label && !override.group)) return result;
+  return { ...result, label: override.label, group: override.group };
+}
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { describe, it } from 'node:test';
+import {
+  deliverWebhook,
+  DeliveryTransport,
+  SIGNATURE_HEADER,
+  signPayload,
+  TIMESTAMP_HEADER
+} from './webhooks';
+
+const webhook = { url: 'https://hooks.example.com/lighthouse', secret: 's3cret' };
+const payload = { event: 'session.completed' };
+
+// Answers with the given statuses in order and records every request and wait
+function fakeTransport(statuses: Array<number | Error>) {
+  const requests: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+  const waits: number[] = [];
+  const transport: DeliveryTransport = {
+    fetch: async (url, init) => {
+      requests.push({ url: String(url), headers: init!.headers as Record<string, string>, body: init!.body as string });
+      const status = statuses[Math.min(requests.length, statuses.length) - 1];
+      if (status instanceof Error) throw status;
+      return new Response(null, { status });
+    },
+    sleep: async ms => {
+      waits.push(ms);
+    }
+  };
+  return { transport, requests, waits };
+}
+
+describe('signPayload', () => {
+  it('signs `<timestamp>.<body>` with HMAC-SHA256', () => {
+    assert.equal(
+      signPayload('s3cret', '1700000000', JSON.stringify(payload)),
+      '6436cffd52a48b7b91b340211d9f69402c23b7d507c2d2b8bf6133e0c02ad6f1'
+    );
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('sends a signature receivers can recompute', async () => {
+    const { transport, requests } = fakeTransport([200]);
+    const delivery = await deliverWebhook(webhook, 'session.completed', payload, undefined, transport);
+
+    assert.deepEqual([delivery.ok, delivery.attempts, delivery.status], [true, 1, 200]);
+    const { headers, body } = requests[0];
+    const expected = crypto.createHmac('sha256', 's3cret').update(`${headers[TIMESTAMP_HEADER]}.${body}`).digest('hex');
+    assert.equal(headers[SIGNATURE_HEADER], `sha256=${expected}`);
+    assert.equal(body, JSON.stringify(payload));
+  });
+
+  it('leaves unsigned webhooks without a signature', async () => {
+    const { transport, requests } = fakeTransport([204]);
+    await deliverWebhook({ url: webhook.url }, 'session.completed', payload, undefined, transport);
+    assert.equal(requests[0].headers[SIGNATURE_HEADER], undefined);
+  });
+
+  it('retries server errors and network failures with backoff', async () => {
+    const { transport, requests, waits } = fakeTransport([503, new Error('socket hang up'), 200]);
+    const delivery = await deliverWebhook(webhook, 'budget.failed', payload, undefined, transport);
+
+    assert.deepEqual([delivery.ok, delivery.attempts, delivery.status], [true, 3, 200]);
+    assert.equal(requests.length, 3);
+    assert.deepEqual(waits, [1000, 2000]);
+  });
+
+  it('gives up after four attempts', async () => {
+    const { transport, requests, waits } = fakeTransport([500]);
+    const delivery = await deliverWebhook(webhook, 'session.errored', payload, undefined, transport);
+
+    assert.deepEqual(delivery.ok, false);
+    assert.deepEqual([delivery.attempts, delivery.status, delivery.error], [4, 500, 'HTTP 500']);
+    assert.equal(requests.length, 4);
+    assert.deepEqual(waits, [1000, 2000, 4000]);
+  });
+
+  it('does not retry client errors', async () => {
+    const { transport, requests, waits } = fakeTransport([404, 200]);
+    const delivery = await deliverWebhook(webhook, 'session.completed', payload, undefined, transport);
+
+    assert.deepEqual([delivery.ok, delivery.attempts, delivery.status, delivery.error], [false, 1, 404, 'HTTP 404']);
+    assert.equal(requests.length, 1);
+    assert.deepEqual(waits, []);
+  });
+
+  it('retries rate limiting', async () => {
+    const { transport, requests } = fakeTransport([429, 200]);
+    const delivery = await deliverWebhook(webhook, 'session.completed', payload, { attempts: 2, baseDelayMs: 10 }, transport);
+    assert.deepEqual([delivery.ok, requests.length], [true, 2]);
+  });
+});
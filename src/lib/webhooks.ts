@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MASKED_VALUE } from './requests';
+import { getDataDir } from './storage';
+import { NotificationEventType, WebhookDelivery, WebhookEndpoint, WebhookFormat } from '@/types';
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['json', 'slack', 'teams'];
+
+/**
+ * Events a webhook can subscribe to; `ping` is only sent on request
+ */
+export const WEBHOOK_EVENTS: NotificationEventType[] = [
+  'session.completed',
+  'session.errored',
+  'budget.failed',
+  'regression.detected'
+];
+
+export const SIGNATURE_HEADER = 'X-Lighthouse-Signature';
+export const TIMESTAMP_HEADER = 'X-Lighthouse-Timestamp';
+export const EVENT_HEADER = 'X-Lighthouse-Event';
+export const DELIVERY_HEADER = 'X-Lighthouse-Delivery';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+}
+
+/**
+ * Four attempts, 1s, 2s and 4s apart
+ */
+export const DEFAULT_RETRY: RetryOptions = { attempts: 4, baseDelayMs: 1000 };
+
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Editable part of a webhook, as sent by the webhooks API
+ */
+export type WebhookInput = Pick<WebhookEndpoint, 'name' | 'url' | 'format' | 'events' | 'secret' | 'enabled'>;
+
+/**
+ * Validate an untrusted value (request body) as a webhook
+ */
+export function validateWebhook(value: unknown): WebhookInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WebhookError('Webhook must be an object');
+  }
+
+  const raw = value as Record<string, any>;
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    throw new WebhookError('Webhook needs a name');
+  }
+  const name = raw.name.trim();
+
+  let url: URL;
+  try {
+    url = new URL(raw.url);
+  } catch {
+    throw new WebhookError(`Webhook "${name}" needs a valid URL`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new WebhookError(`Webhook "${name}" URL must use http or https`);
+  }
+
+  const format = raw.format === undefined ? 'json' : raw.format;
+  if (!WEBHOOK_FORMATS.includes(format)) {
+    throw new WebhookError(`Webhook "${name}" format must be one of ${WEBHOOK_FORMATS.join(', ')}`);
+  }
+
+  if (!Array.isArray(raw.events) || raw.events.length === 0) {
+    throw new WebhookError(`Webhook "${name}" needs at least one event`);
+  }
+  raw.events.forEach((event: unknown) => {
+    if (!WEBHOOK_EVENTS.includes(event as NotificationEventType)) {
+      throw new WebhookError(`Webhook "${name}" event must be one of ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+  });
+
+  if (raw.secret !== undefined && typeof raw.secret !== 'string') {
+    throw new WebhookError(`Webhook "${name}" secret must be a string`);
+  }
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    throw new WebhookError(`Webhook "${name}" "enabled" must be true or false`);
+  }
+
+  return {
+    name,
+    url: url.toString(),
+    format,
+    events: raw.events.filter((event: NotificationEventType, index: number) => raw.events.indexOf(event) === index),
+    secret: raw.secret || undefined,
+    enabled: raw.enabled !== false
+  };
+}
+
+/**
+ * Copy of the webhook safe to send to the browser
+ */
+export function maskWebhook(webhook: WebhookEndpoint): WebhookEndpoint {
+  return { ...webhook, secret: webhook.secret && MASKED_VALUE };
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`; receivers recompute it to check
+ * the payload came from this server and reject stale timestamps against replays
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Timeouts, 429 and server errors are worth retrying; other client errors are not
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * How deliveries reach the network and wait between attempts; tests swap in fakes
+ */
+export interface DeliveryTransport {
+  fetch: typeof fetch;
+  sleep: (ms: number) => Promise<unknown>;
+}
+
+const DEFAULT_TRANSPORT: DeliveryTransport = {
+  fetch: (input, init) => fetch(input, init),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * POST a payload to a webhook, signed when it has a secret, retrying with
+ * exponential backoff. Never throws; the outcome is returned.
+ */
+export async function deliverWebhook(
+  webhook: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  event: NotificationEventType,
+  payload: unknown,
+  retry: RetryOptions = DEFAULT_RETRY,
+  transport: DeliveryTransport = DEFAULT_TRANSPORT
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload);
+  const deliveryId = crypto.randomUUID();
+  let status: number | undefined;
+  let error: string | undefined;
+
+  for (let attempt = 1; attempt <= retry.attempts; attempt++) {
+    // Each attempt is signed afresh so its timestamp stays current
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'lighthouse-checker-webhooks',
+      [EVENT_HEADER]: event,
+      [DELIVERY_HEADER]: deliveryId,
+      [TIMESTAMP_HEADER]: timestamp
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${signPayload(webhook.secret, timestamp, body)}`;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+    try {
+      const response = await transport.fetch(webhook.url, { method: 'POST', headers, body, signal: controller.signal });
+      status = response.status;
+      if (response.ok) {
+        return { event, deliveredAt: new Date().toISOString(), ok: true, attempts: attempt, status };
+      }
+      error = `HTTP ${response.status}`;
+      if (!isRetryable(response.status)) {
+        return { event, deliveredAt: new Date().toISOString(), ok: false, attempts: attempt, status, error };
+      }
+    } catch (err) {
+      status = undefined;
+      error = controller.signal.aborted ? 'Timed out' : err instanceof Error ? err.message : String(err);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < retry.attempts) {
+      await transport.sleep(retry.baseDelayMs * Math.pow(2, attempt - 1));
+    }
+  }
+
+  return { event, deliveredAt: new Date().toISOString(), ok: false, attempts: retry.attempts, status, error };
+}
+
+function generateWebhookId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Webhooks, kept in `<dataDir>/webhooks.json` next to the audit history
+ */
+export class FileWebhookStore {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'webhooks.json');
+  }
+
+  /**
+   * All webhooks by name
+   */
+  async listWebhooks(): Promise<WebhookEndpoint[]> {
+    const webhooks = await this.read();
+    return webhooks.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWebhook(id: string): Promise<WebhookEndpoint | null> {
+    return (await this.read()).find(webhook => webhook.id === id) || null;
+  }
+
+  async createWebhook(input: WebhookInput): Promise<WebhookEndpoint> {
+    const now = new Date().toISOString();
+    const webhook: WebhookEndpoint = { id: generateWebhookId(), ...input, createdAt: now, updatedAt: now };
+    await this.update(webhooks => [...webhooks, webhook]);
+    return webhook;
+  }
+
+  /**
+   * Patch a webhook; null when it doesn't exist
+   */
+  async updateWebhook(
+    id: string,
+    patch: Partial<Omit<WebhookEndpoint, 'id' | 'createdAt'>>
+  ): Promise<WebhookEndpoint | null> {
+    let updated: WebhookEndpoint | null = null;
+    await this.update(webhooks => webhooks.map(webhook => {
+      if (webhook.id !== id) return webhook;
+      updated = { ...webhook, ...patch, updatedAt: new Date().toISOString() };
+      return updated;
+    }));
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    let removed = false;
+    await this.update(webhooks => {
+      removed = webhooks.some(webhook => webhook.id === id);
+      return webhooks.filter(webhook => webhook.id !== id);
+    });
+    return removed;
+  }
+
+  private async read(): Promise<WebhookEndpoint[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private update(change: (webhooks: WebhookEndpoint[]) => WebhookEndpoint[]): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const updated = change(await this.read());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(updated, null, 2));
+      await fs.rename(tmpPath, this.filePath);
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __webhookStore?: FileWebhookStore;
+};
+
+/**
+ * Get the process-wide webhook store
+ */
+export function getWebhookStore(): FileWebhookStore {
+  if (!globalStore.__webhookStore) {
+    globalStore.__webhookStore = new FileWebhookStore(getDataDir());
+  }
+  return globalStore.__webhookStore;
+}
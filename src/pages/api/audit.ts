@@ -1,25 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import path from 'path';
-import { LighthouseService } from '@/lib/lighthouse';
-import { LighthouseConfig, AuditResult } from '@/types';
-
-// Store for tracking audit progress (in production, use Redis or database)
-const auditSessions = new Map<string, {
-  status: 'processing' | 'completed' | 'error';
-  results: AuditResult[];
-  currentUrl?: string;
-  progress: number;
-  total: number;
-  error?: string;
-  insightsFile?: string; // Path to AI insights file
-}>();
+import { publishAuditLog, publishSessionProgress } from '@/lib/events';
+import { hasMaskedSecrets } from '@/lib/requests';
+import { discardAuditJob, getAuditJob, stopAuditJob } from '@/lib/jobs';
+import { AuditConfigError, processAuditAsync, startAuditSession, validateAuditRequest } from '@/lib/runner';
+import { getAuditRepository } from '@/lib/storage';
+import { LighthouseConfig, AuditControlAction } from '@/types';
 
-/**
- * Generate unique session ID
- */
-function generateSessionId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
-}
+const CONTROL_ACTIONS: AuditControlAction[] = ['cancel', 'pause', 'resume'];
 
 /**
  * Main audit API endpoint
@@ -29,6 +16,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return await handleAuditRequest(req, res);
   } else if (req.method === 'GET') {
     return await handleStatusRequest(req, res);
+  } else if (req.method === 'PATCH') {
+    return await handleControlRequest(req, res);
   } else {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -51,41 +40,17 @@ async function handleAuditRequest(req: NextApiRequest, res: NextApiResponse) {
 
     const { urls, config }: { urls: string[], config: LighthouseConfig } = req.body;
 
-    if (!urls || !Array.isArray(urls) || urls.length === 0) {
-      return res.status(400).json({ error: 'URLs array is required' });
-    }
-
-    if (!config || !config.formFactor) {
-      return res.status(400).json({ error: 'Configuration with formFactor is required' });
-    }
-
-    // Validate URLs
-    const validUrls = urls.filter(url => {
-      try {
-        new URL(url);
-        return true;
-      } catch {
-        return false;
+    let validUrls: string[];
+    try {
+      validUrls = validateAuditRequest(urls, config);
+    } catch (error) {
+      if (error instanceof AuditConfigError) {
+        return res.status(400).json({ error: error.message });
       }
-    });
-
-    if (validUrls.length === 0) {
-      return res.status(400).json({ error: 'No valid URLs provided' });
+      throw error;
     }
 
-    // Generate session ID
-    const sessionId = generateSessionId();
-    
-    // Initialize session
-    auditSessions.set(sessionId, {
-      status: 'processing',
-      results: [],
-      progress: 0,
-      total: validUrls.length
-    });
-
-    // Start audit process asynchronously
-    processAuditAsync(sessionId, validUrls, config);
+    const sessionId = await startAuditSession(validUrls, config);
 
     return res.status(200).json({
       success: true,
@@ -109,7 +74,7 @@ async function handleStatusRequest(req: NextApiRequest, res: NextApiResponse) {
     return res.status(400).json({ error: 'Session ID is required' });
   }
 
-  const session = auditSessions.get(sessionId);
+  const session = await getAuditRepository().getSession(sessionId);
   
   if (!session) {
     return res.status(404).json({ error: 'Session not found' });
@@ -119,117 +84,78 @@ async function handleStatusRequest(req: NextApiRequest, res: NextApiResponse) {
 }
 
 /**
- * Process audit asynchronously
+ * Handle cancel, pause and resume of a session
  */
-async function processAuditAsync(
-  sessionId: string, 
-  urls: string[], 
-  config: LighthouseConfig
-) {
-  const session = auditSessions.get(sessionId);
-  if (!session) return;
-
+async function handleControlRequest(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const lighthouseService = new LighthouseService(config.apiKey);
-    const reportsDir = path.join(process.cwd(), 'public', 'reports');
-    
-    // Process individual URLs and update progress
-    const results: AuditResult[] = [];
-    
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      
-      // Update session progress
-      const currentSession = auditSessions.get(sessionId);
-      if (currentSession) {
-        currentSession.currentUrl = url;
-        currentSession.progress = i;
-        auditSessions.set(sessionId, currentSession);
+    const { sessionId, action, apiKey, bypassToken }: {
+      sessionId?: string;
+      action?: AuditControlAction;
+      apiKey?: string;
+      bypassToken?: string;
+    } = req.body || {};
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return res.status(400).json({ error: 'Session ID is required' });
+    }
+
+    if (!action || !CONTROL_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `Action must be one of: ${CONTROL_ACTIONS.join(', ')}` });
+    }
+
+    const repository = getAuditRepository();
+    const session = await repository.getSession(sessionId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (action === 'pause') {
+      if (session.status !== 'processing' || !stopAuditJob(sessionId, 'pause')) {
+        return res.status(409).json({ error: 'Only a running audit can be paused' });
       }
-      
-      try {
-        const result = await lighthouseService.auditUrl(
-          url,
-          config,
-          reportsDir,
-          (message) => console.log(`Session ${sessionId}: ${message}`)
-        );
-        
-        // Make report paths relative to public directory for web access
-        if (result.reportPaths) {
-          const publicReportsDir = path.join(process.cwd(), 'public', 'reports');
-          result.reportPaths.json = result.reportPaths.json.replace(publicReportsDir, '/reports');
-          result.reportPaths.html = result.reportPaths.html.replace(publicReportsDir, '/reports');
-        }
-        
-        results.push(result);
-        
-        // Update session with partial results
-        const progressSession = auditSessions.get(sessionId);
-        if (progressSession) {
-          progressSession.results = [...results];
-          auditSessions.set(sessionId, progressSession);
+      publishAuditLog(sessionId, 'Pausing once the URLs in progress finish...');
+      return res.status(200).json({ success: true, message: 'Audit pausing' });
+    }
+
+    if (action === 'cancel') {
+      if (session.status === 'processing') {
+        if (!stopAuditJob(sessionId, 'cancel')) {
+          return res.status(409).json({ error: 'Audit is not running on this server or is already stopping' });
         }
-        
-      } catch (error) {
-        console.error(`Error processing ${url}:`, error);
-        results.push({
-          url,
-          error: error instanceof Error ? error.message : 'Unknown error occurred'
-        });
+        publishAuditLog(sessionId, 'Cancelling audit...');
+      } else if (session.status === 'paused') {
+        discardAuditJob(sessionId);
+        const updated = await repository.updateSession(sessionId, { status: 'cancelled' });
+        if (updated) publishSessionProgress(updated);
+      } else {
+        return res.status(409).json({ error: 'Only a running or paused audit can be cancelled' });
       }
+      return res.status(200).json({ success: true, message: 'Audit cancelled' });
     }
 
-    // Generate AI insights if API key is provided
-    let insightsFile: string | undefined;
-    if (config.apiKey && results.length > 0) {
-      try {
-        console.log(`Generating AI insights for session ${sessionId}...`);
-        const insights = await lighthouseService.generateAIInsights(results, config.formFactor);
-        
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const insightsFilename = `lighthouse-ai-insights-${config.formFactor}-${timestamp}.txt`;
-        const insightsPath = path.join(reportsDir, insightsFilename);
-        
-        await import('fs/promises').then(fs => fs.writeFile(insightsPath, insights));
-        insightsFile = `/reports/${insightsFilename}`;
-        
-        console.log(`AI insights saved: ${insightsPath}`);
-        
-      } catch (error) {
-        console.error('Failed to generate AI insights:', error);
-      }
+    if (session.status !== 'paused') {
+      return res.status(409).json({ error: 'Only a paused audit can be resumed' });
     }
 
-    // Update session with final results
-    const finalSession = auditSessions.get(sessionId);
-    if (finalSession) {
-      finalSession.status = 'completed';
-      finalSession.results = results;
-      finalSession.currentUrl = undefined;
-      finalSession.progress = finalSession.total;
-      finalSession.insightsFile = insightsFile;
-      auditSessions.set(sessionId, finalSession);
+    // Secrets are never stored, so reuse the paused job's config or take them from the request
+    const job = getAuditJob(sessionId);
+    const config: LighthouseConfig = { ...session.config, ...job?.config };
+    if (apiKey) config.apiKey = apiKey;
+    if (bypassToken) config.bypassToken = bypassToken;
+    if (hasMaskedSecrets(config.request)) {
+      return res.status(409).json({ error: 'Custom header and cookie secrets are no longer available on this server; start a new audit' });
     }
 
+    const updated = await repository.updateSession(sessionId, { status: 'processing', error: undefined });
+    if (updated) publishSessionProgress(updated);
+
+    processAuditAsync(sessionId, session.urls, config, session.results, session.flowResults);
+
+    return res.status(200).json({ success: true, sessionId, message: 'Audit resumed' });
+
   } catch (error) {
-    console.error('Audit processing error:', error);
-    const errorSession = auditSessions.get(sessionId);
-    if (errorSession) {
-      errorSession.status = 'error';
-      errorSession.error = error instanceof Error ? error.message : 'Unknown error occurred';
-      auditSessions.set(sessionId, errorSession);
-    }
+    console.error('Audit control error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 }
-
-// Clean up old sessions periodically (in production, use a proper job queue)
-setInterval(() => {
-  const cutoff = Date.now() - (24 * 60 * 60 * 1000); // 24 hours ago
-  Array.from(auditSessions.entries()).forEach(([sessionId, session]) => {
-    const sessionTime = parseInt(sessionId, 36);
-    if (sessionTime < cutoff) {
-      auditSessions.delete(sessionId);
-    }
-  });
-}, 60 * 60 * 1000); // Clean up every hour
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuditLog, subscribeToAuditEvents } from '@/lib/events';
+import { getAuditRepository } from '@/lib/storage';
+import { AuditStreamEvent } from '@/types';
+
+/**
+ * Interval for keep-alive comments so proxies don't drop idle streams
+ */
+const HEARTBEAT_MS = 15000;
+
+function writeEvent(res: NextApiResponse, event: AuditStreamEvent | { type: 'end' }) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Server-Sent Events stream of an audit session: a snapshot on connect,
+ * then log lines, per-URL results and progress as they happen
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { sessionId } = req.query;
+  if (!sessionId || typeof sessionId !== 'string') {
+    return res.status(400).json({ error: 'Session ID is required' });
+  }
+
+  const session = await getAuditRepository().getSession(sessionId);
+  if (!session) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop compression and proxy buffering from holding events back
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  });
+
+  writeEvent(res, { type: 'snapshot', session, log: getAuditLog(sessionId) });
+
+  if (session.status !== 'processing') {
+    writeEvent(res, { type: 'end' });
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const unsubscribe = subscribeToAuditEvents(sessionId, (event) => {
+    writeEvent(res, event);
+    if (event.type === 'progress' && event.status !== 'processing') {
+      writeEvent(res, { type: 'end' });
+      close();
+    }
+  });
+
+  req.on('close', close);
+}
+
+export const config = {
+  api: {
+    // The response is a long-lived stream, not a sized body
+    responseLimit: false
+  }
+};
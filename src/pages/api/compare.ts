@@ -0,0 +1,41 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { compareSessions, DEFAULT_REGRESSION_THRESHOLD } from '@/lib/compare';
+import { getAuditRepository } from '@/lib/storage';
+
+/**
+ * Compare two audit sessions URL by URL
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { base, head, threshold } = req.query;
+
+  if (typeof base !== 'string' || typeof head !== 'string') {
+    return res.status(400).json({ error: 'Both base and head session IDs are required' });
+  }
+
+  const parsedThreshold = typeof threshold === 'string' ? Number(threshold) : DEFAULT_REGRESSION_THRESHOLD;
+  if (!Number.isFinite(parsedThreshold) || parsedThreshold < 0) {
+    return res.status(400).json({ error: 'Threshold must be a non-negative number' });
+  }
+
+  try {
+    const repository = getAuditRepository();
+    const [baseSession, headSession] = await Promise.all([
+      repository.getSession(base),
+      repository.getSession(head)
+    ]);
+
+    if (!baseSession || !headSession) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const comparison = await compareSessions(baseSession, headSession, parsedThreshold);
+    return res.status(200).json(comparison);
+  } catch (error) {
+    console.error('Comparison error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
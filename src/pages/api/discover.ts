@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { discoverUrls, DiscoveryError, validateDiscoveryRequest } from '@/lib/discovery';
+
+/**
+ * Discover URLs to audit from a sitemap or a same-origin crawl
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await discoverUrls(validateDiscoveryRequest(req.body));
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof DiscoveryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('URL discovery error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
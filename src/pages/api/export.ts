@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { EXPORT_FORMATS, exportSession } from '@/lib/exports';
+import { getAuditRepository } from '@/lib/storage';
+import { ExportFormat } from '@/types';
+
+/**
+ * Download a session's results as CSV, XLSX, a JSON bundle, or an HTML/PDF summary
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { sessionId, format } = req.query;
+  if (typeof sessionId !== 'string') {
+    return res.status(400).json({ error: 'A session ID is required' });
+  }
+  if (typeof format !== 'string' || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return res.status(400).json({ error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  try {
+    const session = await getAuditRepository().getSession(sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const file = await exportSession(session, format as ExportFormat);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    return res.status(200).send(file.body);
+  } catch (error) {
+    console.error('Export error:', error);
+    return res.status(500).json({ error: format === 'pdf' ? 'Failed to render the PDF summary' : 'Internal server error' });
+  }
+}
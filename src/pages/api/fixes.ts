@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildFixIssues } from '@/lib/details';
+import { generateFixSuggestions } from '@/lib/fixes';
+import { InsightsError, validateInsightsSettings } from '@/lib/insights';
+import { createInsightsProvider } from '@/lib/llm';
+import { readLhr, ReportPathError, resolveReportFile } from '@/lib/reports';
+import { FixRequest } from '@/types';
+
+// Suggestions are saved next to the report they were made for
+const cacheFile = (report: string) => resolveReportFile(report).replace(/\.json$/, '.fixes.json');
+
+/**
+ * AI code fixes for a saved report: GET returns the last suggestions, POST asks for new ones
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    const { report } = req.query;
+    if (!report || typeof report !== 'string' || !report.endsWith('.json')) {
+      return res.status(400).json({ error: 'A JSON report path is required' });
+    }
+
+    try {
+      const cached = await fs.readFile(cacheFile(report), 'utf-8');
+      return res.status(200).json(JSON.parse(cached));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return res.status(404).json({ error: 'No fix suggestions for this report yet' });
+      }
+      if (error instanceof ReportPathError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Fix suggestions error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { report, apiKey, insights } = (req.body || {}) as Partial<FixRequest>;
+  if (!report || typeof report !== 'string' || !report.endsWith('.json')) {
+    return res.status(400).json({ error: 'A JSON report path is required' });
+  }
+
+  let provider;
+  try {
+    provider = createInsightsProvider({
+      apiKey: typeof apiKey === 'string' && apiKey ? apiKey : undefined,
+      insights: insights === undefined ? undefined : validateInsightsSettings(insights)
+    });
+  } catch (error) {
+    if (error instanceof InsightsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+  if (!provider) {
+    return res.status(400).json({ error: 'Choose an AI provider or enter an API key' });
+  }
+
+  try {
+    const lhr = await readLhr(report);
+    const { stack, issues } = buildFixIssues(lhr);
+    const suggestions = await generateFixSuggestions(report, lhr.finalDisplayedUrl || lhr.requestedUrl || '', stack, issues, provider);
+    await fs.writeFile(cacheFile(report), JSON.stringify(suggestions, null, 2));
+    return res.status(200).json(suggestions);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+    if (error instanceof ReportPathError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof InsightsError) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error('Fix suggestions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuditRepository } from '@/lib/storage';
+
+/**
+ * Score history for a single URL, or the list of audited URLs when none is given
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const repository = getAuditRepository();
+    const { url } = req.query;
+
+    if (!url) {
+      const urls = await repository.listAuditedUrls();
+      return res.status(200).json({ urls });
+    }
+
+    if (typeof url !== 'string') {
+      return res.status(400).json({ error: 'A single URL is required' });
+    }
+
+    const points = await repository.getUrlHistory(url);
+    return res.status(200).json({ url, points });
+  } catch (error) {
+    console.error('History request error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getProfileStore, ProfileError, validateProfile } from '@/lib/profiles';
+
+/**
+ * List, save and delete emulation profiles
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getProfileStore();
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ profiles: await store.listProfiles() });
+    }
+
+    if (req.method === 'POST') {
+      const profile = await store.saveProfile(validateProfile(req.body));
+      return res.status(200).json({ profile });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'Profile ID is required' });
+      }
+      if (!(await store.deleteProfile(id))) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Profile API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
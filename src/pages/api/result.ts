@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildResultDetail } from '@/lib/details';
+import { readLhr, ReportPathError } from '@/lib/reports';
+
+/**
+ * Drill-down detail of one audit result, read from its saved JSON report
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { report } = req.query;
+  if (!report || typeof report !== 'string') {
+    return res.status(400).json({ error: 'A JSON report path is required' });
+  }
+
+  try {
+    const lhr = await readLhr(report);
+    return res.status(200).json(buildResultDetail(lhr));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+    if (error instanceof ReportPathError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Result detail error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getScheduler, getScheduleStore, ScheduleError, validateSchedule, withNextRun } from '@/lib/scheduler';
+import { sanitizeConfig } from '@/lib/storage';
+
+/**
+ * List, create, update, delete and manually run audit schedules
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getScheduleStore();
+  // Normally started by the instrumentation hook; harmless when already running
+  if (!process.env.VERCEL && !process.env.AWS_LAMBDA_FUNCTION_NAME && process.env.AUDIT_SCHEDULER !== 'off') {
+    getScheduler().start();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const now = new Date();
+      const schedules = await store.listSchedules();
+      return res.status(200).json({ schedules: schedules.map(schedule => withNextRun(schedule, now)) });
+    }
+
+    if (req.method === 'POST') {
+      const schedule = await store.createSchedule(validateSchedule(req.body));
+      return res.status(200).json({ schedule: withNextRun(schedule) });
+    }
+
+    const { id } = req.query;
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Schedule ID is required' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = validateSchedule(req.body);
+      const schedule = await store.updateSchedule(id, { ...input, config: sanitizeConfig(input.config) });
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.status(200).json({ schedule: withNextRun(schedule) });
+    }
+
+    if (req.method === 'PATCH') {
+      if (req.body?.action !== 'run') {
+        return res.status(400).json({ error: 'Action must be: run' });
+      }
+      const schedule = await store.getSchedule(id);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      const updated = await getScheduler().runSchedule(schedule);
+      return res.status(200).json({ schedule: withNextRun(updated) });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await store.deleteSchedule(id))) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Schedule API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
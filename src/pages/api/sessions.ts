@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAuditRepository } from '@/lib/storage';
+
+/**
+ * List stored audit sessions, newest first
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : undefined;
+    const sessions = await getAuditRepository().listSessions(
+      limit && limit > 0 ? limit : undefined
+    );
+    return res.status(200).json({ sessions });
+  } catch (error) {
+    console.error('Session list error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,8 +1,9 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import formidable from 'formidable';
-import { readFileSync } from 'fs';
-import { parse } from 'csv-parse/sync';
+import fs from 'fs/promises';
 import path from 'path';
+import { ImportError } from '@/lib/imports';
+import { readImportFile } from '@/lib/spreadsheets';
 import { UploadResponse } from '@/types';
 
 // Disable body parser for file uploads
@@ -13,30 +14,15 @@ export const config = {
 };
 
 /**
- * Parse CSV file and extract URLs
- */
-function parseCSV(filePath: string): string[] {
-  try {
-    const csvData = readFileSync(filePath, 'utf-8');
-    const records = parse(csvData, {
-      columns: false,
-      skip_empty_lines: true
-    });
-    return records.map((row: any) => row[0]?.trim()).filter((url: string) => url && url.length > 0);
-  } catch (error) {
-    console.error('Error parsing CSV:', error);
-    return [];
-  }
-}
-
-/**
- * Handle CSV file upload
+ * Handle URL list uploads (CSV, XLSX, text or JSON). The rows come back as
+ * they are; the dashboard maps columns and validates rows from there.
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse<UploadResponse>) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
 
+  let uploadedPath: string | undefined;
   try {
     const form = formidable({
       uploadDir: path.join(process.cwd(), 'tmp'),
@@ -44,49 +30,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       maxFileSize: 5 * 1024 * 1024, // 5MB limit
     });
 
-    const [fields, files] = await form.parse(req);
-    const csvFile = Array.isArray(files.csv) ? files.csv[0] : files.csv;
-
-    if (!csvFile) {
-      return res.status(400).json({ success: false, error: 'No CSV file uploaded' });
-    }
+    const [, files] = await form.parse(req);
+    const file = Array.isArray(files.file) ? files.file[0] : files.file;
 
-    // Validate file type
-    if (!csvFile.originalFilename?.endsWith('.csv')) {
-      return res.status(400).json({ success: false, error: 'Please upload a CSV file' });
+    if (!file) {
+      return res.status(400).json({ success: false, error: 'No file uploaded' });
     }
+    uploadedPath = file.filepath;
 
-    // Parse URLs from CSV
-    const urls = parseCSV(csvFile.filepath);
-
-    if (urls.length === 0) {
-      return res.status(400).json({ success: false, error: 'No valid URLs found in CSV file' });
+    const table = await readImportFile(await fs.readFile(file.filepath), file.originalFilename || '');
+    if (table.rows.length === 0) {
+      return res.status(400).json({ success: false, error: 'The file has no rows' });
     }
 
-    // Validate URLs
-    const validUrls = urls.filter(url => {
-      try {
-        new URL(url);
-        return true;
-      } catch {
-        return false;
-      }
-    });
-
-    if (validUrls.length === 0) {
-      return res.status(400).json({ success: false, error: 'No valid URLs found in CSV file' });
-    }
-
-    return res.status(200).json({
-      success: true,
-      urls: validUrls
-    });
+    return res.status(200).json({ success: true, table });
 
   } catch (error) {
-    console.error('CSV upload error:', error);
+    if (error instanceof ImportError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('File upload error:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to process CSV file'
+      error: 'Failed to process file'
     });
+  } finally {
+    if (uploadedPath) await fs.unlink(uploadedPath).catch(() => undefined);
   }
-}
\ No newline at end of file
+}
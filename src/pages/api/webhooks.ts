@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { sendTestNotification } from '@/lib/notifications';
+import { MASKED_VALUE } from '@/lib/requests';
+import { getWebhookStore, maskWebhook, validateWebhook, WebhookError } from '@/lib/webhooks';
+
+/**
+ * List, create, update, delete and test outgoing webhooks
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const store = getWebhookStore();
+
+  try {
+    if (req.method === 'GET') {
+      const webhooks = await store.listWebhooks();
+      return res.status(200).json({ webhooks: webhooks.map(maskWebhook) });
+    }
+
+    if (req.method === 'POST') {
+      const webhook = await store.createWebhook(validateWebhook(req.body));
+      return res.status(200).json({ webhook: maskWebhook(webhook) });
+    }
+
+    const { id } = req.query;
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Webhook ID is required' });
+    }
+
+    const existing = await store.getWebhook(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    if (req.method === 'PUT') {
+      const input = validateWebhook(req.body);
+      // The browser only ever sees the masked secret; sending it back keeps the stored one
+      if (input.secret === MASKED_VALUE) input.secret = existing.secret;
+      const webhook = await store.updateWebhook(id, input);
+      return res.status(200).json({ webhook: webhook && maskWebhook(webhook) });
+    }
+
+    if (req.method === 'PATCH') {
+      if (req.body?.action !== 'test') {
+        return res.status(400).json({ error: 'Action must be: test' });
+      }
+      const delivery = await sendTestNotification(existing);
+      return res.status(200).json({ delivery });
+    }
+
+    if (req.method === 'DELETE') {
+      await store.deleteWebhook(id);
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Webhook API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
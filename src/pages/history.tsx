@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Inter } from 'next/font/google';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Download, FileSearch } from 'lucide-react';
+import TrendChart from '@/components/TrendChart';
+import { UrlHistoryPoint } from '@/types';
+
+const inter = Inter({ subsets: ['latin'] });
+
+const FORM_FACTORS: Array<{ value: UrlHistoryPoint['formFactor']; label: string }> = [
+  { value: 'desktop', label: '🖥️ Desktop' },
+  { value: 'mobile', label: '📱 Mobile' }
+];
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const selectedUrl = typeof router.query.url === 'string' ? router.query.url : '';
+  const [urls, setUrls] = useState<string[]>([]);
+  const [points, setPoints] = useState<UrlHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/history')
+      .then(response => response.json())
+      .then(data => setUrls(data.urls || []))
+      .catch(() => setError('Failed to load audited URLs'));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedUrl) {
+      setPoints([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/history?url=${encodeURIComponent(selectedUrl)}`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load history');
+        return response.json();
+      })
+      .then(data => setPoints(data.points))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [selectedUrl]);
+
+  const selectUrl = (url: string) => {
+    router.push({ pathname: '/history', query: url ? { url } : {} }, undefined, { shallow: true });
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Score History | Lighthouse AI Audit Dashboard</title>
+      </Head>
+
+      <div className={`${inter.className} min-h-screen bg-navy-950 py-8`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/" className="link-primary inline-flex items-center text-sm mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-100 tracking-tight">
+              <span className="text-accent-400">Score</span> History
+            </h1>
+            <p className="text-gray-300 mt-2">Track category scores for a URL across audit runs</p>
+          </div>
+
+          <div className="card p-6 mb-8">
+            <label className="block text-sm font-medium text-gray-200 mb-2">URL</label>
+            <select value={selectedUrl} onChange={(e) => selectUrl(e.target.value)} className="input">
+              <option value="">Select an audited URL…</option>
+              {selectedUrl && !urls.includes(selectedUrl) && <option value={selectedUrl}>{selectedUrl}</option>}
+              {urls.map((url) => (
+                <option key={url} value={url}>{url}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="status-error bg-red-900/30 border border-red-800 rounded-md p-3 mb-8 text-sm">
+              Error: {error}
+            </div>
+          )}
+
+          {loading && <p className="status-processing">Loading history…</p>}
+
+          {!loading && selectedUrl && (
+            <div className="space-y-8">
+              {FORM_FACTORS.map(({ value, label }) => {
+                const series = points.filter(point => point.formFactor === value);
+                return (
+                  <div key={value} className="card p-6">
+                    <div className="card-header -m-6 mb-6 p-6 flex justify-between items-center">
+                      <h2 className="text-xl font-semibold text-gray-100">{label}</h2>
+                      <span className="text-sm bg-accent-500/20 text-accent-400 px-2 py-1 rounded-full">
+                        {series.length} runs
+                      </span>
+                    </div>
+
+                    <TrendChart points={series} />
+
+                    {series.length > 0 && (
+                      <div className="overflow-x-auto mt-6">
+                        <table className="min-w-full divide-y divide-navy-700 text-sm">
+                          <thead className="table-header">
+                            <tr>
+                              <th className="px-4 py-2 text-left">Run</th>
+                              <th className="px-4 py-2 text-left">Perf</th>
+                              <th className="px-4 py-2 text-left">A11y</th>
+                              <th className="px-4 py-2 text-left">BP</th>
+                              <th className="px-4 py-2 text-left">SEO</th>
+                              <th className="px-4 py-2 text-left">Report</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-navy-700">
+                            {series.slice().reverse().map((point, index) => (
+                              <tr key={`${point.sessionId}-${index}`} className="table-row">
+                                <td className="px-4 py-2 text-gray-300">
+                                  <Link href={{ pathname: '/', query: { sessionId: point.sessionId } }} className="link-primary">
+                                    {new Date(point.auditedAt).toLocaleString()}
+                                  </Link>
+                                </td>
+                                <td className="px-4 py-2 text-gray-200">{point.scores.performance}</td>
+                                <td className="px-4 py-2 text-gray-200">{point.scores.accessibility}</td>
+                                <td className="px-4 py-2 text-gray-200">{point.scores['best-practices']}</td>
+                                <td className="px-4 py-2 text-gray-200">{point.scores.seo}</td>
+                                <td className="px-4 py-2">
+                                  {point.reportPaths && (
+                                    <a
+                                      href={point.reportPaths.html}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="link-primary inline-flex items-center"
+                                    >
+                                      <Download className="w-4 h-4 mr-1" />
+                                      HTML
+                                    </a>
+                                  )}
+                                  {point.reportPaths && (
+                                    <Link
+                                      href={{ pathname: '/result', query: { report: point.reportPaths.json } }}
+                                      className="link-primary inline-flex items-center ml-3"
+                                    >
+                                      <FileSearch className="w-4 h-4 mr-1" />
+                                      Details
+                                    </Link>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,14 +1,194 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Inter } from 'next/font/google';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 import LighthouseDashboard from '@/components/LighthouseDashboard';
-import { ProcessingStatus, AuditResult, LighthouseConfig } from '@/types';
+import { placeResults } from '@/lib/utils';
+import {
+  ProcessingStatus,
+  AuditResult,
+  AuditLogEntry,
+  AuditSession,
+  AuditSessionSummary,
+  AuditStreamEvent,
+  AuditControlAction,
+  FlowAuditResult,
+  LighthouseConfig
+} from '@/types';
 
 const inter = Inter({ subsets: ['latin'] });
 
+// Log lines kept in the status panel
+const LOG_LIMIT = 200;
+
 export default function HomePage() {
+  const router = useRouter();
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus>({ status: 'idle' });
   const [results, setResults] = useState<AuditResult[]>([]);
+  const [flowResults, setFlowResults] = useState<FlowAuditResult[]>([]);
+  const [recentSessions, setRecentSessions] = useState<AuditSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | undefined>();
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const resultSlotsRef = useRef<Array<AuditResult | undefined>>([]);
+  const flowSlotsRef = useRef<Array<FlowAuditResult | undefined>>([]);
+
+  /**
+   * Refresh the list of stored sessions
+   */
+  const loadRecentSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions?limit=10');
+      if (response.ok) {
+        const { sessions } = await response.json();
+        setRecentSessions(sessions);
+      }
+    } catch (error) {
+      console.error('Failed to load recent sessions:', error);
+    }
+  }, []);
+
+  /**
+   * Show the completed results in input order
+   */
+  const publishResults = useCallback(() => {
+    setResults(resultSlotsRef.current.filter((result): result is AuditResult => result !== undefined));
+    setFlowResults(flowSlotsRef.current.filter((result): result is FlowAuditResult => result !== undefined));
+  }, []);
+
+  /**
+   * Apply a stored session to the dashboard state
+   */
+  const applySession = useCallback((session: AuditSession, log?: AuditLogEntry[]) => {
+    setProcessingStatus({
+      status: session.status,
+      currentUrl: session.currentUrl,
+      activeUrls: session.activeUrls,
+      progress: session.progress,
+      totalUrls: session.total,
+      error: session.error,
+      insightsFile: session.insightsFile,
+      insights: session.insights,
+      log
+    });
+    resultSlotsRef.current = placeResults(session.urls, session.results, session.config.variants);
+    // Flow names are unique within a session
+    flowSlotsRef.current = (session.config.flows || []).map(flow =>
+      session.flowResults?.find(result => result.name === flow.name)
+    );
+    publishResults();
+  }, [publishResults]);
+
+  /**
+   * Follow a running session over Server-Sent Events until it finishes
+   */
+  const watchSession = useCallback((sessionId: string) => {
+    eventSourceRef.current?.close();
+
+    const source = new EventSource(`/api/audit/stream?sessionId=${encodeURIComponent(sessionId)}`);
+    eventSourceRef.current = source;
+
+    const on = <T extends AuditStreamEvent['type']>(
+      type: T,
+      handle: (event: Extract<AuditStreamEvent, { type: T }>) => void
+    ) => {
+      source.addEventListener(type, (message) => handle(JSON.parse((message as MessageEvent).data)));
+    };
+
+    // Sent on every (re)connect, so a dropped stream resyncs itself
+    on('snapshot', ({ session, log }) => applySession(session, log));
+
+    on('progress', (event) => {
+      setProcessingStatus(previous => ({
+        ...previous,
+        status: event.status,
+        currentUrl: event.currentUrl,
+        activeUrls: event.activeUrls,
+        progress: event.progress,
+        totalUrls: event.total,
+        error: event.error,
+        insightsFile: event.insightsFile,
+        insights: event.insights
+      }));
+    });
+
+    // Results arrive out of order from parallel workers; slot them by input index
+    on('result', ({ index, result }) => {
+      resultSlotsRef.current[index] = result;
+      publishResults();
+    });
+
+    on('flowResult', ({ index, result }) => {
+      flowSlotsRef.current[index] = result;
+      publishResults();
+    });
+
+    on('log', ({ entry }) => {
+      setProcessingStatus(previous => ({
+        ...previous,
+        log: [...(previous.log || []), entry].slice(-LOG_LIMIT)
+      }));
+    });
+
+    source.addEventListener('end', () => {
+      source.close();
+      eventSourceRef.current = null;
+      loadRecentSessions();
+    });
+
+    source.onerror = () => {
+      // EventSource retries on its own unless the server refused the stream
+      if (source.readyState === EventSource.CLOSED) {
+        eventSourceRef.current = null;
+        setProcessingStatus(previous => ({
+          ...previous,
+          status: 'error',
+          error: 'Lost connection to the audit progress stream'
+        }));
+      }
+    };
+  }, [applySession, publishResults, loadRecentSessions]);
+
+  /**
+   * Load a past (or still running) session by ID
+   */
+  const handleLoadSession = useCallback(async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/audit?sessionId=${sessionId}`);
+      if (!response.ok) {
+        throw new Error('Session not found');
+      }
+
+      const session: AuditSession = await response.json();
+      setActiveSessionId(sessionId);
+      applySession(session);
+      router.replace({ pathname: '/', query: { sessionId } }, undefined, { shallow: true });
+
+      if (session.status === 'processing') {
+        watchSession(sessionId);
+      }
+    } catch (error) {
+      setProcessingStatus({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to load session'
+      });
+    }
+  }, [applySession, watchSession, router]);
+
+  useEffect(() => {
+    loadRecentSessions();
+    return () => {
+      eventSourceRef.current?.close();
+    };
+  }, [loadRecentSessions]);
+
+  // Reload the run referenced in the URL, e.g. after a refresh
+  const querySessionId = router.query.sessionId;
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (typeof querySessionId === 'string' && querySessionId !== activeSessionId) {
+      handleLoadSession(querySessionId);
+    }
+  }, [router.isReady, querySessionId, activeSessionId, handleLoadSession]);
 
   /**
    * Handle running lighthouse audit
@@ -18,9 +198,11 @@ export default function HomePage() {
       setProcessingStatus({ 
         status: 'processing', 
         progress: 0, 
-        totalUrls: urls.length 
+        totalUrls: urls.length * (config.variants?.length || 1) + (config.flows?.length || 0)
       });
-      setResults([]);
+      resultSlotsRef.current = [];
+      flowSlotsRef.current = [];
+      publishResults();
 
       // Start audit
       const response = await fetch('/api/audit', {
@@ -37,44 +219,12 @@ export default function HomePage() {
       }
 
       const { sessionId } = await response.json();
+      setActiveSessionId(sessionId);
+      router.replace({ pathname: '/', query: { sessionId } }, undefined, { shallow: true });
+      loadRecentSessions();
 
-      // Poll for status updates
-      const pollInterval = setInterval(async () => {
-        try {
-          const statusResponse = await fetch(`/api/audit?sessionId=${sessionId}`);
-          if (statusResponse.ok) {
-            const status = await statusResponse.json();
-            
-            setProcessingStatus({
-              status: status.status,
-              currentUrl: status.currentUrl,
-              progress: status.progress,
-              totalUrls: status.total,
-              error: status.error,
-              insightsFile: status.insightsFile
-            });
-
-            if (status.status === 'completed') {
-              setResults(status.results);
-              clearInterval(pollInterval);
-            } else if (status.status === 'error') {
-              clearInterval(pollInterval);
-            }
-          }
-        } catch (error) {
-          console.error('Status polling error:', error);
-          clearInterval(pollInterval);
-          setProcessingStatus({
-            status: 'error',
-            error: 'Failed to get status updates'
-          });
-        }
-      }, 2000); // Poll every 2 seconds
-
-      // Cleanup timeout after 30 minutes
-      setTimeout(() => {
-        clearInterval(pollInterval);
-      }, 30 * 60 * 1000);
+      // Stream status updates
+      watchSession(sessionId);
 
     } catch (error) {
       console.error('Audit error:', error);
@@ -83,7 +233,39 @@ export default function HomePage() {
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       });
     }
-  }, []);
+  }, [watchSession, publishResults, loadRecentSessions, router]);
+
+  /**
+   * Cancel, pause or resume the active session. Resuming can re-send secrets
+   * in case the server no longer holds them.
+   */
+  const handleControlSession = useCallback(async (
+    action: AuditControlAction,
+    secrets?: Pick<LighthouseConfig, 'apiKey' | 'bypassToken'>
+  ) => {
+    if (!activeSessionId) return;
+
+    const response = await fetch('/api/audit', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId: activeSessionId, action, ...secrets }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: `Failed to ${action} audit` }));
+      throw new Error(errorData.error || `Failed to ${action} audit`);
+    }
+
+    if (action === 'resume') {
+      watchSession(activeSessionId);
+    } else if (!eventSourceRef.current) {
+      // A paused session has no open stream to report the change
+      await handleLoadSession(activeSessionId);
+    }
+    loadRecentSessions();
+  }, [activeSessionId, watchSession, handleLoadSession, loadRecentSessions]);
 
   return (
     <>
@@ -99,6 +281,11 @@ export default function HomePage() {
           onRunAudit={handleRunAudit}
           processingStatus={processingStatus}
           results={results}
+          flowResults={flowResults}
+          recentSessions={recentSessions}
+          activeSessionId={activeSessionId}
+          onLoadSession={handleLoadSession}
+          onControlSession={handleControlSession}
         />
       </div>
     </>
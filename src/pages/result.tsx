@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { Inter } from 'next/font/google';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Download, LineChart } from 'lucide-react';
+import FixAssistant from '@/components/FixAssistant';
+import MetricGrid from '@/components/MetricGrid';
+import { formatBytes, formatDuration } from '@/lib/utils';
+import { AuditItemSummary, ResultDetail, ScoreCategory } from '@/types';
+
+const inter = Inter({ subsets: ['latin'] });
+
+const CATEGORIES: Array<{ key: ScoreCategory; label: string }> = [
+  { key: 'performance', label: '⚡ Performance' },
+  { key: 'accessibility', label: '♿ Accessibility' },
+  { key: 'best-practices', label: '✅ Best Practices' },
+  { key: 'seo', label: '🎯 SEO' }
+];
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return 'text-green-400';
+  if (score >= 50) return 'text-accent-400';
+  return 'text-red-400';
+};
+
+export default function ResultPage() {
+  const router = useRouter();
+  const report = typeof router.query.report === 'string' ? router.query.report : '';
+  const [detail, setDetail] = useState<ResultDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!report) {
+      setError('No report selected');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/result?report=${encodeURIComponent(report)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load report');
+        return data;
+      })
+      .then(setDetail)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load report'))
+      .finally(() => setLoading(false));
+  }, [router.isReady, report]);
+
+  return (
+    <>
+      <Head>
+        <title>Audit Detail | Lighthouse AI Audit Dashboard</title>
+      </Head>
+
+      <div className={`${inter.className} min-h-screen bg-navy-950 py-8`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/" className="link-primary inline-flex items-center text-sm mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-100 tracking-tight">
+              <span className="text-accent-400">Audit</span> Detail
+            </h1>
+            {detail && (
+              <>
+                <p className="text-accent-400 font-mono mt-2 break-all">{detail.url}</p>
+                <p className="text-sm text-gray-400 mt-1">
+                  {detail.formFactor === 'mobile' ? '📱 Mobile' : '🖥️ Desktop'} · {new Date(detail.fetchTime).toLocaleString()} · Lighthouse {detail.lighthouseVersion}
+                </p>
+                <div className="flex space-x-2 mt-3">
+                  <a
+                    href={report.replace(/\.json$/, '.html')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="badge-download"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    HTML Report
+                  </a>
+                  <Link href={{ pathname: '/history', query: { url: detail.url } }} className="badge-download">
+                    <LineChart className="w-4 h-4 mr-2" />
+                    History
+                  </Link>
+                </div>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <div className="status-error bg-red-900/30 border border-red-800 rounded-md p-3 mb-8 text-sm">
+              Error: {error}
+            </div>
+          )}
+
+          {loading && <p className="status-processing">Loading report…</p>}
+
+          {detail && (
+            <div className="space-y-8">
+              <div className="card p-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                  {CATEGORIES.map(({ key, label }) => (
+                    <div key={key} className="p-4 bg-navy-800 rounded-md border border-navy-600 text-center">
+                      <p className="text-sm text-gray-300">{label}</p>
+                      <p className={`text-3xl font-bold mt-1 ${getScoreColor(detail.scores[key])}`}>
+                        {detail.scores[key]}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <MetricGrid metrics={detail.metrics} />
+              </div>
+
+              {(detail.screenshot || detail.filmstrip.length > 0) && (
+                <Section title="Page Load">
+                  <div className="flex flex-col lg:flex-row gap-6">
+                    {detail.screenshot && (
+                      <img
+                        src={detail.screenshot}
+                        alt={`Final screenshot of ${detail.url}`}
+                        className="max-h-96 rounded-md border border-navy-600 self-start"
+                      />
+                    )}
+                    {detail.filmstrip.length > 0 && (
+                      <div className="flex flex-wrap gap-3 content-start">
+                        {detail.filmstrip.map(frame => (
+                          <figure key={frame.timing} className="text-center">
+                            <img
+                              src={frame.data}
+                              alt={`Frame at ${formatDuration(frame.timing)}`}
+                              className="h-32 rounded border border-navy-700"
+                            />
+                            <figcaption className="text-xs text-gray-400 mt-1">{formatDuration(frame.timing)}</figcaption>
+                          </figure>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </Section>
+              )}
+
+              <Section title="Opportunities" count={detail.opportunities.length}>
+                {detail.opportunities.length === 0 ? (
+                  <p className="text-sm text-gray-400">No estimated savings found.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-navy-700 text-sm">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="px-4 py-2 text-left">Opportunity</th>
+                        <th className="px-4 py-2 text-right">Est. time savings</th>
+                        <th className="px-4 py-2 text-right">Est. byte savings</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-navy-700">
+                      {detail.opportunities.map(opportunity => (
+                        <tr key={opportunity.id} className="table-row">
+                          <td className="px-4 py-2 text-gray-200">{opportunity.title}</td>
+                          <td className="px-4 py-2 text-right text-accent-400 whitespace-nowrap">
+                            {opportunity.savingsMs ? formatDuration(opportunity.savingsMs) : '—'}
+                          </td>
+                          <td className="px-4 py-2 text-right text-accent-400 whitespace-nowrap">
+                            {opportunity.savingsBytes ? formatBytes(opportunity.savingsBytes, 1) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Section>
+
+              <Section title="AI Fix Assistant">
+                <FixAssistant report={report} />
+              </Section>
+
+              <Section title="Diagnostics" count={detail.diagnostics.length}>
+                <AuditList audits={detail.diagnostics} empty="No diagnostics to report." />
+              </Section>
+
+              <Section title="Failed Audits" count={detail.failedAudits.reduce((sum, group) => sum + group.audits.length, 0)}>
+                {detail.failedAudits.length === 0 ? (
+                  <p className="text-sm text-gray-400">Every accessibility, best practices and SEO audit passed.</p>
+                ) : (
+                  <div className="space-y-6">
+                    {detail.failedAudits.map(group => (
+                      <div key={group.category}>
+                        <h3 className="text-sm font-semibold text-gray-200 mb-2">{group.title}</h3>
+                        <AuditList audits={group.audits} empty="" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Section>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <Section title="Third Parties" count={detail.thirdParties.length}>
+                  {detail.thirdParties.length === 0 ? (
+                    <p className="text-sm text-gray-400">No third-party code detected.</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-navy-700 text-sm">
+                      <thead className="table-header">
+                        <tr>
+                          <th className="px-4 py-2 text-left">Entity</th>
+                          <th className="px-4 py-2 text-right">Transfer size</th>
+                          <th className="px-4 py-2 text-right">Main thread</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-navy-700">
+                        {detail.thirdParties.map(party => (
+                          <tr key={party.entity} className="table-row">
+                            <td className="px-4 py-2 text-gray-200">{party.entity}</td>
+                            <td className="px-4 py-2 text-right text-gray-300 whitespace-nowrap">{formatBytes(party.transferSize, 1)}</td>
+                            <td className="px-4 py-2 text-right text-gray-300 whitespace-nowrap">{formatDuration(party.mainThreadTime)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </Section>
+
+                <Section title="Largest Resources" count={detail.largestResources.length}>
+                  {detail.largestResources.length === 0 ? (
+                    <p className="text-sm text-gray-400">No network requests recorded.</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-navy-700 text-sm table-fixed">
+                      <thead className="table-header">
+                        <tr>
+                          <th className="px-4 py-2 text-left">Resource</th>
+                          <th className="px-4 py-2 text-left w-28">Type</th>
+                          <th className="px-4 py-2 text-right w-28">Size</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-navy-700">
+                        {detail.largestResources.map((resource, index) => (
+                          <tr key={`${resource.url}-${index}`} className="table-row">
+                            <td className="px-4 py-2 font-mono text-xs text-accent-400 truncate" title={resource.url}>
+                              {resource.url}
+                            </td>
+                            <td className="px-4 py-2 text-gray-300">{resource.resourceType || '—'}</td>
+                            <td className="px-4 py-2 text-right text-gray-300 whitespace-nowrap">{formatBytes(resource.transferSize, 1)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </Section>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+const Section: React.FC<{ title: string; count?: number; children: React.ReactNode }> = ({ title, count, children }) => (
+  <div className="card p-6">
+    <div className="card-header -m-6 mb-6 p-6 flex justify-between items-center">
+      <h2 className="text-xl font-semibold text-gray-100">{title}</h2>
+      {count !== undefined && (
+        <span className="text-sm bg-accent-500/20 text-accent-400 px-2 py-1 rounded-full">{count}</span>
+      )}
+    </div>
+    <div className="overflow-x-auto">{children}</div>
+  </div>
+);
+
+const AuditList: React.FC<{ audits: AuditItemSummary[]; empty: string }> = ({ audits, empty }) => {
+  if (audits.length === 0) return <p className="text-sm text-gray-400">{empty}</p>;
+
+  return (
+    <ul className="divide-y divide-navy-700">
+      {audits.map(audit => (
+        <li key={audit.id} className="py-2 flex justify-between items-start text-sm">
+          <span className="flex items-start text-gray-200">
+            <span className={`mr-2 ${audit.score === null ? 'text-gray-500' : audit.score >= 0.5 ? 'text-accent-400' : 'text-red-400'}`}>
+              {audit.score === null ? '○' : audit.score >= 0.5 ? '▲' : '●'}
+            </span>
+            {audit.title}
+          </span>
+          {audit.displayValue && (
+            <span className="text-gray-400 ml-4 whitespace-nowrap">{audit.displayValue}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
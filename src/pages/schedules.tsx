@@ -0,0 +1,415 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Inter } from 'next/font/google';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft, Play, Pencil, Trash2, Save } from 'lucide-react';
+import { parseUrlsFromText } from '@/lib/utils';
+import { AuditSchedule, EmulationProfile, LighthouseConfig } from '@/types';
+
+const inter = Inter({ subsets: ['latin'] });
+
+const CRON_EXAMPLES: Array<{ cron: string; label: string }> = [
+  { cron: '0 6 * * *', label: 'Every day at 06:00' },
+  { cron: '0 6 * * 1-5', label: 'Weekdays at 06:00' },
+  { cron: '0 */4 * * *', label: 'Every 4 hours' },
+  { cron: '@weekly', label: 'Sundays at midnight' }
+];
+
+interface ScheduleForm {
+  id?: string;
+  name: string;
+  cron: string;
+  urlsText: string;
+  formFactor: LighthouseConfig['formFactor'];
+  profileId: string;
+  runs: number;
+  enabled: boolean;
+  // Settings the form doesn't edit (budgets, flows, ...), kept as they are
+  config: Partial<LighthouseConfig>;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  name: '',
+  cron: '0 6 * * *',
+  urlsText: '',
+  formFactor: 'mobile',
+  profileId: '',
+  runs: 1,
+  enabled: true,
+  config: {}
+};
+
+const RUN_STATUS_CLASSES: Record<NonNullable<AuditSchedule['lastRunStatus']>, string> = {
+  started: 'status-success',
+  skipped: 'status-processing',
+  error: 'status-error'
+};
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<AuditSchedule[]>([]);
+  const [profiles, setProfiles] = useState<EmulationProfile[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/schedules');
+      if (!response.ok) throw new Error('Failed to load schedules');
+      const data = await response.json();
+      setSchedules(data.schedules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+    fetch('/api/profiles')
+      .then(response => response.json())
+      .then(data => setProfiles(data.profiles || []))
+      .catch(() => setProfiles([]));
+  }, [loadSchedules]);
+
+  const editSchedule = (schedule: AuditSchedule) => {
+    setError(null);
+    setForm({
+      id: schedule.id,
+      name: schedule.name,
+      cron: schedule.cron,
+      urlsText: schedule.urls.join('\n'),
+      formFactor: schedule.config.formFactor,
+      profileId: schedule.config.profile?.id || '',
+      runs: schedule.config.runs || 1,
+      enabled: schedule.enabled,
+      config: schedule.config
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const profile = profiles.find(item => item.id === form.profileId) ||
+        // A profile that has since been deleted stays as it was stored
+        (form.config.profile?.id === form.profileId ? form.config.profile : undefined);
+      const config: LighthouseConfig = {
+        ...form.config,
+        formFactor: profile?.formFactor || form.formFactor,
+        profile,
+        runs: form.runs > 1 ? form.runs : undefined
+      };
+      const response = await fetch(form.id ? `/api/schedules?id=${encodeURIComponent(form.id)}` : '/api/schedules', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          cron: form.cron,
+          urls: parseUrlsFromText(form.urlsText),
+          enabled: form.enabled,
+          config
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save schedule');
+      setForm(EMPTY_FORM);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: AuditSchedule) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules?id=${encodeURIComponent(schedule.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...schedule, enabled: !schedule.enabled })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule');
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleRunNow = async (schedule: AuditSchedule) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules?id=${encodeURIComponent(schedule.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'run' })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to run schedule');
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: AuditSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/schedules?id=${encodeURIComponent(schedule.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+      if (form.id === schedule.id) setForm(EMPTY_FORM);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  const urlCount = parseUrlsFromText(form.urlsText).length;
+
+  return (
+    <>
+      <Head>
+        <title>Schedules | Lighthouse AI Audit Dashboard</title>
+      </Head>
+
+      <div className={`${inter.className} min-h-screen bg-navy-950 py-8`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/" className="link-primary inline-flex items-center text-sm mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-100 tracking-tight">
+              <span className="text-accent-400">Scheduled</span> Audits
+            </h1>
+            <p className="text-gray-300 mt-2">
+              Audit a URL set automatically on a cron schedule. A run is skipped while the previous one is still going.
+            </p>
+          </div>
+
+          {error && (
+            <div className="status-error bg-red-900/30 border border-red-800 rounded-md p-3 mb-8 text-sm">
+              Error: {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 card p-0 overflow-hidden">
+              <div className="card-header p-6">
+                <h2 className="text-xl font-semibold text-gray-100">Schedules</h2>
+              </div>
+              {schedules.length === 0 ? (
+                <p className="p-6 text-sm text-gray-400">No schedules yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-navy-700 text-sm">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="px-4 py-3 text-left">Name</th>
+                        <th className="px-4 py-3 text-left">Cron</th>
+                        <th className="px-4 py-3 text-left">Next run</th>
+                        <th className="px-4 py-3 text-left">Last run</th>
+                        <th className="px-4 py-3 text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-navy-700">
+                      {schedules.map(schedule => (
+                        <tr key={schedule.id} className="table-row">
+                          <td className="px-4 py-3">
+                            <p className="text-gray-100">{schedule.name}</p>
+                            <p className="text-xs text-gray-400">
+                              {schedule.urls.length} URL(s) · {schedule.config.profile?.name || (schedule.config.formFactor === 'mobile' ? '📱 Mobile' : '🖥️ Desktop')}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 font-mono text-xs text-accent-400">{schedule.cron}</td>
+                          <td className="px-4 py-3 text-xs text-gray-300">
+                            {!schedule.enabled ? (
+                              <span className="text-gray-500">Disabled</span>
+                            ) : schedule.nextRunAt ? (
+                              new Date(schedule.nextRunAt).toLocaleString()
+                            ) : (
+                              <span className="text-gray-500">Never</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-xs">
+                            {schedule.lastRunAt ? (
+                              <>
+                                <p className="text-gray-300">{new Date(schedule.lastRunAt).toLocaleString()}</p>
+                                {schedule.lastRunStatus && (
+                                  <p className={RUN_STATUS_CLASSES[schedule.lastRunStatus]}>
+                                    {schedule.lastRunMessage || schedule.lastRunStatus}
+                                  </p>
+                                )}
+                                {schedule.lastSessionId && (
+                                  <Link href={{ pathname: '/', query: { sessionId: schedule.lastSessionId } }} className="link-primary">
+                                    View run
+                                  </Link>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-gray-500">Not run yet</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex justify-end items-center gap-2">
+                              <label className="flex items-center text-xs text-gray-300 mr-2">
+                                <input
+                                  type="checkbox"
+                                  checked={schedule.enabled}
+                                  onChange={() => handleToggle(schedule)}
+                                  className="mr-1 accent-accent-500"
+                                />
+                                Enabled
+                              </label>
+                              <button type="button" onClick={() => handleRunNow(schedule)} className="btn-secondary text-xs px-2 py-1" title="Run now">
+                                <Play className="w-4 h-4" />
+                              </button>
+                              <button type="button" onClick={() => editSchedule(schedule)} className="btn-secondary text-xs px-2 py-1" title="Edit">
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              <button type="button" onClick={() => handleDelete(schedule)} className="btn-danger text-xs px-2 py-1" title="Delete">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="card p-6 space-y-4">
+              <div className="card-header -m-6 mb-2 p-6">
+                <h2 className="text-xl font-semibold text-gray-100">{form.id ? 'Edit Schedule' : 'New Schedule'}</h2>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Morning check"
+                  className="input"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Cron expression</label>
+                <input
+                  type="text"
+                  value={form.cron}
+                  onChange={(e) => setForm({ ...form, cron: e.target.value })}
+                  className="input font-mono"
+                />
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {CRON_EXAMPLES.map(example => (
+                    <button
+                      key={example.cron}
+                      type="button"
+                      onClick={() => setForm({ ...form, cron: example.cron })}
+                      className="text-xs bg-navy-700 text-gray-300 px-2 py-1 rounded-full hover:text-accent-400"
+                    >
+                      {example.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">minute hour day-of-month month day-of-week, in server time</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">URLs ({urlCount})</label>
+                <textarea
+                  value={form.urlsText}
+                  onChange={(e) => setForm({ ...form, urlsText: e.target.value })}
+                  placeholder={'https://example.com\nhttps://example.com/pricing'}
+                  rows={6}
+                  className="input font-mono text-xs"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-1">Form factor</label>
+                  <select
+                    value={form.formFactor}
+                    onChange={(e) => setForm({ ...form, formFactor: e.target.value as ScheduleForm['formFactor'] })}
+                    className="input"
+                    disabled={!!form.profileId}
+                  >
+                    <option value="mobile">📱 Mobile</option>
+                    <option value="desktop">🖥️ Desktop</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-1">Runs per URL</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.runs}
+                    onChange={(e) => setForm({ ...form, runs: parseInt(e.target.value, 10) || 1 })}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Profile</label>
+                <select
+                  value={form.profileId}
+                  onChange={(e) => setForm({ ...form, profileId: e.target.value })}
+                  className="input"
+                >
+                  <option value="">Default for the form factor</option>
+                  {form.config.profile && !profiles.some(profile => profile.id === form.config.profile!.id) && (
+                    <option value={form.config.profile.id}>{form.config.profile.name}</option>
+                  )}
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                  className="mr-2 accent-accent-500"
+                />
+                Enabled
+              </label>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || !form.name.trim() || urlCount === 0}
+                  className="btn-primary flex-1 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {form.id ? 'Update schedule' : 'Create schedule'}
+                </button>
+                {form.id && (
+                  <button type="button" onClick={() => setForm(EMPTY_FORM)} className="btn-secondary">
+                    Cancel
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400">
+                Scheduled runs use <code>OPENAI_API_KEY</code> and <code>VERCEL_BYPASS_TOKEN</code> from the server environment.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Inter } from 'next/font/google';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft, Send, Pencil, Trash2, Save } from 'lucide-react';
+import { NotificationEventType, WebhookEndpoint, WebhookFormat } from '@/types';
+
+const inter = Inter({ subsets: ['latin'] });
+
+const FORMATS: Array<{ value: WebhookFormat; label: string }> = [
+  { value: 'json', label: 'Generic JSON' },
+  { value: 'slack', label: 'Slack incoming webhook' },
+  { value: 'teams', label: 'Microsoft Teams workflow' }
+];
+
+const EVENTS: Array<{ value: NotificationEventType; label: string }> = [
+  { value: 'session.completed', label: 'Session completed' },
+  { value: 'session.errored', label: 'Session errored' },
+  { value: 'budget.failed', label: 'Budget failed' },
+  { value: 'regression.detected', label: 'Score regression' }
+];
+
+type WebhookForm = Pick<WebhookEndpoint, 'name' | 'url' | 'format' | 'events' | 'enabled'> & {
+  id?: string;
+  secret: string;
+};
+
+const EMPTY_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  format: 'json',
+  events: ['session.completed', 'session.errored', 'budget.failed', 'regression.detected'],
+  secret: '',
+  enabled: true
+};
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/webhooks');
+      if (!response.ok) throw new Error('Failed to load webhooks');
+      const data = await response.json();
+      setWebhooks(data.webhooks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: init.body ? { 'Content-Type': 'application/json' } : undefined
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || failure);
+      await loadWebhooks();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return null;
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { id, ...webhook } = form;
+    const saved = await request(
+      id ? `/api/webhooks?id=${encodeURIComponent(id)}` : '/api/webhooks',
+      { method: id ? 'PUT' : 'POST', body: JSON.stringify(webhook) },
+      'Failed to save webhook'
+    );
+    if (saved) setForm(EMPTY_FORM);
+    setSaving(false);
+  };
+
+  const handleToggle = (webhook: WebhookEndpoint) =>
+    request(
+      `/api/webhooks?id=${encodeURIComponent(webhook.id)}`,
+      { method: 'PUT', body: JSON.stringify({ ...webhook, enabled: !webhook.enabled }) },
+      'Failed to update webhook'
+    );
+
+  const handleTest = async (webhook: WebhookEndpoint) => {
+    setTesting(webhook.id);
+    await request(
+      `/api/webhooks?id=${encodeURIComponent(webhook.id)}`,
+      { method: 'PATCH', body: JSON.stringify({ action: 'test' }) },
+      'Failed to send test notification'
+    );
+    setTesting(null);
+  };
+
+  const handleDelete = async (webhook: WebhookEndpoint) => {
+    if (!confirm(`Delete webhook "${webhook.name}"?`)) return;
+    await request(`/api/webhooks?id=${encodeURIComponent(webhook.id)}`, { method: 'DELETE' }, 'Failed to delete webhook');
+    if (form.id === webhook.id) setForm(EMPTY_FORM);
+  };
+
+  const toggleEvent = (event: NotificationEventType, checked: boolean) => {
+    setForm({ ...form, events: checked ? [...form.events, event] : form.events.filter(item => item !== event) });
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Notifications | Lighthouse AI Audit Dashboard</title>
+      </Head>
+
+      <div className={`${inter.className} min-h-screen bg-navy-950 py-8`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <Link href="/" className="link-primary inline-flex items-center text-sm mb-4">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-100 tracking-tight">
+              <span className="text-accent-400">Webhook</span> Notifications
+            </h1>
+            <p className="text-gray-300 mt-2">
+              Post to Slack, Teams or any HTTP endpoint when a session finishes, misses a budget or regresses
+            </p>
+          </div>
+
+          {error && (
+            <div className="status-error bg-red-900/30 border border-red-800 rounded-md p-3 mb-8 text-sm">
+              Error: {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 card p-0 overflow-hidden">
+              <div className="card-header p-6">
+                <h2 className="text-xl font-semibold text-gray-100">Webhooks</h2>
+              </div>
+              {webhooks.length === 0 ? (
+                <p className="p-6 text-sm text-gray-400">No webhooks yet.</p>
+              ) : (
+                <ul className="divide-y divide-navy-700">
+                  {webhooks.map(webhook => (
+                    <li key={webhook.id} className="p-6 flex justify-between items-start gap-4">
+                      <div className="min-w-0">
+                        <p className="text-gray-100">
+                          {webhook.name}
+                          <span className="ml-2 text-xs bg-navy-700 text-gray-300 px-2 py-1 rounded-full">
+                            {FORMATS.find(format => format.value === webhook.format)?.label}
+                          </span>
+                          {webhook.secret && <span className="ml-2 text-xs text-gray-400">🔏 signed</span>}
+                        </p>
+                        <p className="text-xs text-accent-400 font-mono truncate mt-1" title={webhook.url}>{webhook.url}</p>
+                        <p className="text-xs text-gray-400 mt-1">{webhook.events.join(', ')}</p>
+                        {webhook.lastDelivery && (
+                          <p className={`text-xs mt-1 ${webhook.lastDelivery.ok ? 'status-success' : 'status-error'}`}>
+                            Last {webhook.lastDelivery.event} {new Date(webhook.lastDelivery.deliveredAt).toLocaleString()}:{' '}
+                            {webhook.lastDelivery.ok
+                              ? `delivered (${webhook.lastDelivery.attempts} attempt(s))`
+                              : `failed after ${webhook.lastDelivery.attempts} attempt(s), ${webhook.lastDelivery.error}`}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <label className="flex items-center text-xs text-gray-300 mr-2">
+                          <input
+                            type="checkbox"
+                            checked={webhook.enabled}
+                            onChange={() => handleToggle(webhook)}
+                            className="mr-1 accent-accent-500"
+                          />
+                          Enabled
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => handleTest(webhook)}
+                          disabled={testing === webhook.id}
+                          className="btn-secondary text-xs px-2 py-1 disabled:opacity-50"
+                          title="Send test notification"
+                        >
+                          <Send className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setForm({ ...webhook, secret: webhook.secret || '' })}
+                          className="btn-secondary text-xs px-2 py-1"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button type="button" onClick={() => handleDelete(webhook)} className="btn-danger text-xs px-2 py-1" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="card p-6 space-y-4">
+              <div className="card-header -m-6 mb-2 p-6">
+                <h2 className="text-xl font-semibold text-gray-100">{form.id ? 'Edit Webhook' : 'New Webhook'}</h2>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="#perf-alerts"
+                  className="input"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">URL</label>
+                <input
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  placeholder="https://hooks.slack.com/services/..."
+                  className="input font-mono text-xs"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Format</label>
+                <select
+                  value={form.format}
+                  onChange={(e) => setForm({ ...form, format: e.target.value as WebhookFormat })}
+                  className="input"
+                >
+                  {FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>{format.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Events</label>
+                <div className="space-y-1">
+                  {EVENTS.map(event => (
+                    <label key={event.value} className="flex items-center text-sm text-gray-200">
+                      <input
+                        type="checkbox"
+                        checked={form.events.includes(event.value)}
+                        onChange={(e) => toggleEvent(event.value, e.target.checked)}
+                        className="mr-2 accent-accent-500"
+                      />
+                      {event.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">Signing secret (optional)</label>
+                <input
+                  type="password"
+                  value={form.secret}
+                  onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                  placeholder="Used for the X-Lighthouse-Signature header"
+                  className="input"
+                  autoComplete="off"
+                />
+              </div>
+
+              <label className="flex items-center text-sm text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                  className="mr-2 accent-accent-500"
+                />
+                Enabled
+              </label>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || !form.name.trim() || !form.url.trim() || form.events.length === 0}
+                  className="btn-primary flex-1 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {form.id ? 'Update webhook' : 'Create webhook'}
+                </button>
+                {form.id && (
+                  <button type="button" onClick={() => setForm(EMPTY_FORM)} className="btn-secondary">
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -2,10 +2,175 @@ export interface LighthouseConfig {
   apiKey?: string;
   bypassToken?: string;
   formFactor: 'desktop' | 'mobile';
+  profile?: EmulationProfile; // Overrides the form factor's default screen, UA and throttling
+  variants?: AuditVariant[]; // Audit every URL once per variant; the first is the baseline for deltas
+  budgets?: PerformanceBudget[];
+  concurrency?: number; // Parallel audits, each with its own Chrome; defaults to a CPU-based value
+  runs?: number; // Audits per URL; the median run is reported
+  auth?: AuthConfig;
+  flows?: UserFlowDefinition[];
+  request?: RequestCustomization;
+  overrides?: UrlOverride[]; // Per-URL settings, e.g. from an imported spreadsheet
+  insights?: InsightsSettings; // Defaults to OpenAI when an API key is given
+}
+
+export type ThrottlingMethod = 'simulate' | 'devtools' | 'provided';
+
+/**
+ * Network and CPU throttling in Lighthouse's terms. `simulate` uses rttMs and
+ * throughputKbps; `devtools` applies the request latency and down/upload values.
+ */
+export interface ThrottlingSettings {
+  rttMs: number;
+  throughputKbps: number;
+  requestLatencyMs: number;
+  downloadThroughputKbps: number;
+  uploadThroughputKbps: number;
+  cpuSlowdownMultiplier: number;
+}
+
+/**
+ * Named device emulation and throttling settings an audit runs with
+ */
+export interface EmulationProfile {
+  id: string;
+  name: string;
+  formFactor: 'desktop' | 'mobile';
+  screen: {
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+  };
+  userAgent: string;
+  throttlingMethod: ThrottlingMethod;
+  throttling: ThrottlingSettings;
+  preset?: boolean; // Shipped with the app; read-only
+}
+
+/**
+ * One device setup a session audits every URL with
+ */
+export interface AuditVariant {
+  formFactor: 'desktop' | 'mobile';
+  profile?: EmulationProfile; // Filled in with the form factor's default on the server
+}
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+  secret?: boolean; // Masked in stored history; auth-like header names are masked regardless
+}
+
+export interface CookieEntry {
+  name: string;
+  value: string; // Always masked in stored history
+  domain?: string; // Defaults to the audited URL's host
+  path?: string;
+}
+
+export interface BasicAuthCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Headers sent only when the audited URL's host matches `host`
+ * (an exact hostname, or `*.example.com` for any subdomain)
+ */
+export interface HostHeaderRule {
+  host: string;
+  headers: HeaderEntry[];
+}
+
+/**
+ * Extra headers, cookies and basic auth sent with every audited page.
+ * Headers are sent with all of the page's requests, third parties included.
+ */
+export interface RequestCustomization {
+  headers?: HeaderEntry[];
+  cookies?: CookieEntry[];
+  basicAuth?: BasicAuthCredentials;
+  hostRules?: HostHeaderRule[];
+}
+
+/**
+ * Scripted login run in the audit's browser context before Lighthouse.
+ * Credentials are read from environment variables, never stored with the session.
+ */
+export interface LoginRecipe {
+  url: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  usernameEnv: string;
+  passwordEnv: string;
+  successSelector?: string; // Waited for after submit; otherwise the next navigation is
+}
+
+/**
+ * How to authenticate before auditing: a login recipe, or a saved
+ * Playwright-style storage state file (cookies plus localStorage per origin)
+ */
+export interface AuthConfig {
+  login?: LoginRecipe;
+  storageState?: string;
+}
+
+export type ScoreCategory = 'performance' | 'accessibility' | 'best-practices' | 'seo';
+
+export type BudgetMetric = 'lcp' | 'fcp' | 'tbt' | 'cls' | 'speedIndex' | 'tti' | 'totalByteWeight';
+
+/**
+ * Thresholds applied to every URL matching `path`. Patterns starting with `/`
+ * match the URL path, anything else matches the full URL; `*` stays within a
+ * path segment and `**` spans segments.
+ */
+export interface PerformanceBudget {
+  path: string;
+  scores?: Partial<Record<ScoreCategory, number>>;
+  metrics?: Partial<Record<BudgetMetric, number>>;
+}
+
+/**
+ * Settings for one URL on top of the session's. A form factor replaces the
+ * session's profile (unless it has that form factor) and is ignored when
+ * comparing variants; a budget wins over matching session budgets.
+ */
+export interface UrlOverride {
+  url: string;
+  formFactor?: 'desktop' | 'mobile';
+  label?: string;
+  group?: string;
+  budget?: Omit<PerformanceBudget, 'path'>;
+}
+
+export interface BudgetCheck {
+  type: 'score' | 'metric';
+  name: ScoreCategory | BudgetMetric;
+  limit: number;
+  actual: number | null;
+  passed: boolean;
+}
+
+export interface BudgetEvaluation {
+  matched: string[];
+  passed: boolean;
+  checks: BudgetCheck[];
+}
+
+export interface ScoreSpread {
+  min: number;
+  max: number;
+  stddev: number;
 }
 
 export interface AuditResult {
   url: string;
+  formFactor?: LighthouseConfig['formFactor'];
+  profile?: string; // Name of the emulation profile used
+  label?: string;
+  group?: string;
+  auditedAt?: string;
   scores?: {
     performance: number;
     accessibility: number;
@@ -22,21 +187,495 @@ export interface AuditResult {
     json: string;
     html: string;
   };
+  metrics?: Partial<Record<LabMetric, MetricValue>>;
+  budget?: BudgetEvaluation;
+  runs?: number;
+  spread?: Partial<Record<ScoreCategory, ScoreSpread>>; // Score spread across runs when runs > 1
+  error?: string;
+}
+
+export type LabMetric = 'lcp' | 'fcp' | 'tbt' | 'cls' | 'speedIndex' | 'tti' | 'serverResponseTime';
+
+export interface MetricValue {
+  value: number; // Milliseconds, except CLS which is unitless
+  score: number | null; // Lighthouse's 0-1 metric score
+}
+
+export type FlowAction =
+  | { action: 'click'; selector: string }
+  | { action: 'type'; selector: string; text: string }
+  | { action: 'press'; key: string }
+  | { action: 'waitForSelector'; selector: string }
+  | { action: 'waitForNavigation' }
+  | { action: 'wait'; ms: number };
+
+/**
+ * One Lighthouse user-flow step. A navigation loads `url` or runs `actions`
+ * that trigger the navigation; a timespan measures its `actions`; a snapshot
+ * runs its `actions` first and then inspects the page as it is.
+ */
+export type FlowStep =
+  | { type: 'navigation'; name?: string; url?: string; actions?: FlowAction[] }
+  | { type: 'timespan'; name?: string; actions: FlowAction[] }
+  | { type: 'snapshot'; name?: string; actions?: FlowAction[] };
+
+export interface UserFlowDefinition {
+  name: string;
+  steps: FlowStep[];
+}
+
+export interface FlowStepSummary {
+  name: string;
+  gatherMode: FlowStep['type'];
+  scores: Partial<Record<ScoreCategory, number>>; // Timespan and snapshot steps only score some categories
+}
+
+export interface FlowAuditResult {
+  name: string;
+  formFactor?: 'desktop' | 'mobile';
+  profile?: string;
+  auditedAt?: string;
+  steps?: FlowStepSummary[];
+  reportPaths?: {
+    json: string;
+    html: string;
+  };
   error?: string;
 }
 
+export type InsightsProviderName = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'fake';
+
+/**
+ * Which model writes a session's AI insights. Endpoints and server keys come
+ * from the environment, never from the session.
+ */
+export interface InsightsSettings {
+  provider: InsightsProviderName;
+  model?: string; // Provider default when unset; the deployment name for Azure
+  temperature?: number;
+}
+
+export type InsightImpact = 'high' | 'medium' | 'low';
+
+export interface InsightFix {
+  title: string;
+  impact: InsightImpact;
+  estimatedImpact: string; // e.g. "LCP -1.2 s" or "Performance +10"
+}
+
+/**
+ * What the model made of one audited URL (one per URL and variant)
+ */
+export interface UrlInsights {
+  url: string;
+  profile?: string;
+  strengths: string[];
+  fixes: InsightFix[]; // Highest impact first
+  redFlags: string[];
+}
+
+/**
+ * Structured AI insights for a batch of results
+ */
+export interface BatchInsights {
+  summary: string;
+  urls: UrlInsights[];
+  provider: InsightsProviderName;
+  model: string;
+  chunks: number; // Model requests the batch was split across
+  generatedAt: string;
+}
+
 export interface ProcessingStatus {
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | AuditSessionStatus;
   currentUrl?: string;
+  activeUrls?: string[];
   progress?: number;
   totalUrls?: number;
   results?: AuditResult[];
   error?: string;
   insightsFile?: string; // Path to AI insights file
+  insights?: BatchInsights;
+  log?: AuditLogEntry[];
+}
+
+export type AuditSessionStatus = 'processing' | 'paused' | 'cancelled' | 'completed' | 'error';
+
+/**
+ * Operations on a running or paused session (PATCH /api/audit)
+ */
+export type AuditControlAction = 'cancel' | 'pause' | 'resume';
+
+/**
+ * Session configuration as persisted - secrets are never written to disk
+ */
+export type StoredLighthouseConfig = Omit<LighthouseConfig, 'apiKey' | 'bypassToken'>;
+
+export interface AuditSession {
+  sessionId: string;
+  status: AuditSessionStatus;
+  config: StoredLighthouseConfig;
+  urls: string[];
+  results: AuditResult[];
+  flowResults?: FlowAuditResult[];
+  currentUrl?: string;
+  activeUrls?: string[];
+  progress: number;
+  total: number; // URLs plus user flows
+  error?: string;
+  insightsFile?: string; // Path to AI insights file
+  insights?: BatchInsights;
+  schedule?: ScheduleRef; // Set when a schedule started the session
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AuditLogEntry {
+  timestamp: string;
+  message: string;
+  url?: string;
+}
+
+/**
+ * Events pushed over the `/api/audit/stream` Server-Sent Events endpoint
+ */
+export type AuditStreamEvent =
+  | { type: 'snapshot'; session: AuditSession; log: AuditLogEntry[] }
+  | {
+      type: 'progress';
+      status: AuditSessionStatus;
+      progress: number;
+      total: number;
+      currentUrl?: string;
+      activeUrls?: string[];
+      error?: string;
+      insightsFile?: string;
+      insights?: BatchInsights;
+    }
+  | { type: 'result'; index: number; result: AuditResult }
+  | { type: 'flowResult'; index: number; result: FlowAuditResult }
+  | { type: 'log'; entry: AuditLogEntry };
+
+export interface AuditSessionSummary {
+  sessionId: string;
+  status: AuditSessionStatus;
+  formFactor: LighthouseConfig['formFactor'];
+  total: number;
+  completed: number;
+  failed: number;
+  schedule?: ScheduleRef;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UrlHistoryPoint {
+  sessionId: string;
+  auditedAt: string;
+  formFactor: LighthouseConfig['formFactor'];
+  scores: NonNullable<AuditResult['scores']>;
+  reportPaths?: AuditResult['reportPaths'];
+}
+
+export interface CategoryDelta {
+  category: ScoreCategory;
+  base: number | null;
+  head: number | null;
+  delta: number | null;
+  regression: boolean;
+}
+
+export interface OpportunityChange {
+  title: string;
+  base?: number;
+  head?: number;
+  delta?: number;
+}
+
+export interface UrlComparison {
+  url: string;
+  formFactor: LighthouseConfig['formFactor'];
+  profile?: string;
+  baseReport?: string;
+  headReport?: string;
+  categories: CategoryDelta[];
+  appeared: string[];
+  disappeared: string[];
+  changed: OpportunityChange[];
+  regression: boolean;
+  error?: string;
+}
+
+export interface RunComparison {
+  baseSessionId: string;
+  headSessionId: string;
+  threshold: number;
+  comparisons: UrlComparison[];
+  regressions: number;
+  unmatched: string[];
+}
+
+export interface AuditItemSummary {
+  id: string;
+  title: string;
+  displayValue?: string;
+  score: number | null;
+}
+
+export interface FailedAuditGroup {
+  category: string; // Category ID, e.g. "accessibility"
+  title: string;
+  audits: AuditItemSummary[];
+}
+
+export interface OpportunityDetail extends AuditItemSummary {
+  savingsMs?: number;
+  savingsBytes?: number;
+}
+
+export interface ThirdPartySummary {
+  entity: string;
+  transferSize: number;
+  mainThreadTime: number;
+}
+
+export interface ResourceSummary {
+  url: string;
+  resourceType?: string;
+  transferSize: number;
+}
+
+export interface FilmstripFrame {
+  timing: number;
+  data: string; // Image data URL
+}
+
+/**
+ * A flagged audit with the page elements and resources behind it, as given to the fix assistant
+ */
+export interface FixIssue {
+  auditId: string;
+  title: string;
+  category: string; // Category ID, e.g. "performance"
+  displayValue?: string;
+  savingsMs?: number;
+  savingsBytes?: number;
+  items: Array<Record<string, string>>; // Flagged rows, keyed by column label
+  stackAdvice?: string; // Lighthouse's advice for the detected framework, e.g. Next.js
+}
+
+export interface FixSnippet {
+  language: string; // e.g. html, tsx, js, json
+  file?: string; // Where the change goes, e.g. next.config.js
+  code: string;
+}
+
+export interface FixSuggestion {
+  auditId: string;
+  title: string;
+  explanation: string;
+  snippets: FixSnippet[];
+  savingsMs?: number; // Lighthouse's estimates for the audit
+  savingsBytes?: number;
+}
+
+/**
+ * Code-level fixes suggested for one saved report
+ */
+export interface FixSuggestions {
+  report: string; // JSON report path
+  url: string;
+  stack: string[]; // Frameworks Lighthouse detected
+  suggestions: FixSuggestion[]; // Largest estimated savings first
+  provider: InsightsProviderName;
+  model: string;
+  generatedAt: string;
+}
+
+/**
+ * Body of POST /api/fixes
+ */
+export interface FixRequest {
+  report: string;
+  apiKey?: string;
+  insights?: InsightsSettings;
+}
+
+/**
+ * Drill-down view of one audit, distilled from its saved LHR
+ */
+export interface ResultDetail {
+  url: string;
+  finalUrl?: string;
+  fetchTime: string;
+  lighthouseVersion: string;
+  formFactor?: 'desktop' | 'mobile';
+  scores: NonNullable<AuditResult['scores']>;
+  metrics: NonNullable<AuditResult['metrics']>;
+  failedAudits: FailedAuditGroup[];
+  diagnostics: AuditItemSummary[];
+  opportunities: OpportunityDetail[];
+  thirdParties: ThirdPartySummary[];
+  largestResources: ResourceSummary[];
+  screenshot?: string;
+  filmstrip: FilmstripFrame[];
+}
+
+export type ImportFormat = 'csv' | 'xlsx' | 'text' | 'json';
+
+/**
+ * What an imported column holds; `score:*` columns are minimum scores and
+ * `metric:*` columns maximum metric values for that row's budget
+ */
+export type ImportField =
+  | 'url'
+  | 'formFactor'
+  | 'label'
+  | 'group'
+  | `score:${ScoreCategory}`
+  | `metric:${BudgetMetric}`;
+
+/**
+ * An uploaded URL list as rows of cells; row N of the file is `rows[N - 1]`,
+ * except that a JSON list of objects starts with a header row of its keys
+ */
+export interface ImportTable {
+  format: ImportFormat;
+  fileName: string;
+  sheet?: string; // XLSX: the worksheet that was read
+  rows: string[][];
+}
+
+/**
+ * How to read an import table: whether its first row is a header, and the field of each column
+ */
+export interface ImportMapping {
+  hasHeader: boolean;
+  columns: Array<ImportField | null>;
+}
+
+export interface ImportRowError {
+  row: number; // Row (or, for JSON, item) number in the file, from 1
+  message: string;
+}
+
+export interface ImportResult {
+  targets: UrlOverride[];
+  errors: ImportRowError[];
 }
 
 export interface UploadResponse {
   success: boolean;
-  urls?: string[];
+  table?: ImportTable;
+  error?: string;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'html' | 'pdf';
+
+export type DiscoveryMode = 'sitemap' | 'crawl';
+
+/**
+ * Find URLs to audit from a sitemap (or sitemap index) or by crawling same-origin links
+ */
+export interface DiscoveryRequest {
+  mode: DiscoveryMode;
+  url: string; // Sitemap URL, or the page the crawl starts from
+  depth?: number; // Crawl only: link hops from the start page
+  limit?: number; // Most URLs to return (crawl: pages to visit)
+  include?: string[]; // URL globs; when given, a URL must match one
+  exclude?: string[]; // URL globs; a URL matching any is dropped
+  bypassToken?: string;
+  request?: RequestCustomization;
+}
+
+export interface DiscoveryResult {
+  urls: string[]; // Normalized, deduplicated and filtered
+  found: number; // Unique URLs found before include/exclude filtering
+  sources: number; // Sitemaps read or pages crawled
+  truncated: boolean; // Stopped at the limit
+  errors: string[];
+}
+
+export interface ScheduleRef {
+  id: string;
+  name: string;
+}
+
+export type ScheduleRunStatus = 'started' | 'skipped' | 'error';
+
+/**
+ * Named URL set audited whenever its cron expression matches
+ */
+export interface AuditSchedule {
+  id: string;
+  name: string;
+  cron: string;
+  urls: string[];
+  // Secrets are never stored; runs take the API key and bypass token from the environment
+  config: StoredLighthouseConfig;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunStatus?: ScheduleRunStatus;
+  lastRunMessage?: string;
+  lastSessionId?: string;
+}
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export type NotificationEventType =
+  | 'session.completed'
+  | 'session.errored'
+  | 'budget.failed'
+  | 'regression.detected'
+  | 'ping';
+
+export interface WebhookDelivery {
+  event: NotificationEventType;
+  deliveredAt: string;
+  ok: boolean;
+  attempts: number;
+  status?: number; // Last HTTP status received
   error?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Outgoing webhook: a URL that receives the events it subscribes to
+ */
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: NotificationEventType[];
+  secret?: string; // HMAC key for the signature header; masked in API responses
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastDelivery?: WebhookDelivery;
+}
+
+export interface NotificationResult {
+  url: string;
+  profile?: string;
+  scores?: AuditResult['scores'];
+  error?: string;
+}
+
+/**
+ * Format-independent content of a notification; webhooks render it as
+ * generic JSON, a Slack message or a Teams card
+ */
+export interface Notification {
+  event: NotificationEventType;
+  title: string;
+  summary: string;
+  sessionId?: string;
+  status?: AuditSessionStatus;
+  schedule?: ScheduleRef;
+  link?: string; // Dashboard URL of the session when APP_BASE_URL is set
+  results: NotificationResult[];
+  budgetFailures: Array<{ url: string; profile?: string; failures: string[] }>;
+  regressions: Array<{ url: string; profile?: string; baseSessionId: string; categories: CategoryDelta[] }>;
+}